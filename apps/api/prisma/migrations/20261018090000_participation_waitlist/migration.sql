@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Participation" ADD COLUMN "waitlistedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Participation_conferenceId_status_idx" ON "Participation"("conferenceId", "status");
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ParticipationStatus" AS ENUM ('pending', 'confirmed', 'waitlisted', 'attended', 'no_show', 'cancelled', 'withdrawn');
+
+-- Normalize legacy free-form values ("Confirmed", "confirmd", "done", ...) before converting the column.
+-- Anything that cannot be mapped is reset to "pending" so an organizer can review it.
+UPDATE "Participation" SET "status" = lower(trim("status"));
+
+UPDATE "Participation" SET "status" = CASE
+  WHEN "status" IN ('confirmd', 'confirm', 'accepted') THEN 'confirmed'
+  WHEN "status" IN ('done', 'complete', 'completed', 'present', 'attend') THEN 'attended'
+  WHEN "status" IN ('no-show', 'noshow', 'no show', 'absent') THEN 'no_show'
+  WHEN "status" IN ('canceled', 'cancel') THEN 'cancelled'
+  WHEN "status" IN ('declined', 'withdraw', 'rejected') THEN 'withdrawn'
+  WHEN "status" IN ('pending', 'confirmed', 'waitlisted', 'attended', 'no_show', 'cancelled', 'withdrawn') THEN "status"
+  ELSE 'pending'
+END;
+
+-- AlterTable
+ALTER TABLE "Participation" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "Participation" ALTER COLUMN "status" TYPE "ParticipationStatus" USING ("status"::"ParticipationStatus");
+ALTER TABLE "Participation" ALTER COLUMN "status" SET DEFAULT 'confirmed';
+
+-- CreateTable
+CREATE TABLE "ParticipationStatusChange" (
+    "id" SERIAL NOT NULL,
+    "participationId" INTEGER NOT NULL,
+    "fromStatus" "ParticipationStatus",
+    "toStatus" "ParticipationStatus" NOT NULL,
+    "reason" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ParticipationStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ParticipationStatusChange_participationId_changedAt_idx" ON "ParticipationStatusChange"("participationId", "changedAt");
+
+-- AddForeignKey
+ALTER TABLE "ParticipationStatusChange" ADD CONSTRAINT "ParticipationStatusChange_participationId_fkey" FOREIGN KEY ("participationId") REFERENCES "Participation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the history with the current status of existing participations
+INSERT INTO "ParticipationStatusChange" ("participationId", "fromStatus", "toStatus", "reason")
+SELECT "id", NULL, "status", 'Migrated from legacy status'
+FROM "Participation";
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('admin', 'organizer', 'reviewer', 'scientist');
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL DEFAULT 'scientist',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "scientistId" INTEGER,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_scientistId_key" ON "User"("scientistId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_scientistId_fkey" FOREIGN KEY ("scientistId") REFERENCES "Scientist"("id") ON DELETE SET NULL ON UPDATE CASCADE;
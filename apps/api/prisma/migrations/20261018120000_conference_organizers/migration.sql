@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ConferenceOrganizer" (
+    "conferenceId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "invitedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConferenceOrganizer_pkey" PRIMARY KEY ("conferenceId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "ConferenceOrganizer_userId_idx" ON "ConferenceOrganizer"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ConferenceOrganizer" ADD CONSTRAINT "ConferenceOrganizer_conferenceId_fkey" FOREIGN KEY ("conferenceId") REFERENCES "Conference"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConferenceOrganizer" ADD CONSTRAINT "ConferenceOrganizer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConferenceOrganizer" ADD CONSTRAINT "ConferenceOrganizer_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Conference" ADD COLUMN "endDate" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Room" (
+    "id" SERIAL NOT NULL,
+    "conferenceId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "capacity" INTEGER,
+
+    CONSTRAINT "Room_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Session" (
+    "id" SERIAL NOT NULL,
+    "conferenceId" INTEGER NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "chair" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Session_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TimeSlot" (
+    "id" SERIAL NOT NULL,
+    "sessionId" INTEGER NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "participationId" INTEGER,
+
+    CONSTRAINT "TimeSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Room_conferenceId_name_key" ON "Room"("conferenceId", "name");
+
+-- CreateIndex
+CREATE INDEX "Session_conferenceId_startsAt_idx" ON "Session"("conferenceId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "Session_roomId_startsAt_idx" ON "Session"("roomId", "startsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeSlot_participationId_key" ON "TimeSlot"("participationId");
+
+-- CreateIndex
+CREATE INDEX "TimeSlot_sessionId_startsAt_idx" ON "TimeSlot"("sessionId", "startsAt");
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_conferenceId_fkey" FOREIGN KEY ("conferenceId") REFERENCES "Conference"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_conferenceId_fkey" FOREIGN KEY ("conferenceId") REFERENCES "Conference"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Session" ADD CONSTRAINT "Session_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimeSlot" ADD CONSTRAINT "TimeSlot_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "Session"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TimeSlot" ADD CONSTRAINT "TimeSlot_participationId_fkey" FOREIGN KEY ("participationId") REFERENCES "Participation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Session" ADD COLUMN "isDraft" BOOLEAN NOT NULL DEFAULT false;
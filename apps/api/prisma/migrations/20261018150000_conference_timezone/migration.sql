@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Conference" ADD COLUMN "timezone" TEXT NOT NULL DEFAULT 'UTC';
@@ -0,0 +1,85 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateTable
+CREATE TABLE "ScientistOrcidConflict" (
+    "scientistId" INTEGER NOT NULL,
+    "orcid" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "duplicateOfId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScientistOrcidConflict_pkey" PRIMARY KEY ("scientistId")
+);
+
+-- CreateIndex
+CREATE INDEX "ScientistOrcidConflict_orcid_idx" ON "ScientistOrcidConflict"("orcid");
+
+-- AddForeignKey
+ALTER TABLE "ScientistOrcidConflict" ADD CONSTRAINT "ScientistOrcidConflict_scientistId_fkey" FOREIGN KEY ("scientistId") REFERENCES "Scientist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScientistOrcidConflict" ADD CONSTRAINT "ScientistOrcidConflict_duplicateOfId_fkey" FOREIGN KEY ("duplicateOfId") REFERENCES "Scientist"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- ISO 7064 mod 11-2 check digit over the first 15 digits, as in src/lib/orcid.ts; only needed here
+CREATE FUNCTION orcid_check_digit(digits TEXT) RETURNS TEXT LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  total INTEGER := 0;
+BEGIN
+  FOR i IN 1..15 LOOP
+    total := (total + substr(digits, i, 1)::INTEGER) * 2;
+  END LOOP;
+  RETURN CASE (12 - total % 11) % 11 WHEN 10 THEN 'X' ELSE ((12 - total % 11) % 11)::TEXT END;
+END
+$$;
+
+CREATE TEMPORARY TABLE normalized_orcid AS
+SELECT id AS scientist_id, orcid AS original, compact,
+       compact ~ '^[0-9]{15}[0-9X]$' AND orcid_check_digit(left(compact, 15)) = right(compact, 1) AS valid
+FROM (
+  SELECT id, orcid,
+         upper(regexp_replace(regexp_replace(trim(orcid), '^(https?://)?(www\.)?orcid\.org/', '', 'i'), '[\s-]', '', 'g')) AS compact
+  FROM "Scientist"
+  WHERE orcid IS NOT NULL
+) candidates;
+
+-- Values the API would reject are kept in the report as they were and cleared
+INSERT INTO "ScientistOrcidConflict" ("scientistId", orcid, reason)
+SELECT scientist_id, original, 'invalid'
+FROM normalized_orcid
+WHERE NOT valid;
+
+UPDATE "Scientist" s
+SET orcid = NULL
+FROM normalized_orcid n
+WHERE s.id = n.scientist_id
+  AND NOT n.valid;
+
+-- Normalize ORCID iDs to 0000-0000-0000-000X
+UPDATE "Scientist" s
+SET orcid = substr(n.compact, 1, 4) || '-' || substr(n.compact, 5, 4) || '-' || substr(n.compact, 9, 4) || '-' || substr(n.compact, 13, 4)
+FROM normalized_orcid n
+WHERE s.id = n.scientist_id
+  AND n.valid;
+
+-- Only the oldest record keeps a shared ORCID iD; the others are likely duplicates of the same person,
+-- so their iD stays in the report, where duplicate detection finds it, until they are merged
+INSERT INTO "ScientistOrcidConflict" ("scientistId", orcid, reason, "duplicateOfId")
+SELECT s.id, s.orcid, 'duplicate', min(d.id)
+FROM "Scientist" s
+JOIN "Scientist" d ON d.orcid = s.orcid AND d.id < s.id
+GROUP BY s.id, s.orcid;
+
+UPDATE "Scientist" s
+SET orcid = NULL
+WHERE EXISTS (SELECT 1 FROM "ScientistOrcidConflict" c WHERE c."scientistId" = s.id AND c.reason = 'duplicate');
+
+DROP TABLE normalized_orcid;
+DROP FUNCTION orcid_check_digit(TEXT);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Scientist_orcid_key" ON "Scientist"("orcid");
+
+-- Duplicate detection compares names with pg_trgm similarity
+CREATE INDEX "Scientist_fullName_trgm_idx"
+  ON "Scientist"
+  USING GIN ("fullName" gin_trgm_ops);
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "ScientistMerge" (
+    "id" SERIAL NOT NULL,
+    "targetId" INTEGER NOT NULL,
+    "sourceIds" INTEGER[],
+    "sources" JSONB NOT NULL,
+    "fields" JSONB NOT NULL,
+    "participationIds" INTEGER[],
+    "mergedById" INTEGER,
+    "mergedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScientistMerge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScientistMerge_targetId_idx" ON "ScientistMerge"("targetId");
+
+-- AddForeignKey
+ALTER TABLE "ScientistMerge" ADD CONSTRAINT "ScientistMerge_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "Scientist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScientistMerge" ADD CONSTRAINT "ScientistMerge_mergedById_fkey" FOREIGN KEY ("mergedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,101 @@
+-- CreateEnum
+CREATE TYPE "SubmissionStatus" AS ENUM ('submitted', 'under_review', 'accepted', 'rejected', 'withdrawn');
+
+-- CreateTable
+CREATE TABLE "Submission" (
+    "id" SERIAL NOT NULL,
+    "conferenceId" INTEGER NOT NULL,
+    "scientistId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "abstract" TEXT NOT NULL,
+    "participationType" TEXT NOT NULL,
+    "durationMinutes" INTEGER NOT NULL,
+    "status" "SubmissionStatus" NOT NULL DEFAULT 'submitted',
+    "decisionNote" TEXT,
+    "decidedById" INTEGER,
+    "decidedAt" TIMESTAMP(3),
+    "participationId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Submission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewCriterion" (
+    "id" SERIAL NOT NULL,
+    "conferenceId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "maxScore" INTEGER NOT NULL DEFAULT 5,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ReviewCriterion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Review" (
+    "id" SERIAL NOT NULL,
+    "submissionId" INTEGER NOT NULL,
+    "reviewerId" INTEGER NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Review_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReviewScore" (
+    "reviewId" INTEGER NOT NULL,
+    "criterionId" INTEGER NOT NULL,
+    "score" INTEGER NOT NULL,
+
+    CONSTRAINT "ReviewScore_pkey" PRIMARY KEY ("reviewId","criterionId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Submission_participationId_key" ON "Submission"("participationId");
+
+-- CreateIndex
+CREATE INDEX "Submission_conferenceId_status_idx" ON "Submission"("conferenceId", "status");
+
+-- CreateIndex
+CREATE INDEX "Submission_scientistId_idx" ON "Submission"("scientistId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewCriterion_conferenceId_name_key" ON "ReviewCriterion"("conferenceId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_submissionId_reviewerId_key" ON "Review"("submissionId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "Review_reviewerId_idx" ON "Review"("reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_conferenceId_fkey" FOREIGN KEY ("conferenceId") REFERENCES "Conference"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_scientistId_fkey" FOREIGN KEY ("scientistId") REFERENCES "Scientist"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_decidedById_fkey" FOREIGN KEY ("decidedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Submission" ADD CONSTRAINT "Submission_participationId_fkey" FOREIGN KEY ("participationId") REFERENCES "Participation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewCriterion" ADD CONSTRAINT "ReviewCriterion_conferenceId_fkey" FOREIGN KEY ("conferenceId") REFERENCES "Conference"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_submissionId_fkey" FOREIGN KEY ("submissionId") REFERENCES "Submission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewScore" ADD CONSTRAINT "ReviewScore_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewScore" ADD CONSTRAINT "ReviewScore_criterionId_fkey" FOREIGN KEY ("criterionId") REFERENCES "ReviewCriterion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
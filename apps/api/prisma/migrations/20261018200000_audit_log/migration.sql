@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "AuditEntity" AS ENUM ('scientist', 'conference', 'participation');
+
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('create', 'update', 'delete');
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" SERIAL NOT NULL,
+    "entity" "AuditEntity" NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "operation" TEXT NOT NULL,
+    "actorId" INTEGER,
+    "actorEmail" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "changedFields" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_entity_entityId_createdAt_idx" ON "AuditLog"("entity", "entityId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actorId_createdAt_idx" ON "AuditLog"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'restore';
+
+-- AlterTable
+ALTER TABLE "Scientist" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Conference" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Participation" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- Deleted rows are the exception: partial indexes keep the default "not deleted" filter cheap
+CREATE INDEX "Scientist_deletedAt_idx" ON "Scientist"("deletedAt") WHERE "deletedAt" IS NOT NULL;
+CREATE INDEX "Conference_deletedAt_idx" ON "Conference"("deletedAt") WHERE "deletedAt" IS NOT NULL;
+CREATE INDEX "Participation_deletedAt_idx" ON "Participation"("deletedAt") WHERE "deletedAt" IS NOT NULL;
@@ -0,0 +1,36 @@
+-- Full-text search over scientists, conferences and talks. The tsvector columns are
+-- generated by the database, so they stay current without application code.
+-- Weights: A = name or title, B = what it is about, C = where or what kind, D = metadata.
+
+-- AlterTable
+ALTER TABLE "Scientist" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("fullName", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("organization", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("specialization", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Conference" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("topic", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("location", '') || ' ' || coalesce("country", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Participation" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("talkTitle", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("participationType", '')), 'C') ||
+  setweight(jsonb_to_tsvector('english', coalesce("metadata", '{}'::jsonb), '["string"]'), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Scientist_searchVector_idx" ON "Scientist" USING GIN ("searchVector");
+CREATE INDEX "Conference_searchVector_idx" ON "Conference" USING GIN ("searchVector");
+CREATE INDEX "Participation_searchVector_idx" ON "Participation" USING GIN ("searchVector");
+
+-- Typo tolerance matches misspelled words with pg_trgm (Scientist.fullName is indexed already)
+CREATE INDEX "Scientist_organization_trgm_idx" ON "Scientist" USING GIN ("organization" gin_trgm_ops);
+CREATE INDEX "Scientist_specialization_trgm_idx" ON "Scientist" USING GIN ("specialization" gin_trgm_ops);
+CREATE INDEX "Conference_name_trgm_idx" ON "Conference" USING GIN ("name" gin_trgm_ops);
+CREATE INDEX "Conference_topic_trgm_idx" ON "Conference" USING GIN ("topic" gin_trgm_ops);
+CREATE INDEX "Participation_talkTitle_trgm_idx" ON "Participation" USING GIN ("talkTitle" gin_trgm_ops);
@@ -0,0 +1,2 @@
+-- Structured metadata queries: containment (@>) and jsonpath (@?) filters
+CREATE INDEX "Participation_metadata_path_idx" ON "Participation" USING GIN ("metadata" jsonb_path_ops);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Conference" ADD COLUMN "metadataSchema" JSONB;
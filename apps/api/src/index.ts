@@ -4,11 +4,21 @@ import { OpenAPIHono } from '@hono/zod-openapi'
 import { cors } from 'hono/cors'
 import { swaggerUI } from '@hono/swagger-ui'
 
+import auth from './routes/auth.js'
 import scientists from './routes/scientists.js'
 import conferences from './routes/conferences.js'
 import participations from './routes/participations.js'
+import program from './routes/program.js'
+import imports from './routes/imports.js'
+import submissions from './routes/submissions.js'
+import audit from './routes/audit.js'
+import analytics from './routes/analytics.js'
+import search from './routes/search.js'
+import { handleError, handleNotFound, validationHook } from './lib/problem.js'
+import { prisma } from './lib/prisma.js'
+import { metadataSchemaComponents } from './lib/metadata-schema.js'
 
-const app = new OpenAPIHono()
+const app = new OpenAPIHono({ defaultHook: validationHook })
 
 const PORT = Number(process.env.SCONF_API_PORT) || Number(process.env.PORT) || 3000
 const VERSION = process.env.SCONF_API_VERSION || '1.0.0'
@@ -21,15 +31,19 @@ const CORS_ORIGINS = process.env.SCONF_CORS_ORIGIN?.split(',') ||
 app.use('/*', cors({
   origin: CORS_ORIGINS,
   allowHeaders: ['Content-Type', 'Authorization'],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 }))
 
+app.onError(handleError)
+app.notFound(handleNotFound)
+
 app.get('/', (c) => {
   return c.json({
     message: 'Scientific Conference Management API',
     version: VERSION,
     environment: NODE_ENV,
     endpoints: {
+      auth: `${API_PREFIX}/auth`,
       scientists: `${API_PREFIX}/scientists`,
       conferences: `${API_PREFIX}/conferences`,
       participations: `${API_PREFIX}/participations`,
@@ -47,11 +61,25 @@ app.get('/health', (c) => {
   })
 })
 
+app.route(`${API_PREFIX}/auth`, auth)
 app.route(`${API_PREFIX}/scientists`, scientists)
 app.route(`${API_PREFIX}/conferences`, conferences)
+app.route(`${API_PREFIX}/conferences`, program)
+app.route(`${API_PREFIX}/conferences`, submissions)
 app.route(`${API_PREFIX}/participations`, participations)
+app.route(`${API_PREFIX}/import`, imports)
+app.route(`${API_PREFIX}/audit`, audit)
+app.route(`${API_PREFIX}/analytics`, analytics)
+app.route(`${API_PREFIX}/search`, search)
+
+app.openAPIRegistry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  bearerFormat: 'JWT',
+  description: 'Token from POST /api/auth/login. Roles required by each operation are listed in x-roles'
+})
 
-app.doc('/doc', {
+const OPENAPI_CONFIG = {
   openapi: '3.0.0',
   info: {
     version: VERSION,
@@ -65,6 +93,10 @@ app.doc('/doc', {
     }
   ],
   tags: [
+    {
+      name: 'Auth',
+      description: 'Accounts, roles and tokens'
+    },
     {
       name: 'Scientists',
       description: 'Operations with scientists'
@@ -76,11 +108,54 @@ app.doc('/doc', {
     {
       name: 'Participations',
       description: 'Operations with participations in conferences'
+    },
+    {
+      name: 'Program',
+      description: 'Rooms, sessions and time slots of conference programs'
+    },
+    {
+      name: 'Submissions',
+      description: 'Call for papers: abstract submissions, peer reviews and decisions'
+    },
+    {
+      name: 'Import',
+      description: 'Bulk import of spreadsheets with a validation report'
+    },
+    {
+      name: 'Audit',
+      description: 'Who changed what and when'
+    },
+    {
+      name: 'Analytics',
+      description: 'Who meets whom: co-attendance networks and attendance metrics'
+    },
+    {
+      name: 'Search',
+      description: 'Ranked, typo-tolerant search across scientists, conferences and talks'
     }
   ]
+}
+
+type OpenAPIDocument = ReturnType<typeof app.getOpenAPIDocument>
+
+// The document with the metadata components it was built from, rebuilt when those change
+let documentCache: { metadata: Awaited<ReturnType<typeof metadataSchemaComponents>>; document: OpenAPIDocument } | null = null
+
+// Served by hand rather than with app.doc, since the metadata schemas of conferences live in the database
+app.get('/doc', async (c) => {
+  const metadata = await metadataSchemaComponents(prisma)
+  if (documentCache?.metadata !== metadata) {
+    const document = app.getOpenAPIDocument(OPENAPI_CONFIG)
+    document.components = {
+      ...document.components,
+      schemas: { ...document.components?.schemas, ...metadata }
+    }
+    documentCache = { metadata, document }
+  }
+  return c.json(documentCache.document)
 })
 
-app.get('/ui', swaggerUI({ url: '/doc' }))
+app.get('/ui', swaggerUI({ url: '/doc', persistAuthorization: true, showExtensions: true }))
 
 serve({
   fetch: app.fetch,
@@ -91,6 +166,7 @@ serve({
   console.log(`   - Swagger UI: http://localhost:${info.port}/ui`)
   console.log(`   - OpenAPI JSON: http://localhost:${info.port}/doc`)
   console.log(`🔗 API Endpoints:`)
+  console.log(`   - Auth: http://localhost:${info.port}${API_PREFIX}/auth`)
   console.log(`   - Scientists: http://localhost:${info.port}${API_PREFIX}/scientists`)
   console.log(`   - Conferences: http://localhost:${info.port}${API_PREFIX}/conferences`)
   console.log(`   - Participations: http://localhost:${info.port}${API_PREFIX}/participations`)
@@ -0,0 +1,128 @@
+import { Prisma, type AuditAction, type AuditEntity, type AuditLog } from '@prisma/client'
+import { z } from '@hono/zod-openapi'
+import type { AuthUser } from './auth.js'
+
+type Tx = Prisma.TransactionClient
+
+export const AUDIT_ENTITIES = ['scientist', 'conference', 'participation'] as const satisfies readonly AuditEntity[]
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore'] as const satisfies readonly AuditAction[]
+
+// The user a change is attributed to; null for changes without a signed-in caller
+export type AuditActor = Pick<AuthUser, 'id' | 'email'> | null
+
+type Row = { id: number }
+
+export type AuditChange = {
+  entity: AuditEntity
+  entityId: number
+  action: AuditAction
+  before: Row | null
+  after: Row | null
+}
+
+export function createChange(entity: AuditEntity, row: Row): AuditChange {
+  return { entity, entityId: row.id, action: 'create', before: null, after: row }
+}
+
+export function updateChange(entity: AuditEntity, before: Row, after: Row): AuditChange {
+  return { entity, entityId: after.id, action: 'update', before, after }
+}
+
+// Soft deletes keep the row, which is recorded as `after` with its deletedAt set
+export function deleteChange(entity: AuditEntity, row: Row, deleted: Row | null = null): AuditChange {
+  return { entity, entityId: row.id, action: 'delete', before: row, after: deleted }
+}
+
+export function restoreChange(entity: AuditEntity, before: Row, after: Row): AuditChange {
+  return { entity, entityId: after.id, action: 'restore', before, after }
+}
+
+// Pairs the rows of a bulk update by id; rows that did not change are left out
+export function updateManyChanges(entity: AuditEntity, before: Row[], after: Row[]): AuditChange[] {
+  const previous = new Map(before.map((row) => [row.id, row]))
+  return after.flatMap((row) => {
+    const old = previous.get(row.id)
+    return old && changedFields(old, row).length > 0 ? [updateChange(entity, old, row)] : []
+  })
+}
+
+// Dates become ISO strings, as in API responses
+function toJson(row: Row | null) {
+  return row === null ? Prisma.DbNull : (JSON.parse(JSON.stringify(row)) as Prisma.InputJsonObject)
+}
+
+function changedFields(before: Row | null, after: Row | null) {
+  if (!before || !after) return []
+  const a = JSON.parse(JSON.stringify(before)) as Record<string, unknown>
+  const b = JSON.parse(JSON.stringify(after)) as Record<string, unknown>
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+}
+
+/**
+ * Writes audit log entries for changes made in the same transaction, so that
+ * they are rolled back together with the change. `operation` names the API
+ * operation that caused them, e.g. "participations.bulk-update-status".
+ */
+export async function recordAudit(tx: Tx, actor: AuditActor, operation: string, changes: AuditChange[]) {
+  if (changes.length === 0) return
+
+  await tx.auditLog.createMany({
+    data: changes.map((change) => ({
+      entity: change.entity,
+      entityId: change.entityId,
+      action: change.action,
+      operation,
+      actorId: actor?.id ?? null,
+      actorEmail: actor?.email ?? null,
+      before: toJson(change.before),
+      after: toJson(change.after),
+      changedFields: changedFields(change.before, change.after)
+    }))
+  })
+}
+
+export const AuditEntrySchema = z.object({
+  id: z.number().int().positive(),
+  entity: z.enum(AUDIT_ENTITIES),
+  entityId: z.number().int().positive(),
+  action: z.enum(AUDIT_ACTIONS),
+  operation: z.string(),
+  actor: z.object({
+    id: z.number().int().positive().nullable(),
+    email: z.string().nullable()
+  }).nullable().openapi({ description: 'Null for changes made without a signed-in user' }),
+  before: z.record(z.string(), z.any()).nullable(),
+  after: z.record(z.string(), z.any()).nullable(),
+  changedFields: z.array(z.string()),
+  createdAt: z.string().datetime()
+}).openapi('AuditEntry')
+
+export const EntityHistorySchema = z.object({
+  entity: z.enum(AUDIT_ENTITIES),
+  entityId: z.number().int().positive(),
+  data: z.array(AuditEntrySchema)
+}).openapi('EntityHistory')
+
+export function formatAuditEntry(entry: AuditLog) {
+  return {
+    id: entry.id,
+    entity: entry.entity,
+    entityId: entry.entityId,
+    action: entry.action,
+    operation: entry.operation,
+    // The email stays readable after the user account is deleted
+    actor: entry.actorId === null && entry.actorEmail === null ? null : { id: entry.actorId, email: entry.actorEmail },
+    before: entry.before as Record<string, unknown> | null,
+    after: entry.after as Record<string, unknown> | null,
+    changedFields: entry.changedFields,
+    createdAt: entry.createdAt.toISOString()
+  }
+}
+
+export function entityHistory(tx: Tx, entity: AuditEntity, entityId: number) {
+  return tx.auditLog.findMany({
+    where: { entity, entityId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  })
+}
@@ -0,0 +1,154 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+import { sign, verify } from 'hono/jwt'
+import { createMiddleware } from 'hono/factory'
+import type { UserRole } from '@prisma/client'
+import { prisma } from './prisma.js'
+import { ProblemSchema, problem } from './problem.js'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+export const USER_ROLES = ['admin', 'organizer', 'reviewer', 'scientist'] as const satisfies readonly UserRole[]
+
+const TOKEN_TTL_SECONDS = Number(process.env.SCONF_JWT_EXPIRES_IN) || 60 * 60 * 8
+
+export type AuthUser = {
+  id: number
+  email: string
+  role: UserRole
+  scientistId: number | null
+}
+
+export type AuthEnv = {
+  Variables: {
+    user: AuthUser
+  }
+}
+
+export type OptionalAuthEnv = {
+  Variables: {
+    user: AuthUser | undefined
+  }
+}
+
+function getSecret() {
+  const secret = process.env.SCONF_JWT_SECRET
+  if (!secret) {
+    throw new Error('SCONF_JWT_SECRET is not configured')
+  }
+  return secret
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const hash = await scryptAsync(password, salt, 64)
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$')
+  if (scheme !== 'scrypt' || !salt || !hash) return false
+
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length)
+  return timingSafeEqual(expected, actual)
+}
+
+export async function signToken(user: AuthUser) {
+  const now = Math.floor(Date.now() / 1000)
+  const token = await sign({
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    scientistId: user.scientistId,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS
+  }, getSecret(), 'HS256')
+
+  return { token, expiresIn: TOKEN_TTL_SECONDS }
+}
+
+/**
+ * The caller of a valid token as the database knows them now: a deleted user is
+ * rejected and a changed role or scientist applies at once, not when the token expires.
+ */
+async function readUser(authorization: string | undefined): Promise<AuthUser | null> {
+  if (!authorization?.startsWith('Bearer ')) return null
+
+  let payload: Awaited<ReturnType<typeof verify>>
+  try {
+    payload = await verify(authorization.slice('Bearer '.length), getSecret(), 'HS256')
+  } catch {
+    return null
+  }
+
+  const id = Number(payload.sub)
+  if (!Number.isInteger(id)) return null
+
+  return prisma.user.findUnique({
+    where: { id },
+    select: { id: true, email: true, role: true, scientistId: true }
+  })
+}
+
+export function requireRoles(...roles: UserRole[]) {
+  return createMiddleware<AuthEnv>(async (c, next) => {
+    const user = await readUser(c.req.header('Authorization'))
+
+    if (!user) {
+      return problem(c, 401, 'Authentication required')
+    }
+
+    if (!roles.includes(user.role)) {
+      return problem(c, 403, `This operation requires one of the roles: ${roles.join(', ')}`)
+    }
+
+    c.set('user', user)
+    await next()
+  })
+}
+
+// Resolves the caller when a token is present but lets anonymous requests through
+export const optionalAuth = createMiddleware<OptionalAuthEnv>(async (c, next) => {
+  c.set('user', (await readUser(c.req.header('Authorization'))) ?? undefined)
+  await next()
+})
+
+/**
+ * Route config fragment for protected routes: enforces the roles, documents them
+ * in OpenAPI and attaches the bearer security scheme.
+ */
+export function withRoles(...roles: UserRole[]) {
+  return {
+    security: [{ bearerAuth: [] }],
+    middleware: requireRoles(...roles),
+    'x-roles': roles
+  }
+}
+
+// Route config fragment for public routes that behave differently for signed-in callers
+export function withOptionalAuth() {
+  return {
+    security: [{}, { bearerAuth: [] }] as Array<Record<string, string[]>>,
+    middleware: optionalAuth
+  }
+}
+
+export const authResponses = {
+  401: {
+    content: {
+      'application/problem+json': {
+        schema: ProblemSchema
+      }
+    },
+    description: 'Missing or invalid bearer token'
+  },
+  403: {
+    content: {
+      'application/problem+json': {
+        schema: ProblemSchema
+      }
+    },
+    description: 'Authenticated user lacks the required role'
+  }
+}
@@ -0,0 +1,247 @@
+import type { ParticipationStatus } from '@prisma/client'
+import { conferenceWindow, dayKey, type Interval } from './schedule.js'
+
+// Right-hand side of every UID, so that events stay stable across exports and re-imports
+const UID_DOMAIN = process.env.SCONF_CALENDAR_UID_DOMAIN || 'sconfmanagement'
+
+const PRODUCT_ID = '-//Sconfmanagement//Conference API//EN'
+
+export type CalendarEvent = {
+  uid: string
+  summary: string
+  startsAt: Date
+  endsAt: Date
+  allDay?: boolean
+  description?: string
+  location?: string
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED'
+  sequence?: number
+}
+
+export function calendarUid(...parts: Array<string | number>) {
+  return `${parts.join('-')}@${UID_DOMAIN}`
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets are folded with CRLF followed by a space (RFC 5545 §3.1)
+function foldLine(line: string) {
+  const chunks: string[] = []
+  let current = ''
+  let size = 0
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char)
+    if (size + bytes > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += bytes
+  }
+  chunks.push(current)
+
+  return chunks.join('\r\n ')
+}
+
+function formatDateTime(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatDate(date: Date) {
+  return dayKey(date).replace(/-/g, '')
+}
+
+function eventLines(event: CalendarEvent, stamp: Date) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`
+  ]
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.startsAt)}`, `DTEND;VALUE=DATE:${formatDate(event.endsAt)}`)
+  } else {
+    lines.push(`DTSTART:${formatDateTime(event.startsAt)}`, `DTEND:${formatDateTime(event.endsAt)}`)
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.status) lines.push(`STATUS:${event.status}`)
+  if (event.sequence !== undefined) lines.push(`SEQUENCE:${event.sequence}`)
+  lines.push('END:VEVENT')
+
+  return lines
+}
+
+/**
+ * Renders a published iCalendar feed. Timed events are written in UTC so that
+ * calendar apps convert them to the viewer's zone; `timeZone` is only a display hint.
+ */
+export function renderCalendar(name: string, timeZone: string, events: CalendarEvent[]) {
+  const stamp = new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export function calendarHeaders(filename: string) {
+  return {
+    'Content-Type': 'text/calendar; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}"`
+  }
+}
+
+type CalendarConference = {
+  id: number
+  name: string
+  topic: string
+  date: Date
+  endDate: Date | null
+  country: string
+  location: string
+  timezone: string
+  updatedAt: Date
+}
+
+type CalendarTalk = {
+  id: number
+  talkTitle: string
+  participationType: string
+  status: ParticipationStatus
+  updatedAt: Date
+  scientist?: { fullName: string }
+  slot?: (Interval & { updatedAt: Date; session: { title: string; updatedAt: Date; room: { name: string } } }) | null
+}
+
+// Wall-clock time at the conference venue, for descriptions that calendar apps do not convert
+function timeOfDay(date: Date, timeZone: string) {
+  return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date)
+}
+
+/**
+ * SEQUENCE of an event: the latest change to any row it is built from, in seconds
+ * since the epoch. It grows with every reschedule, status change or edit, which
+ * lets calendar apps tell the newest version of a UID apart.
+ */
+export function revision(...dates: Date[]) {
+  return Math.floor(Math.max(...dates.map((date) => date.getTime())) / 1000)
+}
+
+function talkStatus(status: ParticipationStatus): CalendarEvent['status'] {
+  if (status === 'cancelled' || status === 'withdrawn') return 'CANCELLED'
+  if (status === 'pending' || status === 'waitlisted') return 'TENTATIVE'
+  return 'CONFIRMED'
+}
+
+export function conferenceEvent(conference: CalendarConference, uid = calendarUid('conference', conference.id)): CalendarEvent {
+  return {
+    uid,
+    summary: conference.name,
+    ...conferenceWindow(conference),
+    allDay: true,
+    description: `Topic: ${conference.topic}`,
+    location: `${conference.location}, ${conference.country}`,
+    status: 'CONFIRMED',
+    sequence: revision(conference.updatedAt)
+  }
+}
+
+export function sessionEvent(
+  conference: CalendarConference,
+  session: Interval & {
+    id: number
+    title: string
+    chair: string | null
+    updatedAt: Date
+    room: { name: string }
+    slots: Array<Interval & { updatedAt: Date; participation: CalendarTalk | null }>
+  }
+): CalendarEvent {
+  const lines = [`Times in ${conference.timezone}`]
+  if (session.chair) lines.push(`Chair: ${session.chair}`)
+  for (const slot of session.slots) {
+    if (!slot.participation) continue
+    const speaker = slot.participation.scientist ? ` – ${slot.participation.scientist.fullName}` : ''
+    const time = `${timeOfDay(slot.startsAt, conference.timezone)}–${timeOfDay(slot.endsAt, conference.timezone)}`
+    lines.push(`${time} ${slot.participation.talkTitle}${speaker}`)
+  }
+
+  return {
+    uid: calendarUid('session', session.id),
+    summary: `${session.title} (${conference.name})`,
+    startsAt: session.startsAt,
+    endsAt: session.endsAt,
+    description: lines.join('\n'),
+    location: `${session.room.name}, ${conference.location}`,
+    status: 'CONFIRMED',
+    // The description lists the talks, so moving or renaming one is a change too
+    sequence: revision(
+      conference.updatedAt,
+      session.updatedAt,
+      ...session.slots.flatMap((slot) => slot.participation ? [slot.updatedAt, slot.participation.updatedAt] : [slot.updatedAt])
+    )
+  }
+}
+
+/**
+ * A talk is a timed event once it has a time slot and an all-day event over the
+ * conference dates until then. Cancelled and withdrawn talks stay in the feed as
+ * cancellations so that calendar apps remove them.
+ */
+export function talkEvent(conference: CalendarConference, talk: CalendarTalk): CalendarEvent {
+  const base = {
+    uid: calendarUid('participation', talk.id),
+    status: talkStatus(talk.status),
+    sequence: talk.slot
+      ? revision(conference.updatedAt, talk.updatedAt, talk.slot.updatedAt, talk.slot.session.updatedAt)
+      : revision(conference.updatedAt, talk.updatedAt)
+  }
+
+  if (talk.slot) {
+    return {
+      ...base,
+      summary: talk.talkTitle,
+      startsAt: talk.slot.startsAt,
+      endsAt: talk.slot.endsAt,
+      description: `${talk.participationType} in session '${talk.slot.session.title}' at ${conference.name}`,
+      location: `${talk.slot.session.room.name}, ${conference.location}`
+    }
+  }
+
+  return {
+    ...base,
+    summary: `${talk.talkTitle} (not scheduled yet)`,
+    ...conferenceWindow(conference),
+    allDay: true,
+    description: `${talk.participationType} at ${conference.name}`,
+    location: `${conference.location}, ${conference.country}`
+  }
+}
@@ -0,0 +1,240 @@
+import { Prisma, type ParticipationStatus } from '@prisma/client'
+import { z } from '@hono/zod-openapi'
+
+type Tx = Prisma.TransactionClient
+
+// Participations whose scientist is counted as having met the other attendees
+export const ATTENDING_STATUSES: ParticipationStatus[] = ['confirmed', 'attended']
+
+export const GRAPH_FORMATS = ['json', 'graphml'] as const
+export type GraphFormat = (typeof GRAPH_FORMATS)[number]
+
+export const GRAPHML_CONTENT_TYPE = 'application/graphml+xml'
+
+export type AttendanceFilter = {
+  topic?: string
+  country?: string
+  year?: number
+}
+
+export const ScientistMetricsSchema = z.object({
+  conferencesPerYear: z.record(z.string(), z.number().int()).openapi({
+    description: 'Conferences attended per year of the conference date', example: { 2025: 2, 2026: 3 }
+  }),
+  talkCount: z.number().int().openapi({ description: 'Attended participations' }),
+  distinctCountries: z.number().int(),
+  countries: z.array(z.string()).openapi({ description: 'Countries of the attended conferences' })
+}).openapi('ScientistMetrics')
+
+export type ScientistMetrics = z.infer<typeof ScientistMetricsSchema>
+
+const EMPTY_METRICS: ScientistMetrics = { conferencesPerYear: {}, talkCount: 0, distinctCountries: 0, countries: [] }
+
+/**
+ * Live, attended participations of live scientists at live conferences, one row
+ * per participation, narrowed by the conference filters.
+ */
+function attendance(filter: AttendanceFilter) {
+  const conditions = [
+    Prisma.sql`p."deletedAt" IS NULL`,
+    Prisma.sql`c."deletedAt" IS NULL`,
+    Prisma.sql`s."deletedAt" IS NULL`,
+    Prisma.sql`p.status::text IN (${Prisma.join(ATTENDING_STATUSES)})`,
+    ...(filter.topic ? [Prisma.sql`strpos(lower(c.topic), lower(${filter.topic})) > 0`] : []),
+    ...(filter.country ? [Prisma.sql`lower(c.country) = lower(${filter.country})`] : []),
+    ...(filter.year !== undefined
+      ? [Prisma.sql`c.date >= ${new Date(Date.UTC(filter.year, 0, 1))} AND c.date < ${new Date(Date.UTC(filter.year + 1, 0, 1))}`]
+      : [])
+  ]
+
+  return Prisma.sql`
+    SELECT p.id, p."scientistId", p."conferenceId", c.country, c.date
+    FROM "Participation" p
+    JOIN "Conference" c ON c.id = p."conferenceId"
+    JOIN "Scientist" s ON s.id = p."scientistId"
+    WHERE ${Prisma.join(conditions, ' AND ')}
+  `
+}
+
+export type NetworkRow = {
+  id: number
+  fullName: string
+  country: string
+  organization: string
+  specialization: string
+  shared: number
+  conferenceIds: number[]
+}
+
+/**
+ * Scientists who attended at least minShared of the same conferences as the
+ * given scientist, most shared conferences first.
+ */
+export function scientistNetwork(
+  tx: Tx,
+  scientistId: number,
+  filter: AttendanceFilter,
+  options: { minShared: number; limit: number }
+) {
+  return tx.$queryRaw<NetworkRow[]>`
+    WITH att AS (SELECT DISTINCT "scientistId", "conferenceId" FROM (${attendance(filter)}) rows)
+    SELECT s.id, s."fullName", s.country, s.organization, s.specialization,
+           count(*)::int AS shared,
+           array_agg(other."conferenceId" ORDER BY other."conferenceId") AS "conferenceIds"
+    FROM att own
+    JOIN att other ON other."conferenceId" = own."conferenceId" AND other."scientistId" <> own."scientistId"
+    JOIN "Scientist" s ON s.id = other."scientistId"
+    WHERE own."scientistId" = ${scientistId}
+    GROUP BY s.id
+    HAVING count(*) >= ${options.minShared}
+    ORDER BY shared DESC, s.id
+    LIMIT ${options.limit}
+  `
+}
+
+export type GraphEdge = { source: number; target: number; weight: number; conferenceIds: number[] }
+
+/**
+ * Pairs of scientists who attended the same conferences, weighted by the number
+ * of conferences they shared. Each pair is returned once, with source < target.
+ * Returns at most maxEdges, heaviest first, and whether more were left out.
+ */
+export async function collaborationEdges(tx: Tx, filter: AttendanceFilter, options: { minWeight: number; maxEdges: number }) {
+  const rows = await tx.$queryRaw<GraphEdge[]>`
+    WITH att AS (SELECT DISTINCT "scientistId", "conferenceId" FROM (${attendance(filter)}) rows)
+    SELECT a."scientistId" AS source, b."scientistId" AS target,
+           count(*)::int AS weight,
+           array_agg(a."conferenceId" ORDER BY a."conferenceId") AS "conferenceIds"
+    FROM att a
+    JOIN att b ON b."conferenceId" = a."conferenceId" AND b."scientistId" > a."scientistId"
+    GROUP BY a."scientistId", b."scientistId"
+    HAVING count(*) >= ${options.minWeight}
+    ORDER BY weight DESC, source, target
+    LIMIT ${options.maxEdges + 1}
+  `
+
+  return { edges: rows.slice(0, options.maxEdges), truncated: rows.length > options.maxEdges }
+}
+
+/**
+ * Attendance metrics of the given scientists within the filters. Scientists
+ * without attended participations get zero metrics.
+ */
+export async function scientistMetrics(tx: Tx, ids: number[], filter: AttendanceFilter = {}) {
+  const metrics = new Map<number, ScientistMetrics>(ids.map((id) => [id, EMPTY_METRICS]))
+  if (ids.length === 0) return metrics
+
+  const rows = await tx.$queryRaw<Array<{ id: number; talkCount: number; countries: string[]; conferencesPerYear: Record<string, number> }>>`
+    WITH att AS (SELECT * FROM (${attendance(filter)}) rows WHERE "scientistId" IN (${Prisma.join(ids)})),
+    years AS (
+      SELECT "scientistId", jsonb_object_agg(year, conferences) AS "conferencesPerYear"
+      FROM (
+        SELECT "scientistId", to_char(date, 'YYYY') AS year, count(DISTINCT "conferenceId")::int AS conferences
+        FROM att
+        GROUP BY "scientistId", year
+      ) counted
+      GROUP BY "scientistId"
+    )
+    SELECT att."scientistId" AS id,
+           count(*)::int AS "talkCount",
+           array_agg(DISTINCT att.country ORDER BY att.country) AS countries,
+           years."conferencesPerYear"
+    FROM att
+    JOIN years USING ("scientistId")
+    GROUP BY att."scientistId", years."conferencesPerYear"
+  `
+
+  for (const row of rows) {
+    metrics.set(row.id, {
+      conferencesPerYear: row.conferencesPerYear,
+      talkCount: row.talkCount,
+      distinctCountries: row.countries.length,
+      countries: row.countries
+    })
+  }
+
+  return metrics
+}
+
+export type GraphNode = {
+  id: number
+  fullName: string
+  country: string
+  organization: string
+  specialization: string
+  metrics: ScientistMetrics
+}
+
+/**
+ * JSON Graph Format (v2) document: nodes keyed by scientist ID, undirected
+ * edges with the weight and shared conferences in their metadata.
+ */
+export function toJsonGraph(nodes: GraphNode[], edges: GraphEdge[], metadata: Record<string, unknown>) {
+  return {
+    graph: {
+      id: 'collaboration',
+      type: 'co-attendance',
+      label: 'Scientists who attended the same conferences',
+      directed: false,
+      metadata,
+      nodes: Object.fromEntries(nodes.map((node) => [String(node.id), {
+        label: node.fullName,
+        metadata: {
+          country: node.country,
+          organization: node.organization,
+          specialization: node.specialization,
+          ...node.metrics
+        }
+      }])),
+      edges: edges.map((edge) => ({
+        source: String(edge.source),
+        target: String(edge.target),
+        relation: 'co-attended',
+        metadata: { weight: edge.weight, conferenceIds: edge.conferenceIds }
+      }))
+    }
+  }
+}
+
+function xml(value: unknown) {
+  return String(value).replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+const GRAPHML_KEYS: Array<[id: string, target: 'node' | 'edge', type: 'string' | 'int']> = [
+  ['label', 'node', 'string'],
+  ['country', 'node', 'string'],
+  ['organization', 'node', 'string'],
+  ['specialization', 'node', 'string'],
+  ['talkCount', 'node', 'int'],
+  ['distinctCountries', 'node', 'int'],
+  ['conferencesPerYear', 'node', 'string'],
+  ['weight', 'edge', 'int'],
+  ['conferenceIds', 'edge', 'string']
+]
+
+// GraphML for Gephi, Cytoscape and yEd; lists and maps are written as JSON strings
+export function toGraphML(nodes: GraphNode[], edges: GraphEdge[]) {
+  const data = (key: string, value: unknown) => `<data key="${key}">${xml(value)}</data>`
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+      ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...GRAPHML_KEYS.map(([id, target, type]) => `  <key id="${id}" for="${target}" attr.name="${id}" attr.type="${type}"/>`),
+    '  <graph id="collaboration" edgedefault="undirected">',
+    ...nodes.map((node) => `    <node id="s${node.id}">` + [
+      data('label', node.fullName),
+      data('country', node.country),
+      data('organization', node.organization),
+      data('specialization', node.specialization),
+      data('talkCount', node.metrics.talkCount),
+      data('distinctCountries', node.metrics.distinctCountries),
+      data('conferencesPerYear', JSON.stringify(node.metrics.conferencesPerYear))
+    ].join('') + '</node>'),
+    ...edges.map((edge, index) => `    <edge id="e${index}" source="s${edge.source}" target="s${edge.target}">` +
+      data('weight', edge.weight) + data('conferenceIds', JSON.stringify(edge.conferenceIds)) + '</edge>'),
+    '  </graph>',
+    '</graphml>'
+  ]
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,123 @@
+import { Prisma } from '@prisma/client'
+import { NON_SEAT_STATUSES } from './waitlist.js'
+
+type Tx = Prisma.TransactionClient
+
+export const STATS_GROUPS = ['country', 'topic', 'year', 'month', 'participationType'] as const
+export type StatsGroup = (typeof STATS_GROUPS)[number]
+
+// Fixed SQL per grouping, so that no request input reaches the query text.
+// Conference dates are stored in UTC, which is what years and months refer to.
+const GROUP_KEYS: Record<StatsGroup, Prisma.Sql> = {
+  country: Prisma.sql`conf.country`,
+  topic: Prisma.sql`conf.topic`,
+  year: Prisma.sql`to_char(conf.date, 'YYYY')`,
+  month: Prisma.sql`to_char(conf.date, 'YYYY-MM')`,
+  participationType: Prisma.sql`p."participationType"`
+}
+
+export type ConferenceStatsOptions = {
+  groupBy: StatsGroup
+  from?: Date
+  to?: Date
+  topic?: string
+}
+
+type StatsRow = {
+  group: string
+  conferences: number
+  participations: number
+  avgCapacity: number | null
+  avgDuration: number | null
+  seats: number
+  limitedCapacity: number | null
+  statuses: Record<string, number> | null
+  topics: Record<string, number> | null
+}
+
+/**
+ * Aggregates live conferences and their live participations per group in a
+ * single query. Capacity utilization counts seat-holding participations against
+ * the capacity of conferences that have one; unlimited conferences (capacity 0)
+ * are left out of it. Grouped by participationType, a conference belongs to every
+ * type it has participations of.
+ */
+export async function conferenceStats(tx: Tx, options: ConferenceStatsOptions) {
+  const conditions = [
+    Prisma.sql`c."deletedAt" IS NULL`,
+    ...(options.from ? [Prisma.sql`c.date >= ${options.from}`] : []),
+    ...(options.to ? [Prisma.sql`c.date < ${options.to}`] : []),
+    ...(options.topic ? [Prisma.sql`strpos(lower(c.topic), lower(${options.topic})) > 0`] : [])
+  ]
+  const nonSeat = Prisma.join(NON_SEAT_STATUSES.map((status) => Prisma.sql`${status}`))
+
+  const rows = await tx.$queryRaw<StatsRow[]>`
+    WITH conf AS (
+      SELECT c.id, c.country, c.topic, c.date, c.capacity
+      FROM "Conference" c
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    ),
+    pair AS (
+      SELECT ${GROUP_KEYS[options.groupBy]} AS "group",
+             conf.id AS "conferenceId", conf.topic, conf.capacity,
+             p.id AS "participationId", p.status::text AS status, p."durationMinutes"
+      FROM conf
+      LEFT JOIN "Participation" p ON p."conferenceId" = conf.id AND p."deletedAt" IS NULL
+    ),
+    totals AS (
+      SELECT "group",
+             count(DISTINCT "conferenceId")::int AS conferences,
+             count("participationId")::int AS participations,
+             avg("durationMinutes")::float8 AS "avgDuration",
+             (count("participationId") FILTER (WHERE capacity > 0 AND status NOT IN (${nonSeat})))::int AS seats
+      FROM pair
+      WHERE "group" IS NOT NULL
+      GROUP BY "group"
+    ),
+    capacities AS (
+      SELECT "group",
+             avg(capacity)::float8 AS "avgCapacity",
+             (sum(capacity) FILTER (WHERE capacity > 0))::int AS "limitedCapacity"
+      FROM (SELECT DISTINCT "group", "conferenceId", capacity FROM pair WHERE "group" IS NOT NULL) grouped
+      GROUP BY "group"
+    ),
+    statuses AS (
+      SELECT "group", jsonb_object_agg(status, total) AS statuses
+      FROM (
+        SELECT "group", status, count(*)::int AS total
+        FROM pair
+        WHERE "group" IS NOT NULL AND "participationId" IS NOT NULL
+        GROUP BY "group", status
+      ) counted
+      GROUP BY "group"
+    ),
+    topics AS (
+      SELECT "group", jsonb_object_agg(topic, total) AS topics
+      FROM (
+        SELECT "group", topic, count(DISTINCT "conferenceId")::int AS total
+        FROM pair
+        WHERE "group" IS NOT NULL
+        GROUP BY "group", topic
+      ) counted
+      GROUP BY "group"
+    )
+    SELECT totals."group", totals.conferences, totals.participations, totals."avgDuration", totals.seats,
+           capacities."avgCapacity", capacities."limitedCapacity", statuses.statuses, topics.topics
+    FROM totals
+    JOIN capacities USING ("group")
+    LEFT JOIN statuses USING ("group")
+    LEFT JOIN topics USING ("group")
+    ORDER BY totals."group"
+  `
+
+  return rows.map((row) => ({
+    group: row.group,
+    totalConferences: row.conferences,
+    totalParticipations: row.participations,
+    avgCapacity: Math.round(row.avgCapacity ?? 0),
+    avgDurationMinutes: row.avgDuration === null ? null : Math.round(row.avgDuration * 10) / 10,
+    capacityUtilization: row.limitedCapacity ? Math.round((row.seats / row.limitedCapacity) * 1000) / 1000 : null,
+    statusBreakdown: row.statuses ?? {},
+    topicDistribution: row.topics ?? {}
+  }))
+}
@@ -0,0 +1,186 @@
+import type { Participation, Prisma } from '@prisma/client'
+import { z } from '@hono/zod-openapi'
+import { deleteChange, recordAudit, restoreChange, type AuditActor, type AuditChange } from './audit.js'
+import { assertTransition, canTransition, recordStatusChanges } from './participation-status.js'
+import { unscheduleParticipations } from './schedule.js'
+import { deletedWhere } from './soft-delete.js'
+import { ProblemError, ProblemSchema } from './problem.js'
+import { fillOpenSeats, lockConference, resolveSeatStatus, WAITLISTED } from './waitlist.js'
+
+type Tx = Prisma.TransactionClient
+
+export const DeleteQuerySchema = z.object({
+  cascade: z.enum(['true', 'false']).optional().openapi({
+    description: 'Also delete the participations that depend on the record. Without it, dependents make the request fail with 409'
+  }),
+  preview: z.enum(['true', 'false']).optional().openapi({
+    description: 'Only list what would be deleted; nothing is changed'
+  })
+})
+
+export const DependentParticipationSchema = z.object({
+  id: z.number().int().positive(),
+  talkTitle: z.string(),
+  status: z.string(),
+  scientist: z.object({ id: z.number().int().positive(), fullName: z.string() }),
+  conference: z.object({ id: z.number().int().positive(), name: z.string(), date: z.string().datetime() })
+}).openapi('DependentParticipation')
+
+export const DeletePreviewSchema = z.object({
+  entity: z.enum(['scientist', 'conference']),
+  id: z.number().int().positive(),
+  participations: z.array(DependentParticipationSchema).openapi({
+    description: 'Participations that are deleted with the record when cascade=true'
+  })
+}).openapi('DeletePreview')
+
+export const DependentsErrorSchema = ProblemSchema.extend({
+  participations: z.array(DependentParticipationSchema)
+}).openapi('DependentsError')
+
+export const DeleteResultSchema = z.object({
+  message: z.string(),
+  deletedAt: z.string().datetime(),
+  participationIds: z.array(z.number().int().positive()).openapi({
+    description: 'Participations deleted with the record'
+  })
+}).openapi('DeleteResult')
+
+export const RestoreResultSchema = z.object({
+  message: z.string(),
+  participationIds: z.array(z.number().int().positive()).openapi({
+    description: 'Participations restored with the record'
+  }),
+  waitlistedIds: z.array(z.number().int().positive()).openapi({
+    description: 'Restored participations whose seat was taken in the meantime; they were put on the waitlist'
+  }),
+  skipped: z.array(z.object({
+    participationId: z.number().int().positive(),
+    reason: z.string()
+  }))
+}).openapi('RestoreResult')
+
+const DEPENDENT_INCLUDE = {
+  scientist: { select: { id: true, fullName: true } },
+  conference: { select: { id: true, name: true, date: true } }
+} satisfies Prisma.ParticipationInclude
+
+type DependentParticipation = Prisma.ParticipationGetPayload<{ include: typeof DEPENDENT_INCLUDE }>
+
+export function findDependentParticipations(tx: Tx, where: Prisma.ParticipationWhereInput) {
+  return tx.participation.findMany({
+    where,
+    include: DEPENDENT_INCLUDE,
+    orderBy: { id: 'asc' }
+  })
+}
+
+export function formatDependent(participation: DependentParticipation) {
+  return {
+    id: participation.id,
+    talkTitle: participation.talkTitle,
+    status: participation.status,
+    scientist: participation.scientist,
+    conference: { ...participation.conference, date: participation.conference.date.toISOString() }
+  }
+}
+
+/**
+ * Soft-deletes participations with the timestamp of the record they depend on,
+ * so that restoring that record brings back exactly these. With releaseSeats the
+ * participations also leave the program and their seats go to the waitlist;
+ * that is skipped when the whole conference is deleted and restored together.
+ */
+export async function softDeleteParticipations(
+  tx: Tx,
+  participations: Participation[],
+  deletedAt: Date,
+  actor: AuditActor,
+  operation: string,
+  options: { releaseSeats: boolean }
+) {
+  if (participations.length === 0) return []
+
+  const ids = participations.map((participation) => participation.id)
+  await tx.participation.updateMany({
+    where: { id: { in: ids } },
+    data: { deletedAt }
+  })
+
+  const deleted = new Map((await tx.participation.findMany({ where: { id: { in: ids }, ...deletedWhere('only') } }))
+    .map((participation) => [participation.id, participation]))
+  await recordAudit(tx, actor, operation, participations.map((participation) =>
+    deleteChange('participation', participation, deleted.get(participation.id) ?? null)))
+
+  if (options.releaseSeats) {
+    await unscheduleParticipations(tx, ids)
+    for (const conferenceId of [...new Set(participations.map((participation) => participation.conferenceId))]) {
+      await fillOpenSeats(tx, conferenceId, actor, operation)
+    }
+  }
+
+  return ids
+}
+
+/**
+ * Restores soft-deleted participations. A participation stays deleted while its
+ * scientist or conference is deleted. Seats are taken anew, so participations
+ * whose seat went to someone else in the meantime are put on the waitlist, as
+ * far as their status allows; attended and no-show participations keep theirs.
+ * Restored participations are not put back into the program.
+ */
+export async function restoreParticipations(tx: Tx, where: Prisma.ParticipationWhereInput, actor: AuditActor, operation: string) {
+  const participations = await tx.participation.findMany({
+    // A deletedAt given by the caller narrows this to records deleted together
+    where: { ...deletedWhere('only'), ...where },
+    include: {
+      scientist: { select: { deletedAt: true } },
+      conference: { select: { deletedAt: true } }
+    },
+    orderBy: [{ conferenceId: 'asc' }, { id: 'asc' }]
+  })
+
+  const restored: number[] = []
+  const waitlisted: number[] = []
+  const skipped: Array<{ participationId: number; reason: string }> = []
+  const changes: AuditChange[] = []
+
+  for (const { scientist, conference: parent, ...participation } of participations) {
+    if (scientist.deletedAt) {
+      skipped.push({ participationId: participation.id, reason: `Scientist ${participation.scientistId} is deleted` })
+      continue
+    }
+    if (parent.deletedAt) {
+      skipped.push({ participationId: participation.id, reason: `Conference ${participation.conferenceId} is deleted` })
+      continue
+    }
+
+    const conference = await lockConference(tx, participation.conferenceId)
+    if (!conference) throw new ProblemError(404, 'Conference not found')
+
+    // Finished participations keep their status; only those that may still be waitlisted need a seat again
+    const seat = canTransition(participation.status, WAITLISTED)
+      ? await resolveSeatStatus(tx, conference, participation.status)
+      : { status: participation.status, waitlistedAt: participation.waitlistedAt }
+    assertTransition(participation.status, seat.status)
+
+    const after = await tx.participation.update({
+      where: { id: participation.id, ...deletedWhere('only') },
+      data: {
+        deletedAt: null,
+        ...(seat.status !== participation.status && { status: seat.status, waitlistedAt: seat.waitlistedAt })
+      }
+    })
+
+    if (seat.status !== participation.status) {
+      await recordStatusChanges(tx, [participation.id], participation.status, WAITLISTED, 'Restored; conference is at capacity')
+      waitlisted.push(participation.id)
+    }
+    restored.push(participation.id)
+    changes.push(restoreChange('participation', participation, after))
+  }
+
+  await recordAudit(tx, actor, operation, changes)
+
+  return { restored, waitlisted, skipped }
+}
@@ -0,0 +1,167 @@
+import type { ParticipationStatus, Prisma } from '@prisma/client'
+import { conferenceWindow, overlaps, type Interval } from './schedule.js'
+
+type Tx = Prisma.TransactionClient
+
+export type DoubleBookingMode = 'warn' | 'strict'
+
+// In strict mode a participation that overlaps another one of the same scientist is rejected
+export const DOUBLE_BOOKING_MODE: DoubleBookingMode =
+  process.env.SCONF_DOUBLE_BOOKING_MODE === 'strict' ? 'strict' : 'warn'
+
+// Participations in these statuses no longer claim the scientist's time
+const INACTIVE_STATUSES: ParticipationStatus[] = ['cancelled', 'withdrawn']
+
+type ConferenceDates = { id: number; name: string; date: Date; endDate: Date | null }
+
+export type DateConflict = {
+  participationId: number
+  talkTitle: string
+  status: ParticipationStatus
+  conference: ConferenceDates
+  overlap: Interval
+}
+
+export class DoubleBookingError extends Error {
+  constructor(readonly conflicts: DateConflict[]) {
+    super(`Scientist is already registered at ${conflicts.map((c) => `'${c.conference.name}'`).join(', ')} on overlapping dates`)
+    this.name = 'DoubleBookingError'
+  }
+}
+
+export function isActive(status: ParticipationStatus) {
+  return !INACTIVE_STATUSES.includes(status)
+}
+
+function overlapOf(a: Interval, b: Interval): Interval {
+  return {
+    startsAt: a.startsAt > b.startsAt ? a.startsAt : b.startsAt,
+    endsAt: a.endsAt < b.endsAt ? a.endsAt : b.endsAt
+  }
+}
+
+/**
+ * Finds the scientist's other active participations whose conference days overlap
+ * the given conference. Registrations for the same conference are not conflicts.
+ */
+export async function findDateConflicts(
+  tx: Tx,
+  scientistId: number,
+  conference: ConferenceDates,
+  excludeParticipationId?: number
+) {
+  const window = conferenceWindow(conference)
+
+  const others = await tx.participation.findMany({
+    where: {
+      scientistId,
+      status: { notIn: INACTIVE_STATUSES },
+      conferenceId: { not: conference.id },
+      conference: { date: { lt: window.endsAt } },
+      ...(excludeParticipationId && { id: { not: excludeParticipationId } })
+    },
+    include: {
+      conference: { select: { id: true, name: true, date: true, endDate: true } }
+    },
+    orderBy: { id: 'asc' }
+  })
+
+  const conflicts: DateConflict[] = []
+  for (const other of others) {
+    const otherWindow = conferenceWindow(other.conference)
+    if (!overlaps(window, otherWindow)) continue
+
+    conflicts.push({
+      participationId: other.id,
+      talkTitle: other.talkTitle,
+      status: other.status,
+      conference: other.conference,
+      overlap: overlapOf(window, otherWindow)
+    })
+  }
+
+  return conflicts
+}
+
+/**
+ * Returns the conflicts to report with a create or update. When strict mode is
+ * configured and `enforce` is set, throws instead; the scientist row is then
+ * locked for the rest of the transaction, so two registrations cannot both pass.
+ */
+export async function checkDoubleBooking(
+  tx: Tx,
+  participation: { id?: number; scientistId: number; conferenceId: number; status: ParticipationStatus },
+  enforce = true
+) {
+  if (!isActive(participation.status)) return []
+
+  const strict = enforce && DOUBLE_BOOKING_MODE === 'strict'
+  if (strict) {
+    // Concurrent registrations of the scientist wait here, then see each other's rows
+    await tx.$queryRaw`SELECT id FROM "Scientist" WHERE id = ${participation.scientistId} FOR UPDATE`
+  }
+
+  const conference = await tx.conference.findUnique({
+    where: { id: participation.conferenceId },
+    select: { id: true, name: true, date: true, endDate: true }
+  })
+  if (!conference) return []
+
+  const conflicts = await findDateConflicts(tx, participation.scientistId, conference, participation.id)
+
+  if (conflicts.length > 0 && strict) {
+    throw new DoubleBookingError(conflicts)
+  }
+
+  return conflicts
+}
+
+/**
+ * Lists every pair of the scientist's active participations whose conferences
+ * take place on overlapping dates.
+ */
+export async function findScientistConflicts(tx: Tx, scientistId: number) {
+  const participations = await tx.participation.findMany({
+    where: { scientistId, status: { notIn: INACTIVE_STATUSES } },
+    include: {
+      conference: { select: { id: true, name: true, date: true, endDate: true } }
+    },
+    orderBy: [{ conference: { date: 'asc' } }, { id: 'asc' }]
+  })
+
+  const windows = participations.map((p) => conferenceWindow(p.conference))
+  const pairs: Array<{ participation: DateConflict; conflictsWith: DateConflict }> = []
+
+  for (let i = 0; i < participations.length; i++) {
+    for (let j = i + 1; j < participations.length; j++) {
+      const [a, b] = [participations[i], participations[j]]
+      if (a.conferenceId === b.conferenceId || !overlaps(windows[i], windows[j])) continue
+
+      const overlap = overlapOf(windows[i], windows[j])
+      pairs.push({
+        participation: { participationId: a.id, talkTitle: a.talkTitle, status: a.status, conference: a.conference, overlap },
+        conflictsWith: { participationId: b.id, talkTitle: b.talkTitle, status: b.status, conference: b.conference, overlap }
+      })
+    }
+  }
+
+  return pairs
+}
+
+export function formatConflict(conflict: DateConflict) {
+  return {
+    participationId: conflict.participationId,
+    talkTitle: conflict.talkTitle,
+    status: conflict.status,
+    conference: {
+      id: conflict.conference.id,
+      name: conflict.conference.name,
+      date: conflict.conference.date.toISOString(),
+      endDate: conflict.conference.endDate ? conflict.conference.endDate.toISOString() : null
+    },
+    overlap: {
+      startsAt: conflict.overlap.startsAt.toISOString(),
+      endsAt: conflict.overlap.endsAt.toISOString()
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import type { Prisma } from '@prisma/client'
+
+type Tx = Prisma.TransactionClient
+
+// Weighted pg_trgm similarity of name and organization from which two scientists are reported as likely the same person
+const DUPLICATE_THRESHOLD = 0.55
+
+export type DuplicateCandidate = {
+  id: number
+  fullName: string
+  organization: string
+  email: string | null
+  orcid: string | null
+  similarity: number
+  reason: 'email' | 'orcid' | 'name'
+  deleted: boolean
+}
+
+/**
+ * Finds existing scientists that are likely the same person: an identical email
+ * or ORCID iD, or a similar fullName (pg_trgm) weighted with the organization.
+ * Soft-deleted scientists still hold their email and ORCID iD, so they are
+ * matched on those but not on the name. ORCID iDs the orcid migration took off
+ * likely duplicates are matched too.
+ */
+export async function findDuplicateScientists(
+  tx: Tx,
+  scientist: { fullName: string; organization: string; email?: string | null; orcid?: string | null },
+  excludeId?: number
+) {
+  const rows = await tx.$queryRaw<Array<{
+    id: number
+    fullName: string
+    organization: string
+    email: string | null
+    orcid: string | null
+    formerOrcid: string | null
+    deletedAt: Date | null
+    nameScore: number
+    organizationScore: number
+  }>>`
+    SELECT s.id, s."fullName", s.organization, s.email, s.orcid, c.orcid AS "formerOrcid", s."deletedAt",
+           similarity(s."fullName", ${scientist.fullName}) AS "nameScore",
+           similarity(s.organization, ${scientist.organization}) AS "organizationScore"
+    FROM "Scientist" s
+    LEFT JOIN "ScientistOrcidConflict" c ON c."scientistId" = s.id
+    WHERE s.id <> ${excludeId ?? 0}
+      AND ((s."fullName" % ${scientist.fullName} AND s."deletedAt" IS NULL)
+        OR lower(s.email) = lower(${scientist.email ?? null}::text)
+        OR s.orcid = ${scientist.orcid ?? null}::text
+        OR c.orcid = ${scientist.orcid ?? null}::text)
+    ORDER BY similarity(s."fullName", ${scientist.fullName}) DESC, s.id
+    LIMIT 20
+  `
+
+  const candidates: DuplicateCandidate[] = []
+  for (const row of rows) {
+    const similarity = Math.round(((2 * row.nameScore + row.organizationScore) / 3) * 100) / 100
+    const reason = scientist.email && row.email?.toLowerCase() === scientist.email.toLowerCase()
+      ? 'email'
+      : scientist.orcid && (row.orcid === scientist.orcid || row.formerOrcid === scientist.orcid) ? 'orcid' : 'name'
+
+    if (reason === 'name' && similarity < DUPLICATE_THRESHOLD) continue
+
+    candidates.push({
+      id: row.id,
+      fullName: row.fullName,
+      organization: row.organization,
+      email: row.email,
+      orcid: row.orcid,
+      similarity,
+      reason,
+      deleted: row.deletedAt !== null
+    })
+  }
+
+  // Identical emails and ORCID iDs first: they block the insert regardless of similarity
+  candidates.sort((a, b) => Number(a.reason === 'name') - Number(b.reason === 'name') || b.similarity - a.similarity)
+
+  return candidates.slice(0, 5)
+}
@@ -0,0 +1,7 @@
+import { createRequire } from 'node:module'
+import type ExcelJSModule from 'exceljs'
+
+// Loaded through require because the package also ships an index.ts that tsx would resolve instead of the CommonJS build
+export const ExcelJS: typeof ExcelJSModule = createRequire(import.meta.url)('exceljs')
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
@@ -0,0 +1,144 @@
+import { PassThrough, Readable } from 'node:stream'
+import type { Context } from 'hono'
+import { z } from '@hono/zod-openapi'
+import { ExcelJS, XLSX_CONTENT_TYPE } from './excel.js'
+import { listPage, type ListPage, type SortFields } from './pagination.js'
+
+export const EXPORT_FORMATS = ['json', 'csv', 'xlsx', 'ndjson'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+const EXPORT_BATCH_SIZE = 500
+
+const CONTENT_TYPES: Record<Exclude<ExportFormat, 'json'>, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: XLSX_CONTENT_TYPE,
+  ndjson: 'application/x-ndjson'
+}
+
+export const ExportFormatQuerySchema = z.enum(EXPORT_FORMATS).optional().openapi({
+  description: 'json returns one page; csv, xlsx and ndjson stream every matching row and ignore page, limit and cursors. ' +
+    'The Accept header is used when format is omitted'
+})
+
+// Extra 200 response bodies of list routes that can be exported
+export const exportContent = {
+  'text/csv': { schema: z.string() },
+  [XLSX_CONTENT_TYPE]: { schema: z.string().openapi({ format: 'binary' }) },
+  'application/x-ndjson': { schema: z.string() }
+}
+
+export type ExportColumn<T> = [header: string, value: (row: T) => unknown]
+
+/**
+ * Picks the export format from the `format` query parameter, falling back to the
+ * Accept header so that clients can negotiate CSV, XLSX or NDJSON.
+ */
+export function resolveExportFormat(format: ExportFormat | undefined, accept: string | undefined): ExportFormat {
+  if (format) return format
+  if (!accept) return 'json'
+
+  for (const type of accept.split(',').map((part) => part.split(';')[0].trim())) {
+    if (type === 'text/csv') return 'csv'
+    if (type === XLSX_CONTENT_TYPE) return 'xlsx'
+    if (type === 'application/x-ndjson') return 'ndjson'
+    if (type === 'application/json' || type === '*/*') return 'json'
+  }
+
+  return 'json'
+}
+
+/**
+ * Walks a list in batches along the keyset its cursors use, so that exports never
+ * hold more than one batch in memory and yield exactly the rows the list pages
+ * through, rows with nulls in the sort column included. The query applies the
+ * batch's where, orderBy and take like a list route does.
+ */
+export async function* paginate<F extends SortFields, T extends { id: number }>(
+  fields: F,
+  sort: { sortBy: keyof F & string; sortOrder: 'asc' | 'desc' },
+  query: (batch: ListPage<F>) => Promise<T[]>
+) {
+  let after: string | undefined
+
+  do {
+    const batch = listPage(fields, { page: 1, limit: EXPORT_BATCH_SIZE, ...sort, after, count: 'false' })
+    const { data, pagination } = batch.result(await query(batch), null)
+    for (const row of data) yield row
+    after = pagination.nextCursor ?? undefined
+  } while (after)
+}
+
+function cellValue(value: unknown) {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return value as string | number | boolean
+}
+
+function csvField(value: unknown) {
+  const text = String(cellValue(value))
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function* csvLines<T>(rows: AsyncIterable<T>, columns: Array<ExportColumn<T>>) {
+  // The BOM makes Excel open UTF-8 files with the right encoding
+  yield '\uFEFF' + columns.map(([header]) => csvField(header)).join(',') + '\r\n'
+  for await (const row of rows) {
+    yield columns.map(([, value]) => csvField(value(row))).join(',') + '\r\n'
+  }
+}
+
+async function* ndjsonLines<T>(rows: AsyncIterable<T>, toJson: (row: T) => unknown) {
+  for await (const row of rows) {
+    yield JSON.stringify(toJson(row)) + '\n'
+  }
+}
+
+function xlsxStream<T>(rows: AsyncIterable<T>, columns: Array<ExportColumn<T>>, sheetName: string) {
+  const output = new PassThrough()
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useSharedStrings: false, useStyles: false })
+  const sheet = workbook.addWorksheet(sheetName)
+
+  const write = async () => {
+    sheet.addRow(columns.map(([header]) => header)).commit()
+    for await (const row of rows) {
+      // Dates stay dates so that spreadsheets can sort and filter them
+      sheet.addRow(columns.map(([, value]) => {
+        const cell = value(row)
+        return cell instanceof Date ? cell : cellValue(cell)
+      })).commit()
+    }
+    sheet.commit()
+    await workbook.commit()
+  }
+
+  write().catch((error) => output.destroy(error))
+  return output
+}
+
+/**
+ * Streams a filtered list as CSV, XLSX or NDJSON. CSV and XLSX use the given
+ * columns; NDJSON writes the same objects as the JSON list response.
+ */
+export function exportResponse<T>(
+  c: Context,
+  format: Exclude<ExportFormat, 'json'>,
+  options: {
+    filename: string
+    rows: AsyncIterable<T>
+    columns: Array<ExportColumn<T>>
+    toJson: (row: T) => unknown
+  }
+) {
+  const source = format === 'xlsx'
+    ? xlsxStream(options.rows, options.columns, options.filename)
+    : Readable.from(
+      format === 'csv' ? csvLines(options.rows, options.columns) : ndjsonLines(options.rows, options.toJson),
+      { objectMode: false }
+    )
+
+  return c.body(Readable.toWeb(source) as ReadableStream, 200, {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${options.filename}-${new Date().toISOString().slice(0, 10)}.${format}"`
+  })
+}
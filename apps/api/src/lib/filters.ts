@@ -0,0 +1,158 @@
+import { z } from '@hono/zod-openapi'
+import { PROBLEM_TYPES, ProblemError, type FieldError } from './problem.js'
+
+export type FilterType = 'string' | 'number' | 'date' | 'enum'
+
+export type FilterField = {
+  type: FilterType
+  // Allowed values of enum fields
+  values?: readonly string[]
+  nullable?: boolean
+  // Puts the condition in place for fields of related records; defaults to { [name]: condition }
+  where?: (condition: unknown) => object
+}
+
+export type FilterFields = Record<string, FilterField>
+
+const OPERATORS: Record<FilterType, readonly string[]> = {
+  string: ['eq', 'ne', 'in', 'nin', 'contains', 'startsWith', 'endsWith'],
+  number: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'between'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'between'],
+  enum: ['eq', 'ne', 'in', 'nin']
+}
+
+const MAX_LIST_VALUES = 100
+
+const FILTER_KEY = /^filter\[([^\]]+)\](?:\[([^\]]+)\])?$/
+
+/**
+ * Documents the filter[field][operator]=value parameters of a list route. The
+ * parameters are read from the raw query string by parseFilters, since their
+ * names are not known to the query schema.
+ */
+export function filterQuery(fields: FilterFields) {
+  const list = Object.entries(fields)
+    .map(([name, field]) => `${name} (${field.type === 'enum' ? field.values!.join('|') : field.type})`)
+    .join(', ')
+
+  return z.record(z.string(), z.string()).optional().openapi({
+    param: { style: 'deepObject', explode: true },
+    description: 'Filters as filter[field][operator]=value, all of which must match, e.g. ' +
+      'filter[hIndex][gte]=10&filter[country][in]=DE,FR. filter[field]=value is short for eq. ' +
+      'Operators: eq, ne, gt, gte, lt, lte, in and nin (comma-separated values), between (two comma-separated values, ' +
+      'inclusive), contains, startsWith and endsWith (case-insensitive, strings only), isNull (true or false, nullable fields only). ' +
+      `Fields: ${list}`
+  })
+}
+
+function parseValue(field: FilterField, raw: string): { value: unknown } | { error: string } {
+  switch (field.type) {
+    case 'number': {
+      const value = Number(raw)
+      return raw.trim() !== '' && Number.isFinite(value) ? { value } : { error: `'${raw}' is not a number` }
+    }
+    case 'date': {
+      const value = new Date(raw)
+      return Number.isNaN(value.getTime()) ? { error: `'${raw}' is not a date` } : { value }
+    }
+    case 'enum':
+      return field.values!.includes(raw) ? { value: raw } : { error: `'${raw}' is not one of ${field.values!.join(', ')}` }
+    default:
+      return { value: raw }
+  }
+}
+
+function parseList(field: FilterField, raw: string) {
+  const items = raw.split(',').map((item) => item.trim())
+  if (items.length > MAX_LIST_VALUES) return { error: `At most ${MAX_LIST_VALUES} values are allowed` }
+
+  const values: unknown[] = []
+  for (const item of items) {
+    const parsed = parseValue(field, item)
+    if ('error' in parsed) return parsed
+    values.push(parsed.value)
+  }
+  return { values }
+}
+
+function condition(field: FilterField, operator: string, raw: string): { condition: unknown } | { error: string } {
+  if (operator === 'isNull') {
+    if (!field.nullable) return { error: 'isNull is only allowed on nullable fields' }
+    if (raw !== 'true' && raw !== 'false') return { error: 'isNull takes true or false' }
+    return { condition: raw === 'true' ? null : { not: null } }
+  }
+
+  if (!OPERATORS[field.type].includes(operator)) {
+    return { error: `Operator ${operator} is not allowed on ${field.type} fields; use ${OPERATORS[field.type].join(', ')}` }
+  }
+
+  if (operator === 'in' || operator === 'nin' || operator === 'between') {
+    const parsed = parseList(field, raw)
+    if ('error' in parsed) return parsed
+    const { values } = parsed as { values: unknown[] }
+    if (operator === 'between') {
+      if (values.length !== 2) return { error: 'between takes two comma-separated values' }
+      return { condition: { gte: values[0], lte: values[1] } }
+    }
+    return { condition: { [operator === 'in' ? 'in' : 'notIn']: values } }
+  }
+
+  if (operator === 'contains' || operator === 'startsWith' || operator === 'endsWith') {
+    return { condition: { [operator]: raw, mode: 'insensitive' } }
+  }
+
+  const parsed = parseValue(field, raw)
+  if ('error' in parsed) return parsed
+  const prismaOperator = { eq: 'equals', ne: 'not' }[operator] ?? operator
+  return { condition: { [prismaOperator]: parsed.value } }
+}
+
+/**
+ * Translates the filter[...] query parameters into Prisma where conditions, to
+ * be combined with AND. Only fields and operators of the field map are accepted;
+ * every invalid parameter is reported in one 400 ProblemError.
+ */
+export function parseFilters(fields: FilterFields, queries: Record<string, string[]>) {
+  const conditions: object[] = []
+  const errors: FieldError[] = []
+
+  for (const [key, values] of Object.entries(queries)) {
+    if (key !== 'filter' && !key.startsWith('filter[')) continue
+
+    const match = key.match(FILTER_KEY)
+    if (!match) {
+      errors.push({ field: key, in: 'query', message: 'Use filter[field][operator]=value', code: 'invalid_filter' })
+      continue
+    }
+
+    const [, name, operator = 'eq'] = match
+    const field = Object.hasOwn(fields, name) ? fields[name] : undefined
+    if (!field) {
+      errors.push({
+        field: key,
+        in: 'query',
+        message: `Unknown field ${name}; filterable fields are ${Object.keys(fields).join(', ')}`,
+        code: 'unknown_field'
+      })
+      continue
+    }
+
+    for (const raw of values) {
+      const result = condition(field, operator, raw)
+      if ('error' in result) {
+        errors.push({ field: key, in: 'query', message: result.error, code: 'invalid_filter' })
+        continue
+      }
+      conditions.push(field.where ? field.where(result.condition) : { [name]: result.condition })
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ProblemError(400, errors.length === 1 ? `Invalid ${errors[0].field}: ${errors[0].message}` : `${errors.length} filters are invalid`, {
+      type: PROBLEM_TYPES.validation,
+      errors
+    })
+  }
+
+  return conditions
+}
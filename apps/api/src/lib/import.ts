@@ -0,0 +1,210 @@
+import { Readable } from 'node:stream'
+import type { CellValue } from 'exceljs'
+import type { z } from 'zod'
+import { ExcelJS, XLSX_CONTENT_TYPE } from './excel.js'
+
+export const MAX_IMPORT_ROWS = 5000
+
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFileError'
+  }
+}
+
+export type ImportEntity = 'scientists' | 'conferences' | 'participations'
+
+export type ImportIssue = { field: string; message: string }
+
+// A spreadsheet row keyed by normalized column name; `line` is the row number as shown in the spreadsheet
+export type ImportRow = { line: number; values: Map<string, string> }
+
+export type ImportRowReport = {
+  line: number
+  status: 'valid' | 'invalid' | 'created'
+  id: number | null
+  errors: ImportIssue[]
+  warnings: string[]
+}
+
+// Thrown inside a commit transaction to roll the whole import back because of one row
+export class ImportRowError extends Error {
+  constructor(readonly line: number, readonly errors: ImportIssue[]) {
+    super(`Row ${line} could not be imported`)
+    this.name = 'ImportRowError'
+  }
+}
+
+// "Full Name", "full_name" and "fullName" all refer to the fullName column
+export function normalizeColumn(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function detectDelimiter(text: string) {
+  const header = text.slice(0, text.search(/\r?\n|$/))
+  const counts = [',', ';', '\t'].map((d) => [d, header.split(d).length] as const)
+  return counts.sort((a, b) => b[1] - a[1])[0][0]
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain delimiters, doubled quotes
+ * and line breaks. Comma, semicolon and tab separated files are detected from the header.
+ */
+export function parseCsv(text: string) {
+  const input = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(input)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (quoted) {
+    throw new ImportFileError('Unterminated quoted field in CSV file')
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value !== 'object') return String(value)
+  if ('result' in value) return cellText(value.result as CellValue)
+  if ('richText' in value) return value.richText.map((part) => part.text).join('')
+  if ('text' in value) return String(value.text)
+  if ('error' in value) return ''
+  return String(value)
+}
+
+async function parseXlsx(buffer: ArrayBuffer) {
+  const workbook = new ExcelJS.Workbook()
+  try {
+    // read() takes a stream, which Node buffers fit without the Buffer type exceljs declares for load()
+    await workbook.xlsx.read(Readable.from(Buffer.from(buffer)))
+  } catch {
+    throw new ImportFileError('File is not a valid XLSX workbook')
+  }
+
+  const sheet = workbook.worksheets[0]
+  if (!sheet) return []
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const values: string[] = []
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      values.push(cellText(row.getCell(col).value))
+    }
+    rows[rowNumber - 1] = values
+  })
+
+  return Array.from(rows, (row) => row ?? [])
+}
+
+/**
+ * Reads the first sheet of an uploaded CSV or XLSX file. The first row holds the
+ * column names; empty rows are skipped.
+ */
+export async function readSpreadsheet(file: File): Promise<ImportRow[]> {
+  const isXlsx = file.type === XLSX_CONTENT_TYPE || file.name.toLowerCase().endsWith('.xlsx')
+  const table = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text())
+
+  const [header, ...body] = table
+  if (!header || header.every((name) => name.trim() === '')) {
+    throw new ImportFileError('File has no header row')
+  }
+
+  const columns = header.map(normalizeColumn)
+  const rows: ImportRow[] = []
+
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === '')) return
+
+    const values = new Map<string, string>()
+    columns.forEach((column, col) => {
+      const cell = cells[col]?.trim()
+      if (column && cell) values.set(column, cell)
+    })
+    rows.push({ line: index + 2, values })
+  })
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new ImportFileError(`File has ${rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`)
+  }
+
+  return rows
+}
+
+export function cell(row: ImportRow, column: string) {
+  return row.values.get(normalizeColumn(column))
+}
+
+// Numbers stay strings when they do not parse, so that the zod schema reports them
+export function toNumber(value: string | undefined) {
+  if (value === undefined) return undefined
+  const number = Number(value)
+  return Number.isNaN(number) ? value : number
+}
+
+// Accepts plain dates (2026-05-10) and anything Date can parse, and returns an ISO datetime
+export function toDateTime(value: string | undefined) {
+  if (value === undefined) return undefined
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return `${value}T00:00:00.000Z`
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toISOString()
+}
+
+export function zodIssues(error: z.ZodError): ImportIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.') || 'row',
+    message: issue.message
+  }))
+}
+
+export function summarize(entity: ImportEntity, mode: 'dry-run' | 'commit', rows: ImportRowReport[]) {
+  const invalid = rows.filter((row) => row.status === 'invalid').length
+  return {
+    entity,
+    mode,
+    committed: mode === 'commit' && invalid === 0,
+    total: rows.length,
+    valid: rows.length - invalid,
+    invalid,
+    rows
+  }
+}
@@ -0,0 +1,155 @@
+import type { Prisma, Scientist } from '@prisma/client'
+import { deleteChange, recordAudit, updateChange, updateManyChanges, type AuditActor } from './audit.js'
+import { deletedWhere } from './soft-delete.js'
+
+type Tx = Prisma.TransactionClient
+
+export const MERGE_FIELDS = [
+  'fullName',
+  'country',
+  'degree',
+  'specialization',
+  'organization',
+  'email',
+  'orcid',
+  'hIndex'
+] as const
+
+export type MergeField = (typeof MERGE_FIELDS)[number]
+
+export class ScientistMergeError extends Error {
+  constructor(readonly status: 400 | 404 | 409, message: string) {
+    super(message)
+    this.name = 'ScientistMergeError'
+  }
+}
+
+/**
+ * Decides which scientist every field value is taken from. Fields without an
+ * explicit choice keep the target's value; an empty email or ORCID iD is filled
+ * from the first source that has one.
+ */
+function resolveFields(target: Scientist, sources: Scientist[], chosen: Partial<Record<MergeField, number>>) {
+  const fields = {} as Record<MergeField, number>
+
+  for (const field of MERGE_FIELDS) {
+    fields[field] = chosen[field]
+      ?? (target[field] === null ? sources.find((source) => source[field] !== null)?.id : undefined)
+      ?? target.id
+  }
+
+  return fields
+}
+
+/**
+ * Folds the source scientists into the target: their participations and
+ * submissions move to the target, the chosen field values are copied, a linked
+ * user account follows and the sources are deleted. Sources may be soft-deleted
+ * already; the target may not. Must run inside a transaction.
+ */
+export async function mergeScientists(
+  tx: Tx,
+  options: {
+    targetId: number
+    sourceIds: number[]
+    fields?: Partial<Record<MergeField, number>>
+    actor: AuditActor
+  }
+) {
+  const { targetId, actor } = options
+  const sourceIds = [...new Set(options.sourceIds)]
+  const ids = [targetId, ...sourceIds]
+
+  if (sourceIds.includes(targetId)) {
+    throw new ScientistMergeError(400, 'A scientist cannot be merged into itself')
+  }
+
+  for (const [field, id] of Object.entries(options.fields ?? {})) {
+    if (!ids.includes(id)) {
+      throw new ScientistMergeError(400, `${field} must be taken from the target or one of the sources, not scientist ${id}`)
+    }
+  }
+
+  // Lock in id order so that overlapping merges cannot deadlock. Soft-deleted scientists
+  // can be merged away, which frees their email and ORCID iD, but cannot be the target
+  const locked = await tx.$queryRaw<Array<{ id: number; deletedAt: Date | null }>>`
+    SELECT id, "deletedAt" FROM "Scientist" WHERE id = ANY(${ids}::int[]) ORDER BY id FOR UPDATE
+  `
+  const missing = ids.filter((id) => !locked.some((row) => row.id === id && (id !== targetId || row.deletedAt === null)))
+  if (missing.length > 0) {
+    throw new ScientistMergeError(404, `Scientist ${missing.join(', ')} not found`)
+  }
+
+  const records = await tx.scientist.findMany({
+    where: { id: { in: ids }, ...deletedWhere('include') },
+    include: { user: { select: { id: true } } }
+  })
+  const byId = new Map(records.map((record) => [record.id, record]))
+  const target = byId.get(targetId)!
+  const sources = sourceIds.map((id) => byId.get(id)!)
+
+  const accounts = records.filter((record) => record.user)
+  if (accounts.length > 1) {
+    throw new ScientistMergeError(409, `Scientists ${accounts.map((record) => record.id).join(', ')} each have a user account; ` +
+      'only one account can stay linked to the merged scientist')
+  }
+
+  const fields = resolveFields(target, sources, options.fields ?? {})
+  const data = Object.fromEntries(MERGE_FIELDS.map((field) => [field, byId.get(fields[field])![field]]))
+
+  // Soft-deleted participations move too, as the sources themselves are deleted for good
+  const participations = await tx.participation.findMany({
+    where: { scientistId: { in: sourceIds }, ...deletedWhere('include') },
+    orderBy: { id: 'asc' }
+  })
+  await tx.participation.updateMany({
+    where: { scientistId: { in: sourceIds }, ...deletedWhere('include') },
+    data: { scientistId: targetId }
+  })
+  await tx.submission.updateMany({
+    where: { scientistId: { in: sourceIds } },
+    data: { scientistId: targetId }
+  })
+
+  // Earlier merges into a source would otherwise be deleted with it
+  await tx.scientistMerge.updateMany({
+    where: { targetId: { in: sourceIds } },
+    data: { targetId }
+  })
+
+  // Emails and ORCID iDs are unique, so the sources release theirs before the target takes them over
+  await tx.scientist.updateMany({
+    where: { id: { in: sourceIds }, ...deletedWhere('include') },
+    data: { email: null, orcid: null }
+  })
+
+  const account = accounts[0]?.user
+  if (account && accounts[0].id !== targetId) {
+    await tx.user.update({ where: { id: account.id }, data: { scientistId: targetId } })
+  }
+
+  const scientist = await tx.scientist.update({ where: { id: targetId }, data })
+  await tx.scientist.deleteMany({ where: { id: { in: sourceIds } } })
+
+  const { user: _, ...targetBefore } = target
+  await recordAudit(tx, actor, 'scientists.merge', [
+    updateChange('scientist', targetBefore, scientist),
+    ...sources.map(({ user, ...source }) => deleteChange('scientist', source)),
+    ...updateManyChanges('participation', participations, await tx.participation.findMany({
+      where: { id: { in: participations.map((participation) => participation.id) }, ...deletedWhere('include') }
+    }))
+  ])
+
+  const merge = await tx.scientistMerge.create({
+    data: {
+      targetId,
+      sourceIds,
+      sources: sources.map(({ user, ...source }) => ({ ...source, userId: user?.id ?? null })),
+      fields,
+      participationIds: participations.map((participation) => participation.id),
+      mergedById: actor?.id ?? null
+    }
+  })
+
+  return { scientist, merge }
+}
@@ -0,0 +1,119 @@
+import { Prisma } from '@prisma/client'
+import { PROBLEM_TYPES, ProblemError, type FieldError } from './problem.js'
+
+const PATH_KEY = /^metadata\.(.+)$/
+
+const MAX_PATH_DEPTH = 10
+
+const NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/
+
+// metadata::text escapes these, so a query containing them cannot be prefiltered on the text
+const ESCAPED_IN_JSON = /["\\\u0000-\u001f]/
+
+export type MetadataQuery = {
+  // Plain text, matched against string and number values
+  q?: string
+  // JSON object the metadata must contain
+  contains?: string
+  // Comma-separated key paths that must exist
+  has?: string
+}
+
+// Every key quoted, so key names cannot inject jsonpath syntax: $."session"."room"
+function jsonPath(keys: string[]) {
+  return '$' + keys.map((key) => `.${JSON.stringify(key)}`).join('')
+}
+
+function parsePath(path: string): { keys: string[] } | { error: string } {
+  const keys = path.split('.')
+  if (keys.some((key) => key === '')) return { error: `'${path}' is not a key path; separate keys with single dots` }
+  if (keys.length > MAX_PATH_DEPTH) return { error: `Key paths are at most ${MAX_PATH_DEPTH} keys deep` }
+  return { keys }
+}
+
+// jsonpath literals the raw value stands for: always the string, plus the literal it spells, if any
+function literals(raw: string) {
+  const values = [JSON.stringify(raw)]
+  if (raw === 'true' || raw === 'false' || raw === 'null') values.push(raw)
+  else if (NUMBER.test(raw) && Number.isFinite(Number(raw))) values.push(JSON.stringify(Number(raw)))
+  return values
+}
+
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * SQL conditions on p.metadata for a participation search, to be combined with
+ * AND. User input only ever reaches the database as a bound parameter: text is
+ * compared literally and key paths are quoted, so nothing is run as a regex.
+ * Containment, existence and value filters can use the jsonb_path_ops index.
+ * Value filters come from the raw query string as metadata.<path>=value, since
+ * their names are not known in advance. Every invalid parameter is reported in
+ * one 400 ProblemError.
+ */
+export function metadataConditions(query: MetadataQuery, queries: Record<string, string[]>) {
+  const conditions: Prisma.Sql[] = []
+  const errors: FieldError[] = []
+
+  if (query.q !== undefined) {
+    const text = query.q
+    if (!ESCAPED_IN_JSON.test(text)) {
+      // Narrows the rows with the trigram index on metadata::text before the values are compared
+      conditions.push(Prisma.sql`p.metadata::text ILIKE ${`%${escapeLike(text)}%`}`)
+    }
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1
+      FROM jsonb_path_query(p.metadata, 'strict $.** ? (@.type() == "string" || @.type() == "number")') value
+      WHERE strpos(lower(value #>> '{}'), lower(${text})) > 0
+    )`)
+  }
+
+  if (query.contains !== undefined) {
+    let value: unknown
+    try {
+      value = JSON.parse(query.contains)
+    } catch {
+      value = undefined
+    }
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({ field: 'contains', in: 'query', message: 'Must be a JSON object, e.g. {"track":"AI"}', code: 'invalid_json' })
+    } else {
+      conditions.push(Prisma.sql`p.metadata @> ${JSON.stringify(value)}::jsonb`)
+    }
+  }
+
+  if (query.has !== undefined) {
+    for (const path of query.has.split(',').map((item) => item.trim())) {
+      const parsed = parsePath(path)
+      if ('error' in parsed) {
+        errors.push({ field: 'has', in: 'query', message: parsed.error, code: 'invalid_path' })
+        continue
+      }
+      conditions.push(Prisma.sql`p.metadata @? ${jsonPath(parsed.keys)}::jsonpath`)
+    }
+  }
+
+  for (const [key, values] of Object.entries(queries)) {
+    const match = key.match(PATH_KEY)
+    if (!match) continue
+
+    const parsed = parsePath(match[1])
+    if ('error' in parsed) {
+      errors.push({ field: key, in: 'query', message: parsed.error, code: 'invalid_path' })
+      continue
+    }
+
+    const matches = values.flatMap(literals).map((literal) => `@ == ${literal}`).join(' || ')
+    conditions.push(Prisma.sql`p.metadata @? ${`${jsonPath(parsed.keys)} ? (${matches})`}::jsonpath`)
+  }
+
+  if (errors.length > 0) {
+    throw new ProblemError(400, errors.length === 1 ? `Invalid ${errors[0].field}: ${errors[0].message}` : `${errors.length} metadata queries are invalid`, {
+      type: PROBLEM_TYPES.validation,
+      errors
+    })
+  }
+
+  return conditions
+}
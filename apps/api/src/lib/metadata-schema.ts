@@ -0,0 +1,283 @@
+import { Prisma } from '@prisma/client'
+import Ajv2020, { type ErrorObject, type ValidateFunction } from 'ajv/dist/2020.js'
+import { PROBLEM_TYPES, ProblemError, type FieldError } from './problem.js'
+
+type Tx = Prisma.TransactionClient
+
+export type JsonSchema = { [keyword: string]: unknown }
+
+// What participations of a conference without a schema accept
+export const OPEN_METADATA_SCHEMA: JsonSchema = { type: 'object' }
+
+// Longer strings fail format checks without being tested, which bounds the work the format regexes do
+const MAX_FORMAT_LENGTH = 2048
+
+const MAX_SCHEMA_BYTES = 64 * 1024
+
+// Compiled schemas kept around, so that validating a conference's metadata does not compile its schema every time
+const MAX_COMPILED_SCHEMAS = 100
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  date: (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  'date-time': (value) =>
+    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !Number.isNaN(Date.parse(value)),
+  uri: (value) => URL.canParse(value)
+}
+
+// Checks schemas against the draft 2020-12 meta-schema, which uses pattern itself
+const metaSchema = new Ajv2020({ allErrors: true, logger: false })
+
+/**
+ * Compiles and runs metadata schemas. Strict mode rejects unknown keywords and
+ * formats rather than ignoring them, so organizers do not think a rule is
+ * enforced when it is not. pattern and patternProperties are removed, since a
+ * regex from a schema can backtrack for minutes on a crafted value.
+ */
+const ajv = new Ajv2020({
+  allErrors: true,
+  useDefaults: true,
+  validateSchema: false,
+  strictSchema: true,
+  strictNumbers: true,
+  multipleOfPrecision: 9,
+  logger: false
+})
+ajv.removeKeyword('pattern')
+ajv.removeKeyword('patternProperties')
+for (const [name, check] of Object.entries(FORMATS)) {
+  ajv.addFormat(name, { type: 'string', validate: (value: string) => value.length <= MAX_FORMAT_LENGTH && check(value) })
+}
+
+const compiled = new Map<string, ValidateFunction>()
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Compiles the schema, or returns it compiled earlier. Throws when ajv cannot compile it
+function compile(schema: JsonSchema) {
+  const key = JSON.stringify(schema)
+  const cached = compiled.get(key)
+  if (cached) {
+    // Map keeps insertion order, so re-inserting marks the schema as most recently used
+    compiled.delete(key)
+    compiled.set(key, cached)
+    return cached
+  }
+
+  // Without $id, schemas of different conferences that share one do not clash in ajv's registry
+  const { $id, ...rest } = schema
+  const validate = ajv.compile(rest)
+  compiled.set(key, validate)
+  if (compiled.size > MAX_COMPILED_SCHEMAS) {
+    const [oldest, evicted] = compiled.entries().next().value!
+    compiled.delete(oldest)
+    ajv.removeSchema(evicted.schema)
+  }
+  return validate
+}
+
+// Whether any object in the value has a __proto__ key, which ajv skips when it reads properties
+function hasProtoKey(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(hasProtoKey)
+  return isObject(value) && (Object.hasOwn(value, '__proto__') || Object.values(value).some(hasProtoKey))
+}
+
+// An ajv JSON Pointer as a dotted path, e.g. /properties/track/type as properties.track.type
+function dottedPath(pointer: string) {
+  return pointer.split('/').slice(1).map((part) => part.replaceAll('~1', '/').replaceAll('~0', '~')).join('.')
+}
+
+/**
+ * Checks a metadata schema set by an organizer: valid JSON Schema that ajv can
+ * compile, with an object at the root. Returns the problems with their path in
+ * the schema, e.g. properties.track.enum.
+ */
+export function checkMetadataSchema(schema: JsonSchema): FieldError[] {
+  if (JSON.stringify(schema).length > MAX_SCHEMA_BYTES) {
+    return [{ field: '(root)', in: 'body', message: `Schemas are at most ${MAX_SCHEMA_BYTES / 1024} KiB`, code: 'too_big' }]
+  }
+
+  const errors: FieldError[] = []
+  if (schema.type !== 'object') {
+    errors.push({ field: 'type', in: 'body', message: "Metadata is an object; the root schema needs type 'object'", code: 'invalid_keyword' })
+  }
+
+  if (hasProtoKey(schema)) {
+    errors.push({ field: '(root)', in: 'body', message: '__proto__ cannot be used as a property name', code: 'invalid_keyword' })
+    return errors
+  }
+
+  try {
+    if (!metaSchema.validateSchema(schema)) {
+      for (const error of metaSchema.errors ?? []) {
+        errors.push({ field: dottedPath(error.instancePath) || '(root)', in: 'body', message: `Schema ${error.message}`, code: 'invalid_keyword' })
+      }
+      return errors
+    }
+    compile(schema)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    const code = message.includes('unknown keyword') || message.includes('unknown format') ? 'unsupported_keyword' : 'invalid_keyword'
+    errors.push({ field: '(root)', in: 'body', message, code })
+  }
+  return errors
+}
+
+// The message and code of an ajv error, in the words the rest of the API uses
+function describe(error: ErrorObject): [string, string] {
+  const params = error.params as Record<string, any>
+  switch (error.keyword) {
+    case 'type': return [`Expected ${String(params.type).split(',').join(' or ')}`, 'invalid_type']
+    case 'enum': return [`Must be one of ${params.allowedValues.map((option: unknown) => JSON.stringify(option)).join(', ')}`, 'invalid_value']
+    case 'const': return [`Must be ${JSON.stringify(params.allowedValue)}`, 'invalid_value']
+    case 'minLength': return [`Must be at least ${params.limit} characters`, 'too_small']
+    case 'maxLength': return [`Must be at most ${params.limit} characters`, 'too_big']
+    case 'format': return [`Must be a valid ${params.format}`, 'invalid_format']
+    case 'minimum': return [`Must be at least ${params.limit}`, 'too_small']
+    case 'maximum': return [`Must be at most ${params.limit}`, 'too_big']
+    case 'exclusiveMinimum': return [`Must be greater than ${params.limit}`, 'too_small']
+    case 'exclusiveMaximum': return [`Must be less than ${params.limit}`, 'too_big']
+    case 'multipleOf': return [`Must be a multiple of ${params.multipleOf}`, 'not_multiple_of']
+    case 'minItems': return [`Must have at least ${params.limit} items`, 'too_small']
+    case 'maxItems': return [`Must have at most ${params.limit} items`, 'too_big']
+    case 'uniqueItems': return ['Items must be unique', 'not_unique']
+    case 'required': return ['Required', 'required']
+    case 'additionalProperties': return ['Unknown field', 'unrecognized_keys']
+    default: return [`Must pass ${error.keyword}: ${error.message}`, `invalid_${error.keyword}`]
+  }
+}
+
+function toFieldError(error: ErrorObject): FieldError {
+  const params = error.params as Record<string, any>
+  // Missing and unknown properties are reported on the property itself rather than on its object
+  const property = error.keyword === 'required' ? params.missingProperty : error.keyword === 'additionalProperties' ? params.additionalProperty : undefined
+  const field = ['metadata', dottedPath(error.instancePath), property].filter(Boolean).join('.')
+  const [message, code] = describe(error)
+  return { field, in: 'body', message, code }
+}
+
+/**
+ * A deep copy of JSON with null-prototype objects, into which ajv can write a
+ * default for a property named __proto__ without replacing the prototype.
+ */
+function withoutPrototypes(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutPrototypes)
+  if (!isObject(value)) return value
+  const copy: Record<string, unknown> = Object.create(null)
+  for (const [name, item] of Object.entries(value)) copy[name] = withoutPrototypes(item)
+  return copy
+}
+
+/**
+ * Validates participation metadata against the schema of its conference and
+ * fills in defaults. Missing metadata is validated as an empty object, so
+ * required fields and defaults apply to it too.
+ */
+export function validateMetadata(schema: JsonSchema, metadata: unknown) {
+  const validate = compile(schema)
+  const data = withoutPrototypes(metadata ?? {})
+  const errors = validate(data) ? [] : (validate.errors ?? []).map(toFieldError)
+  // Back to plain objects for Prisma; JSON.parse keeps a __proto__ key as an own property
+  const value = JSON.parse(JSON.stringify(data)) as Record<string, unknown>
+  return { value, errors }
+}
+
+// The metadata schema of the conference, or null when it has none
+export async function metadataSchemaOf(tx: Tx, conferenceId: number) {
+  const conference = await tx.conference.findUnique({ where: { id: conferenceId }, select: { metadataSchema: true } })
+  return isObject(conference?.metadataSchema) ? conference.metadataSchema as JsonSchema : null
+}
+
+/**
+ * Metadata for a participation at the conference: validated against the
+ * conference's schema, with defaults filled in. Without a schema any metadata
+ * is accepted as it is. Throws a 400 ProblemError listing every invalid field.
+ */
+export async function conferenceMetadata(tx: Tx, conferenceId: number, metadata: Record<string, any> | undefined) {
+  const schema = await metadataSchemaOf(tx, conferenceId)
+  if (!schema) return metadata
+
+  const { value, errors } = validateMetadata(schema, metadata)
+  if (errors.length > 0) {
+    throw new ProblemError(400, `metadata does not match the metadata schema of conference ${conferenceId}`, {
+      type: PROBLEM_TYPES.validation,
+      errors
+    })
+  }
+  return value
+}
+
+/**
+ * The schema as an OpenAPI 3.0 schema object, which has no $schema, $id,
+ * $comment, const or type lists and only a single example.
+ */
+export function toOpenAPISchema(schema: JsonSchema): JsonSchema {
+  const { $schema, $id, $comment, const: constant, examples, type, properties, additionalProperties, items, ...rest } = schema
+  const result: JsonSchema = { ...rest }
+
+  if (Array.isArray(type)) {
+    const types = type.filter((item) => item !== 'null')
+    if (types.length < type.length) result.nullable = true
+    if (types.length === 1) result.type = types[0]
+    else if (types.length > 1) result.anyOf = types.map((item) => ({ type: item }))
+  } else if (type !== undefined) {
+    result.type = type
+  }
+  if ('const' in schema) result.enum = [constant]
+  if (Array.isArray(examples) && examples.length > 0) result.example = examples[0]
+  if (isObject(properties)) {
+    result.properties = Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, toOpenAPISchema(property as JsonSchema)]))
+  }
+  if (additionalProperties !== undefined) {
+    result.additionalProperties = isObject(additionalProperties) ? toOpenAPISchema(additionalProperties) : additionalProperties
+  }
+  if (isObject(items)) result.items = toOpenAPISchema(items)
+
+  return result
+}
+
+// Component name of a conference's metadata schema in the OpenAPI document
+function metadataComponentName(conferenceId: number) {
+  return `ConferenceMetadata${conferenceId}`
+}
+
+async function loadMetadataSchemaComponents(tx: Tx) {
+  const conferences = await tx.conference.findMany({
+    where: { metadataSchema: { not: Prisma.DbNull } },
+    select: { id: true, name: true, metadataSchema: true },
+    orderBy: { id: 'asc' }
+  })
+
+  return Object.fromEntries(conferences.map((conference) => [metadataComponentName(conference.id), {
+    title: `Participation metadata for ${conference.name}`,
+    description: `Validated on create and update of participations at conference ${conference.id}`,
+    ...toOpenAPISchema(conference.metadataSchema as JsonSchema)
+  }]))
+}
+
+// Built on the first request for the documentation and again after invalidateMetadataSchemaComponents
+let components: ReturnType<typeof loadMetadataSchemaComponents> | null = null
+
+/**
+ * OpenAPI components for the metadata schemas of all live conferences that
+ * have one, so they can be looked up in the generated documentation. The
+ * same object is returned until a schema changes.
+ */
+export function metadataSchemaComponents(tx: Tx) {
+  if (!components) {
+    const loading = loadMetadataSchemaComponents(tx)
+    // A failed load is retried by the next request rather than cached
+    loading.catch(() => {
+      if (components === loading) components = null
+    })
+    components = loading
+  }
+  return components
+}
+
+// Call after a conference's metadata schema, name or deletion changed, so that the documentation shows it
+export function invalidateMetadataSchemaComponents() {
+  components = null
+}
@@ -0,0 +1,46 @@
+import { z } from '@hono/zod-openapi'
+
+const ORCID_PATTERN = /^\d{4}-\d{4}-\d{4}-\d{3}[\dX]$/
+
+// ISO 7064 mod 11-2 check digit over the first 15 digits
+export function orcidCheckDigit(digits: string) {
+  let total = 0
+  for (const digit of digits) {
+    total = (total + Number(digit)) * 2
+  }
+  const result = (12 - (total % 11)) % 11
+  return result === 10 ? 'X' : String(result)
+}
+
+/**
+ * Brings an ORCID iD into the canonical 0000-0002-1825-0097 form. Accepts the
+ * https://orcid.org/ URL form, missing dashes and a lowercase x. Returns null
+ * when the value is not an ORCID iD or its check digit is wrong.
+ */
+export function normalizeOrcid(value: string) {
+  const compact = value
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?orcid\.org\//i, '')
+    .replace(/[\s-]/g, '')
+    .toUpperCase()
+
+  if (!/^\d{15}[\dX]$/.test(compact)) return null
+
+  const orcid = compact.match(/.{4}/g)!.join('-')
+  if (!ORCID_PATTERN.test(orcid) || orcidCheckDigit(compact.slice(0, 15)) !== compact[15]) return null
+
+  return orcid
+}
+
+export const OrcidSchema = z.string().transform((value, ctx) => {
+  const orcid = normalizeOrcid(value)
+  if (!orcid) {
+    ctx.addIssue({ code: 'custom', message: 'Invalid ORCID iD (expected 0000-0000-0000-000X with a valid check digit)' })
+    return z.NEVER
+  }
+  return orcid
+}).openapi({
+  type: 'string',
+  example: '0000-0002-1825-0097',
+  description: 'ORCID iD; URLs and values without dashes are normalized'
+})
@@ -0,0 +1,44 @@
+import type { Prisma } from '@prisma/client'
+import type { AuthUser } from './auth.js'
+
+type Tx = Prisma.TransactionClient
+
+/**
+ * Admins manage every conference; organizers only the conferences they were added to.
+ */
+export async function canManageConference(db: Tx, user: AuthUser, conferenceId: number) {
+  if (user.role === 'admin') return true
+  if (user.role !== 'organizer') return false
+
+  const organizer = await db.conferenceOrganizer.findUnique({
+    where: { conferenceId_userId: { conferenceId, userId: user.id } },
+    select: { userId: true }
+  })
+
+  return organizer !== null
+}
+
+export async function canManageConferences(db: Tx, user: AuthUser, conferenceIds: number[]) {
+  for (const conferenceId of new Set(conferenceIds)) {
+    if (!(await canManageConference(db, user, conferenceId))) return false
+  }
+  return true
+}
+
+// Prisma filters for the "mine" query parameter of list routes.
+// Organizers and admins see the conferences they organize, everyone else the ones they take part in.
+export function myConferencesWhere(user: AuthUser): Prisma.ConferenceWhereInput {
+  if (user.role === 'admin' || user.role === 'organizer') {
+    return { organizers: { some: { userId: user.id } } }
+  }
+  if (user.scientistId === null) return { id: { in: [] } }
+  return { participations: { some: { scientistId: user.scientistId, deletedAt: null } } }
+}
+
+export function myParticipationsWhere(user: AuthUser): Prisma.ParticipationWhereInput {
+  if (user.role === 'admin' || user.role === 'organizer') {
+    return { conference: { organizers: { some: { userId: user.id } } } }
+  }
+  if (user.scientistId === null) return { id: { in: [] } }
+  return { scientistId: user.scientistId }
+}
@@ -0,0 +1,178 @@
+import { z } from '@hono/zod-openapi'
+import { PROBLEM_TYPES, ProblemError } from './problem.js'
+
+type SortOrder = 'asc' | 'desc'
+
+// Columns a list may be sorted by; nullable ones sort their nulls last in either order
+export type SortFields = Record<string, { type: 'number' | 'string' | 'date'; nullable?: boolean }>
+
+export const PaginationSchema = z.object({
+  page: z.number().int().positive().optional().openapi({ description: 'Omitted when paging with a cursor' }),
+  limit: z.number().int().positive(),
+  total: z.number().int().nonnegative().optional().openapi({ description: 'Omitted when count=false' }),
+  pages: z.number().int().nonnegative().optional().openapi({ description: 'Omitted when count=false' }),
+  nextCursor: z.string().nullable().optional().openapi({ description: 'Pass as after to get the next page; null on the last page' }),
+  prevCursor: z.string().nullable().optional().openapi({ description: 'Pass as before to get the previous page; null on the first page' })
+}).openapi('Pagination')
+
+export function sortByQuery<F extends SortFields>(fields: F, defaultField: keyof F & string) {
+  return z.enum(Object.keys(fields) as [keyof F & string, ...Array<keyof F & string>])
+    .optional()
+    .default(defaultField)
+    .openapi({ description: 'Field to sort by; ties are broken by id' })
+}
+
+export const cursorQuery = {
+  after: z.string().optional().openapi({
+    description: 'Cursor from pagination.nextCursor. Pages by keyset instead of page; sortBy and sortOrder must not change'
+  }),
+  before: z.string().optional().openapi({ description: 'Cursor from pagination.prevCursor' }),
+  count: z.enum(['true', 'false']).optional().openapi({
+    description: 'Whether to count all matching rows for total and pages. Defaults to true with page, false with a cursor'
+  })
+}
+
+// One orderBy entry of a list; only nullable columns take the { sort, nulls } form, as in Prisma's inputs
+type OrderBy<F extends SortFields> = {
+  [K in keyof F]?: F[K] extends { nullable: true } ? SortOrder | { sort: SortOrder; nulls: 'first' | 'last' } : SortOrder
+}
+
+type ListQuery<F extends SortFields> = {
+  page: number
+  limit: number
+  sortBy: keyof F & string
+  sortOrder: SortOrder
+  after?: string
+  before?: string
+  count?: 'true' | 'false'
+}
+
+type Cursor = { value: unknown; id: number }
+
+function invalidCursor(parameter: string, message: string) {
+  return new ProblemError(400, `Invalid ${parameter}: ${message}`, {
+    type: PROBLEM_TYPES.validation,
+    errors: [{ field: parameter, in: 'query', message, code: 'invalid_cursor' }]
+  })
+}
+
+function encodeCursor(sortBy: string, sortOrder: SortOrder, row: Record<string, unknown>) {
+  const value = row[sortBy] instanceof Date ? (row[sortBy] as Date).toISOString() : (row[sortBy] ?? null)
+  return Buffer.from(JSON.stringify([sortBy, sortOrder, value, row.id])).toString('base64url')
+}
+
+function decodeCursor(fields: SortFields, sortBy: string, sortOrder: SortOrder, parameter: string, cursor: string): Cursor {
+  let decoded: unknown
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+  } catch {
+    throw invalidCursor(parameter, 'not a cursor returned by this list')
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 4 || !Number.isInteger(decoded[3])) {
+    throw invalidCursor(parameter, 'not a cursor returned by this list')
+  }
+  const [field, order, value, id] = decoded as [unknown, unknown, unknown, number]
+  if (field !== sortBy || order !== sortOrder) {
+    throw invalidCursor(parameter, `the cursor was issued for sortBy=${String(field)}&sortOrder=${String(order)}`)
+  }
+
+  const { type, nullable } = fields[sortBy]
+  if (value === null) {
+    if (!nullable) throw invalidCursor(parameter, 'not a cursor returned by this list')
+    return { value, id }
+  }
+  if (type === 'date' && typeof value === 'string' && !Number.isNaN(Date.parse(value))) return { value: new Date(value), id }
+  if (type !== 'date' && typeof value === type) return { value, id }
+  throw invalidCursor(parameter, 'not a cursor returned by this list')
+}
+
+/**
+ * Rows strictly after the cursor in the given order, (sortBy, id) compared as
+ * a pair. Nulls sort after every value.
+ */
+function keysetWhere(sortBy: string, nullable: boolean, order: SortOrder, nullsLast: boolean, cursor: Cursor) {
+  const op = order === 'asc' ? 'gt' : 'lt'
+  if (sortBy === 'id') return { id: { [op]: cursor.id } }
+
+  const tie = { [sortBy]: cursor.value, id: { [op]: cursor.id } }
+  if (cursor.value === null) {
+    // Past the last null only non-nulls remain, and only when they come later
+    return nullsLast ? tie : { OR: [tie, { [sortBy]: { not: null } }] }
+  }
+
+  return {
+    OR: [
+      { [sortBy]: { [op]: cursor.value } },
+      tie,
+      ...(nullable && nullsLast ? [{ [sortBy]: null }] : [])
+    ]
+  }
+}
+
+/**
+ * Query arguments and response pagination for a list route. Without a cursor the
+ * list pages by offset as before; with after or before it seeks past the row the
+ * cursor names, which stays fast on deep pages and stable while rows are added.
+ * Throws a 400 ProblemError for cursors that do not belong to the sort.
+ */
+export function listPage<F extends SortFields>(fields: F, query: ListQuery<F>) {
+  const { page, limit, sortBy, sortOrder, after, before } = query
+
+  if (after && before) {
+    throw new ProblemError(400, 'Pass either after or before, not both', {
+      type: PROBLEM_TYPES.validation,
+      errors: [{ field: 'before', in: 'query', message: 'Cannot be combined with after', code: 'invalid_cursor' }]
+    })
+  }
+
+  const nullable = fields[sortBy].nullable ?? false
+  const cursor = after
+    ? decodeCursor(fields, sortBy, sortOrder, 'after', after)
+    : before ? decodeCursor(fields, sortBy, sortOrder, 'before', before) : null
+
+  // Paging backwards reads the rows before the cursor in reverse and flips them afterwards
+  const backwards = Boolean(before)
+  const order: SortOrder = backwards ? (sortOrder === 'asc' ? 'desc' : 'asc') : sortOrder
+  const nullsLast = !backwards
+  const keyset = cursor ? keysetWhere(sortBy, nullable, order, nullsLast, cursor) : null
+
+  const orderBy: Array<OrderBy<F>> = [
+    ...(sortBy === 'id' ? [] : [{ [sortBy]: nullable ? { sort: order, nulls: nullsLast ? 'last' : 'first' } : order } as OrderBy<F>]),
+    { id: order } as OrderBy<F>
+  ]
+
+  return {
+    count: query.count ? query.count === 'true' : !cursor,
+    orderBy,
+    skip: cursor ? 0 : (page - 1) * limit,
+    // One extra row tells whether there is another page
+    take: limit + 1,
+    where<W extends object>(where: W): W {
+      return (keyset ? { AND: [where, keyset] } : where) as W
+    },
+    result<T extends { id: number }>(rows: T[], total: number | null) {
+      const more = rows.length > limit
+      const data = rows.slice(0, limit)
+      if (backwards) data.reverse()
+
+      const first = data[0] as Record<string, unknown> | undefined
+      const last = data[data.length - 1] as Record<string, unknown> | undefined
+      const hasNext = backwards ? true : more
+      const hasPrev = backwards ? more : cursor !== null || page > 1
+
+      return {
+        data,
+        pagination: {
+          ...(!cursor && { page }),
+          limit,
+          ...(total !== null && { total, pages: Math.ceil(total / limit) }),
+          nextCursor: hasNext && last ? encodeCursor(sortBy, sortOrder, last) : null,
+          prevCursor: hasPrev && first ? encodeCursor(sortBy, sortOrder, first) : null
+        }
+      }
+    }
+  }
+}
+
+export type ListPage<F extends SortFields = SortFields> = ReturnType<typeof listPage<F>>
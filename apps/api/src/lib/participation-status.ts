@@ -0,0 +1,72 @@
+import type { Prisma, ParticipationStatus } from '@prisma/client'
+
+type Tx = Prisma.TransactionClient
+
+export const PARTICIPATION_STATUSES = [
+  'pending',
+  'confirmed',
+  'waitlisted',
+  'attended',
+  'no_show',
+  'cancelled',
+  'withdrawn'
+] as const satisfies readonly ParticipationStatus[]
+
+// Statuses a participation may be created with; waitlisted is assigned automatically
+export const INITIAL_STATUSES = ['pending', 'confirmed'] as const satisfies readonly ParticipationStatus[]
+
+// Allowed lifecycle transitions: pending → confirmed → attended/no_show, plus cancelled and withdrawn.
+// Waitlisted is entered automatically when a conference is full and left when a seat frees up.
+export const STATUS_TRANSITIONS: Record<ParticipationStatus, ParticipationStatus[]> = {
+  pending: ['confirmed', 'waitlisted', 'cancelled', 'withdrawn'],
+  confirmed: ['attended', 'no_show', 'waitlisted', 'cancelled', 'withdrawn'],
+  waitlisted: ['pending', 'confirmed', 'cancelled', 'withdrawn'],
+  attended: ['no_show'],
+  no_show: ['attended'],
+  cancelled: [],
+  withdrawn: []
+}
+
+export class StatusTransitionError extends Error {
+  constructor(
+    readonly from: ParticipationStatus,
+    readonly to: ParticipationStatus,
+    readonly allowed: ParticipationStatus[]
+  ) {
+    super(
+      allowed.length > 0
+        ? `Cannot change status from '${from}' to '${to}'. Allowed transitions from '${from}': ${allowed.join(', ')}`
+        : `Cannot change status from '${from}' to '${to}': '${from}' is a final status`
+    )
+    this.name = 'StatusTransitionError'
+  }
+}
+
+export function canTransition(from: ParticipationStatus, to: ParticipationStatus) {
+  return from === to || STATUS_TRANSITIONS[from].includes(to)
+}
+
+export function assertTransition(from: ParticipationStatus, to: ParticipationStatus) {
+  if (!canTransition(from, to)) {
+    throw new StatusTransitionError(from, to, STATUS_TRANSITIONS[from])
+  }
+}
+
+export async function recordStatusChanges(
+  tx: Tx,
+  participationIds: number[],
+  fromStatus: ParticipationStatus | null,
+  toStatus: ParticipationStatus,
+  reason?: string | null
+) {
+  if (participationIds.length === 0) return
+
+  await tx.participationStatusChange.createMany({
+    data: participationIds.map((participationId) => ({
+      participationId,
+      fromStatus,
+      toStatus,
+      reason: reason ?? null
+    }))
+  })
+}
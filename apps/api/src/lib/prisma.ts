@@ -1,10 +1,13 @@
 import "dotenv/config";
 import { PrismaPg } from '@prisma/adapter-pg'
 import { PrismaClient } from '@prisma/client'
+import { softDelete } from './soft-delete.js'
 
 const connectionString = `${process.env.DATABASE_URL}`
 
 const adapter = new PrismaPg({ connectionString })
-const prisma = new PrismaClient({ adapter })
+// The extension only rewrites queries, so the client keeps its plain type and
+// transaction clients stay assignable to Prisma.TransactionClient
+const prisma = new PrismaClient({ adapter }).$extends(softDelete) as unknown as PrismaClient
 
-export { prisma }
\ No newline at end of file
+export { prisma }
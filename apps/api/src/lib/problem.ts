@@ -0,0 +1,231 @@
+import type { Context, Env, ErrorHandler, NotFoundHandler } from 'hono'
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+import { HTTPException } from 'hono/http-exception'
+import { z, type OpenAPIHonoOptions } from '@hono/zod-openapi'
+import { Prisma } from '@prisma/client'
+import { ZodError } from 'zod'
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json'
+
+// Problem types with a meaning beyond their status code; everything else is about:blank (RFC 9457)
+export const PROBLEM_TYPES = {
+  validation: '/problems/validation-error',
+  notFound: '/problems/not-found',
+  unique: '/problems/unique-violation',
+  foreignKey: '/problems/foreign-key-violation',
+  invalidQuery: '/problems/invalid-query'
+} as const
+
+const TITLES: Partial<Record<number, string>> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  413: 'Content Too Large',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  500: 'Internal Server Error'
+}
+
+export const FieldErrorSchema = z.object({
+  field: z.string().openapi({ description: 'Dotted path of the offending field, e.g. metadata.room', example: 'email' }),
+  in: z.enum(['body', 'query', 'path', 'header']).optional(),
+  message: z.string(),
+  code: z.string().optional().openapi({ description: 'Machine-readable reason, e.g. invalid_type or unique' })
+}).openapi('FieldError')
+
+export type FieldError = z.infer<typeof FieldErrorSchema>
+
+export const ProblemSchema = z.object({
+  type: z.string().openapi({ description: 'URI reference identifying the problem type', example: 'about:blank' }),
+  title: z.string().openapi({ example: 'Not Found' }),
+  status: z.number().int(),
+  detail: z.string().openapi({ example: 'Conference not found' }),
+  instance: z.string().openapi({ description: 'Path of the request', example: '/api/conferences/42' }),
+  errors: z.array(FieldErrorSchema).optional().openapi({ description: 'Field-level details of validation and constraint errors' }),
+  error: z.string().openapi({ description: 'Same as detail, for clients of the earlier { error } format', deprecated: true })
+}).openapi('Problem')
+
+const problemContent = {
+  [PROBLEM_CONTENT_TYPE]: {
+    schema: ProblemSchema
+  }
+}
+
+// Responses every route can produce; spread first so that route-specific descriptions win
+export const problemResponses = {
+  400: {
+    content: problemContent,
+    description: 'Invalid request; errors lists the offending fields'
+  },
+  500: {
+    content: problemContent,
+    description: 'Unexpected server error'
+  }
+}
+
+// Errors with a status that handlers throw to abort, e.g. from inside a transaction
+export class ProblemError extends Error {
+  constructor(
+    readonly status: ContentfulStatusCode,
+    message: string,
+    readonly options: { type?: string; errors?: FieldError[] } = {}
+  ) {
+    super(message)
+    this.name = 'ProblemError'
+  }
+}
+
+type ProblemOptions = { type?: string; errors?: FieldError[] }
+
+// An ID in the request body that names no (live) record
+export function referenceNotFound(field: string, detail: string) {
+  return new ProblemError(400, detail, {
+    type: PROBLEM_TYPES.validation,
+    errors: [{ field, in: 'body', message: detail, code: 'not_found' }]
+  })
+}
+
+/**
+ * Responds with an RFC 9457 problem+json document. Extension members such as
+ * conflicts or duplicates are merged into the top level.
+ */
+export function problem<S extends ContentfulStatusCode, X extends Record<string, unknown> = {}>(
+  c: Context,
+  status: S,
+  detail: string,
+  extensions?: X,
+  options: ProblemOptions = {}
+) {
+  return c.json({
+    type: options.type ?? 'about:blank',
+    title: TITLES[status] ?? 'Error',
+    status,
+    detail,
+    instance: c.req.path,
+    ...(options.errors && { errors: options.errors }),
+    error: detail,
+    ...(extensions as X)
+  }, status, { 'Content-Type': PROBLEM_CONTENT_TYPE })
+}
+
+const LOCATIONS: Record<string, FieldError['in']> = {
+  json: 'body',
+  form: 'body',
+  query: 'query',
+  param: 'path',
+  header: 'header'
+}
+
+export function zodFieldErrors(error: ZodError, target?: string): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    ...(target && LOCATIONS[target] && { in: LOCATIONS[target] }),
+    message: issue.message,
+    code: issue.code
+  }))
+}
+
+function validationProblem(c: Context, error: ZodError, target?: string) {
+  const errors = zodFieldErrors(error, target)
+  const detail = errors.length === 1
+    ? `Invalid ${errors[0].field}: ${errors[0].message}`
+    : `${errors.length} fields are invalid`
+  return problem(c, 400, detail, {}, { type: PROBLEM_TYPES.validation, errors })
+}
+
+/**
+ * defaultHook for OpenAPIHono routers: request validation failures become
+ * problem responses listing every invalid field.
+ */
+export const validationHook: NonNullable<OpenAPIHonoOptions<Env>['defaultHook']> = (result, c) => {
+  if (!result.success) {
+    return validationProblem(c, result.error, result.target)
+  }
+}
+
+export function isPrismaError(error: unknown, code: 'P2002' | 'P2003' | 'P2025'): error is Prisma.PrismaClientKnownRequestError {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === code
+}
+
+// The columns named by a unique or foreign key violation. Driver adapters report
+// them in driverAdapterError, the query engine in target or field_name.
+function constraintFields(meta: Record<string, unknown> | undefined): string[] {
+  const cause = (meta?.driverAdapterError as { cause?: { constraint?: { fields?: string[]; index?: string } } } | undefined)?.cause
+  const constraint = cause?.constraint
+  if (constraint?.fields) return constraint.fields.map((field) => field.replace(/"/g, ''))
+  if (constraint?.index) {
+    // Foreign keys are named Model_field_fkey
+    const match = constraint.index.match(/^[A-Za-z]+_(\w+)_fkey$/)
+    return [match ? match[1] : constraint.index]
+  }
+
+  const target = meta?.target ?? meta?.field_name
+  if (Array.isArray(target)) return target.map(String)
+  return typeof target === 'string' ? [target] : []
+}
+
+function prismaProblem(c: Context, error: Prisma.PrismaClientKnownRequestError) {
+  const model = typeof error.meta?.modelName === 'string' ? error.meta.modelName : null
+
+  switch (error.code) {
+    case 'P2025':
+      return problem(c, 404, `${model ?? 'Record'} not found`, {}, { type: PROBLEM_TYPES.notFound })
+    case 'P2002': {
+      const fields = constraintFields(error.meta)
+      return problem(c, 409,
+        `${model ?? 'A record'} with this ${fields.length > 0 ? fields.join(', ') : 'value'} already exists`,
+        {},
+        { type: PROBLEM_TYPES.unique, errors: fields.map((field) => ({ field, message: 'Already in use', code: 'unique' })) })
+    }
+    case 'P2003': {
+      const fields = constraintFields(error.meta)
+      const field = fields[0] ?? 'a relation'
+      return problem(c, 409,
+        `Foreign key on ${field} failed: the referenced record does not exist, or other records still refer to this one`,
+        {},
+        { type: PROBLEM_TYPES.foreignKey, errors: fields.map((name) => ({ field: name, message: 'Foreign key constraint failed', code: 'foreign_key' })) })
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * app.onError handler that turns every error into a problem response: thrown
+ * ProblemErrors and HTTPExceptions keep their status, known Prisma errors are
+ * mapped to 404 and 409, and anything else is logged and reported as a 500.
+ */
+export const handleError: ErrorHandler = (error, c) => {
+  if (error instanceof ProblemError) {
+    return problem(c, error.status, error.message, {}, error.options)
+  }
+
+  if (error instanceof HTTPException) {
+    return problem(c, error.status, error.message || TITLES[error.status] || 'Error')
+  }
+
+  if (error instanceof ZodError) {
+    return validationProblem(c, error)
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    const response = prismaProblem(c, error)
+    if (response) return response
+  }
+
+  // A query built from request input the schema let through, e.g. an unknown sort field
+  if (error instanceof Prisma.PrismaClientValidationError) {
+    const argument = error.message.match(/Unknown argument `(\w+)`/)?.[1]
+    return problem(c, 400,
+      argument ? `Unknown field '${argument}'` : 'The request cannot be turned into a valid query',
+      {},
+      { type: PROBLEM_TYPES.invalidQuery, ...(argument && { errors: [{ field: argument, message: 'Unknown field', code: 'unknown_field' }] }) })
+  }
+
+  console.error(error)
+  return problem(c, 500, 'An unexpected error occurred')
+}
+
+export const handleNotFound: NotFoundHandler = (c) => problem(c, 404, `No route for ${c.req.method} ${c.req.path}`)
@@ -0,0 +1,265 @@
+import { overlaps, type Interval } from './schedule.js'
+
+const MINUTE = 60 * 1000
+
+export type GeneratorTalk = {
+  participationId: number
+  talkTitle: string
+  participationType: string
+  durationMinutes: number
+  scientistId: number
+  keywords: string[]
+}
+
+export type GeneratorRoom = {
+  id: number
+  name: string
+}
+
+export type GeneratorOptions = {
+  days: Interval[]
+  sessionMinutes: number
+  breakMinutes: number
+  similarityThreshold: number
+}
+
+export type DraftSession = {
+  title: string
+  participationType: string
+  roomId: number
+  startsAt: Date
+  endsAt: Date
+  talks: Array<{ participationId: number; startsAt: Date; endsAt: Date }>
+}
+
+export type UnplacedTalk = {
+  participationId: number
+  talkTitle: string
+  reason: string
+}
+
+type Cluster = {
+  participationType: string
+  talks: GeneratorTalk[]
+  keywords: Map<string, number>
+  minutes: number
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'is', 'of', 'on', 'or',
+  'the', 'to', 'with', 'via', 'using', 'towards', 'new', 'future', 'advances', 'trends'
+])
+
+export function extractKeywords(...texts: Array<string | null | undefined>) {
+  const words = texts
+    .filter((text): text is string => Boolean(text))
+    .flatMap((text) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u))
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+
+  return [...new Set(words)]
+}
+
+function similarity(keywords: string[], cluster: Map<string, number>) {
+  if (keywords.length === 0 || cluster.size === 0) return 0
+  const shared = keywords.filter((word) => cluster.has(word)).length
+  return shared / (keywords.length + cluster.size - shared)
+}
+
+function addTalk(cluster: Cluster, talk: GeneratorTalk) {
+  cluster.talks.push(talk)
+  cluster.minutes += talk.durationMinutes
+  for (const word of talk.keywords) {
+    cluster.keywords.set(word, (cluster.keywords.get(word) ?? 0) + 1)
+  }
+}
+
+function bestFit(clusters: Cluster[], keywords: string[], minutes: number, sessionMinutes: number, exclude?: Cluster) {
+  let best: Cluster | undefined
+  let bestScore = -1
+
+  for (const cluster of clusters) {
+    if (cluster === exclude || cluster.minutes + minutes > sessionMinutes) continue
+    const score = similarity(keywords, cluster.keywords)
+    if (score > bestScore) {
+      best = cluster
+      bestScore = score
+    }
+  }
+
+  return { best, bestScore }
+}
+
+// Groups talks of the same participationType into sessions of similar topics
+function clusterTalks(talks: GeneratorTalk[], options: GeneratorOptions) {
+  const byType = new Map<string, GeneratorTalk[]>()
+  for (const talk of talks) {
+    const group = byType.get(talk.participationType) ?? []
+    group.push(talk)
+    byType.set(talk.participationType, group)
+  }
+
+  const clusters: Cluster[] = []
+
+  for (const [participationType, group] of byType) {
+    let typeClusters: Cluster[] = []
+    const sorted = [...group].sort((a, b) => b.durationMinutes - a.durationMinutes || a.participationId - b.participationId)
+
+    for (const talk of sorted) {
+      const { best, bestScore } = bestFit(typeClusters, talk.keywords, talk.durationMinutes, options.sessionMinutes)
+
+      if (best && (bestScore >= options.similarityThreshold || talk.keywords.length === 0)) {
+        addTalk(best, talk)
+      } else {
+        const cluster: Cluster = { participationType, talks: [], keywords: new Map(), minutes: 0 }
+        addTalk(cluster, talk)
+        typeClusters.push(cluster)
+      }
+    }
+
+    // Merge undersized sessions so that unrelated talks do not each occupy a room on their own
+    for (const small of [...typeClusters].sort((a, b) => a.minutes - b.minutes)) {
+      if (small.minutes * 2 > options.sessionMinutes || !typeClusters.includes(small)) continue
+
+      const { best } = bestFit(typeClusters, [...small.keywords.keys()], small.minutes, options.sessionMinutes, small)
+      if (!best) continue
+
+      for (const talk of small.talks) addTalk(best, talk)
+      typeClusters = typeClusters.filter((cluster) => cluster !== small)
+    }
+
+    clusters.push(...typeClusters)
+  }
+
+  return clusters
+}
+
+function sessionTitle(cluster: Cluster) {
+  const top = [...cluster.keywords.entries()]
+    .filter(([, count]) => count > 1 || cluster.talks.length === 1)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 3)
+    .map(([word]) => word[0].toUpperCase() + word.slice(1))
+
+  return top.length > 0 ? `${cluster.participationType}: ${top.join(', ')}` : cluster.participationType
+}
+
+type Busy = Map<number, Interval[]>
+
+function isFree(busy: Busy, key: number, interval: Interval) {
+  return !(busy.get(key) ?? []).some((other) => overlaps(other, interval))
+}
+
+function markBusy(busy: Busy, key: number, interval: Interval) {
+  const list = busy.get(key) ?? []
+  list.push(interval)
+  busy.set(key, list)
+}
+
+/**
+ * Builds a draft schedule. Sessions start on a grid of sessionMinutes + breakMinutes from the
+ * start of each day, are placed in the first free room, and never run in parallel with another
+ * session of one of their speakers.
+ */
+export function generateProgram(
+  talks: GeneratorTalk[],
+  rooms: GeneratorRoom[],
+  busyRooms: Busy,
+  busyScientists: Busy,
+  options: GeneratorOptions
+) {
+  const sessions: DraftSession[] = []
+  const unplaced: UnplacedTalk[] = []
+
+  if (rooms.length === 0) {
+    return {
+      sessions,
+      unplaced: talks.map((talk) => ({
+        participationId: talk.participationId,
+        talkTitle: talk.talkTitle,
+        reason: 'The conference has no rooms'
+      }))
+    }
+  }
+
+  const longestDay = Math.max(0, ...options.days.map((day) => (day.endsAt.getTime() - day.startsAt.getTime()) / MINUTE))
+  const placeable: GeneratorTalk[] = []
+  for (const talk of talks) {
+    if (talk.durationMinutes > longestDay) {
+      unplaced.push({
+        participationId: talk.participationId,
+        talkTitle: talk.talkTitle,
+        reason: `Talk needs ${talk.durationMinutes} minutes but a conference day has only ${longestDay} minutes`
+      })
+    } else {
+      placeable.push(talk)
+    }
+  }
+
+  const step = (options.sessionMinutes + options.breakMinutes) * MINUTE
+  const clusters = clusterTalks(placeable, options).sort((a, b) => b.minutes - a.minutes)
+
+  const tryPlace = (cluster: Cluster) => {
+    const minutes = Math.max(cluster.minutes, 1)
+    let roomAvailable = false
+
+    for (const day of options.days) {
+      for (let start = day.startsAt.getTime(); start + minutes * MINUTE <= day.endsAt.getTime(); start += step) {
+        const interval = { startsAt: new Date(start), endsAt: new Date(start + minutes * MINUTE) }
+        const room = rooms.find((r) => isFree(busyRooms, r.id, interval))
+        if (!room) continue
+        roomAvailable = true
+
+        if (!cluster.talks.every((talk) => isFree(busyScientists, talk.scientistId, interval))) continue
+
+        let cursor = start
+        const placed = cluster.talks.map((talk) => {
+          const slot = {
+            participationId: talk.participationId,
+            startsAt: new Date(cursor),
+            endsAt: new Date(cursor + talk.durationMinutes * MINUTE)
+          }
+          cursor = slot.endsAt.getTime()
+          return slot
+        })
+
+        markBusy(busyRooms, room.id, interval)
+        for (const talk of cluster.talks) markBusy(busyScientists, talk.scientistId, interval)
+
+        sessions.push({
+          title: sessionTitle(cluster),
+          participationType: cluster.participationType,
+          roomId: room.id,
+          ...interval,
+          talks: placed
+        })
+        return null
+      }
+    }
+
+    return roomAvailable
+      ? 'Every free room time overlaps another session of the same speaker'
+      : `No room has ${minutes} free minutes left on any conference day`
+  }
+
+  for (const cluster of clusters) {
+    if (tryPlace(cluster) === null) continue
+
+    // Retry the talks one by one before giving up on them
+    for (const talk of cluster.talks) {
+      const single: Cluster = {
+        participationType: cluster.participationType,
+        talks: [talk],
+        keywords: new Map(talk.keywords.map((word) => [word, 1])),
+        minutes: talk.durationMinutes
+      }
+      const reason = tryPlace(single)
+      if (reason) {
+        unplaced.push({ participationId: talk.participationId, talkTitle: talk.talkTitle, reason })
+      }
+    }
+  }
+
+  sessions.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.roomId - b.roomId)
+
+  return { sessions, unplaced }
+}
@@ -0,0 +1,176 @@
+import { Prisma, type ParticipationStatus } from '@prisma/client'
+import { z } from '@hono/zod-openapi'
+import { extractKeywords } from './program-generator.js'
+import { matches, sameText } from './reviewer-assignment.js'
+
+type Tx = Prisma.TransactionClient
+
+// Weights of the score components; they add up to 1
+export const RECOMMENDATION_WEIGHTS = {
+  specialization: 0.5,
+  history: 0.35,
+  country: 0.15
+} as const
+
+// Participations that do not say anything about the interests of the scientist
+export const IGNORED_STATUSES: ParticipationStatus[] = ['cancelled', 'withdrawn']
+
+// Most candidates scored for one conference; the ones with the most topic keyword hits are kept
+export const MAX_RECOMMENDATION_CANDIDATES = 1000
+
+export type RecommendationProfile = {
+  specialization: string
+  country: string
+  // Topics and countries of conferences the scientist took part in before
+  pastConferences: Array<{ topic: string; country: string }>
+}
+
+export type RecommendationTarget = {
+  topic: string
+  country: string
+}
+
+export const ScoreBreakdownSchema = z.object({
+  total: z.number().openapi({ description: 'Weighted sum of the components, 0–1', example: 0.62 }),
+  specialization: z.object({
+    score: z.number(),
+    weight: z.number(),
+    matched: z.array(z.string()).openapi({ description: 'Topic keywords found in the specialization' })
+  }),
+  history: z.object({
+    score: z.number(),
+    weight: z.number(),
+    matchedTopics: z.array(z.string()).openapi({ description: 'Topics of earlier conferences that match' })
+  }),
+  country: z.object({
+    score: z.number(),
+    weight: z.number(),
+    reason: z.enum(['home', 'visited', 'none'])
+  }),
+  reasons: z.array(z.string())
+}).openapi('RecommendationScore')
+
+export type ScoreBreakdown = z.infer<typeof ScoreBreakdownSchema>
+
+function round(value: number) {
+  return Math.round(value * 100) / 100
+}
+
+function topicMatch(topic: string, other: string) {
+  const wanted = extractKeywords(topic)
+  if (wanted.length === 0) return { score: 0, matched: [] as string[] }
+  const words = extractKeywords(other)
+  const matched = wanted.filter((word) => matches(word, words))
+  return { score: matched.length / wanted.length, matched }
+}
+
+/**
+ * Text that a specialization or an earlier topic must contain to match the topic
+ * at all, for narrowing the candidates in SQL before scoring. Words match when
+ * equal or when one is a prefix of the other of at least 5 letters, so every
+ * matching text contains one of these keyword prefixes.
+ */
+export function topicStems(topic: string) {
+  return [...new Set(extractKeywords(topic).map((word) => word.slice(0, 5)))]
+}
+
+/**
+ * IDs of the scientists to score for a conference: those not taking part in it
+ * whose specialization or earlier topics contain a stem of its topic. The
+ * limit keeps the ones SQL estimates best, from the share of stems in the
+ * specialization and of earlier conferences with a stem in their topic,
+ * weighted like the score; the h-index breaks ties.
+ */
+export async function recommendationCandidates(
+  tx: Tx,
+  conference: { id: number; topic: string; country: string },
+  options: { minHIndex?: number; before: Date }
+) {
+  const stems = topicStems(conference.topic)
+  if (stems.length === 0) return []
+
+  // Stems are letters and digits only, so they need no escaping in ILIKE patterns
+  const rows = await tx.$queryRaw<Array<{ id: number }>>`
+    WITH stems AS (SELECT unnest(${stems}::text[]) AS stem),
+    past AS (
+      SELECT p."scientistId",
+             EXISTS (SELECT 1 FROM stems WHERE c.topic ILIKE '%' || stem || '%') AS matching
+      FROM "Participation" p
+      JOIN "Conference" c ON c.id = p."conferenceId"
+      WHERE p."deletedAt" IS NULL
+        AND p.status::text NOT IN (${Prisma.join(IGNORED_STATUSES)})
+        AND c.date < ${options.before}
+    )
+    SELECT s.id
+    FROM "Scientist" s
+    LEFT JOIN LATERAL (
+      SELECT count(*) FILTER (WHERE matching) AS matching, count(*) AS total FROM past WHERE past."scientistId" = s.id
+    ) history ON true
+    CROSS JOIN LATERAL (
+      SELECT count(*) AS hits FROM stems WHERE s.specialization ILIKE '%' || stem || '%'
+    ) specialization
+    WHERE s."deletedAt" IS NULL
+      AND s."hIndex" >= ${options.minHIndex ?? 0}
+      AND NOT EXISTS (
+        SELECT 1 FROM "Participation" p WHERE p."scientistId" = s.id AND p."conferenceId" = ${conference.id} AND p."deletedAt" IS NULL
+      )
+      AND (specialization.hits > 0 OR history.matching > 0)
+    ORDER BY ${RECOMMENDATION_WEIGHTS.specialization}::float * specialization.hits / ${stems.length}::int
+           + ${RECOMMENDATION_WEIGHTS.history}::float * history.matching / greatest(history.total, 1)
+           + ${RECOMMENDATION_WEIGHTS.country}::float * (lower(s.country) = lower(${conference.country}))::int DESC,
+             s."hIndex" DESC, s.id
+    LIMIT ${MAX_RECOMMENDATION_CANDIDATES}
+  `
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Scores how well a conference suits a scientist (0–1), with the parts that make
+ * up the score: the share of topic keywords covered by the specialization, the
+ * share of earlier conferences with a matching topic, and whether the conference
+ * is in the scientist's country (1) or a country they went to before (0.5).
+ */
+export function scoreRecommendation(profile: RecommendationProfile, target: RecommendationTarget): ScoreBreakdown {
+  const specialization = topicMatch(target.topic, profile.specialization)
+
+  const matchedTopics = profile.pastConferences
+    .filter((conference) => topicMatch(target.topic, conference.topic).score > 0)
+    .map((conference) => conference.topic)
+  const history = profile.pastConferences.length > 0 ? matchedTopics.length / profile.pastConferences.length : 0
+
+  const countryReason = sameText(profile.country, target.country)
+    ? 'home'
+    : profile.pastConferences.some((conference) => sameText(conference.country, target.country)) ? 'visited' : 'none'
+  const country = { home: 1, visited: 0.5, none: 0 }[countryReason]
+
+  const reasons: string[] = []
+  if (specialization.matched.length > 0) {
+    reasons.push(`Specialization '${profile.specialization}' matches ${specialization.matched.join(', ')}`)
+  }
+  if (matchedTopics.length > 0) {
+    reasons.push(`${matchedTopics.length} of ${profile.pastConferences.length} earlier conferences had a matching topic`)
+  }
+  if (countryReason === 'home') reasons.push(`Takes place in ${target.country}, the scientist's country`)
+  if (countryReason === 'visited') reasons.push(`The scientist attended conferences in ${target.country} before`)
+
+  const weights = RECOMMENDATION_WEIGHTS
+  return {
+    total: round(weights.specialization * specialization.score + weights.history * history + weights.country * country),
+    specialization: { score: round(specialization.score), weight: weights.specialization, matched: specialization.matched },
+    history: { score: round(history), weight: weights.history, matchedTopics: [...new Set(matchedTopics)] },
+    country: { score: country, weight: weights.country, reason: countryReason },
+    reasons
+  }
+}
+
+/**
+ * Ranks candidates by score, best first, leaving out those that match on country
+ * alone: a shared country is a preference, not a reason to recommend.
+ */
+export function rankRecommendations<T>(candidates: T[], score: (candidate: T) => ScoreBreakdown, limit: number) {
+  return candidates
+    .map((candidate) => ({ candidate, score: score(candidate) }))
+    .filter(({ score }) => score.specialization.score > 0 || score.history.score > 0)
+    .sort((a, b) => b.score.total - a.score.total)
+    .slice(0, limit)
+}
@@ -0,0 +1,223 @@
+import { extractKeywords } from './program-generator.js'
+
+export type AssignmentScientist = {
+  id: number
+  fullName: string
+  country: string
+  organization: string
+  specialization: string
+  // Conferences the scientist presented at
+  conferences: Map<number, string>
+}
+
+export type AssignmentSubmission = {
+  id: number
+  title: string
+  abstract: string
+  author: AssignmentScientist
+  // Reviewers already assigned to the submission
+  assigned: number[]
+}
+
+export type AssignmentReviewer = {
+  userId: number
+  scientist: AssignmentScientist | null
+  load: number
+}
+
+export type AssignmentOptions = {
+  reviewersPerSubmission: number
+  maxPerReviewer?: number
+}
+
+export type AssignedReviewer = {
+  reviewerId: number
+  scientistId: number
+  fullName: string
+  specialization: string
+  matchScore: number
+  reasons: string[]
+}
+
+export type ExcludedReviewer = {
+  reviewerId: number
+  scientistId: number | null
+  fullName: string | null
+  reasons: string[]
+}
+
+export type SubmissionAssignment = {
+  submissionId: number
+  title: string
+  assigned: AssignedReviewer[]
+  alreadyAssigned: number[]
+  excluded: ExcludedReviewer[]
+  unfilled: number
+}
+
+// Share of the match score that comes from the submission text; the rest comes from the conference topic
+const TEXT_WEIGHT = 0.7
+
+export function sameText(a: string, b: string) {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+// Words match when equal or when one is a prefix of the other, so that "learning" matches "learn"
+export function matches(word: string, keywords: string[]) {
+  return keywords.some((keyword) => keyword === word ||
+    (Math.min(keyword.length, word.length) >= 5 && (keyword.startsWith(word) || word.startsWith(keyword))))
+}
+
+/**
+ * How well a reviewer's specialization covers a submission (0–1): the share of
+ * specialization keywords found in the title and abstract, blended with the
+ * share found in the conference topic.
+ */
+export function specializationMatch(specialization: string, submission: { title: string; abstract: string }, topic: string) {
+  const wanted = extractKeywords(specialization)
+  if (wanted.length === 0) return { score: 0, matched: [] as string[] }
+
+  const text = extractKeywords(submission.title, submission.abstract)
+  const topicWords = extractKeywords(topic)
+  const inText = wanted.filter((word) => matches(word, text))
+  const inTopic = wanted.filter((word) => matches(word, topicWords))
+
+  const score = TEXT_WEIGHT * (inText.length / wanted.length) + (1 - TEXT_WEIGHT) * (inTopic.length / wanted.length)
+
+  return {
+    score: Math.round(score * 100) / 100,
+    matched: [...new Set([...inText, ...inTopic])]
+  }
+}
+
+/**
+ * Conflict-of-interest reasons that rule a reviewer out for an author: the
+ * author themself, the same organization or country, or a conference at which
+ * both presented.
+ */
+export function conflictsOfInterest(reviewer: AssignmentScientist, author: AssignmentScientist) {
+  if (reviewer.id === author.id) return ['Reviewer is the author']
+
+  const reasons: string[] = []
+  if (sameText(reviewer.organization, author.organization)) {
+    reasons.push(`Same organization as the author (${author.organization})`)
+  }
+  if (sameText(reviewer.country, author.country)) {
+    reasons.push(`Same country as the author (${author.country})`)
+  }
+  for (const [conferenceId, name] of reviewer.conferences) {
+    if (author.conferences.has(conferenceId)) {
+      reasons.push(`Co-presented with the author at '${name}' (conference ${conferenceId})`)
+    }
+  }
+
+  return reasons
+}
+
+/**
+ * Assigns reviewers to submissions. Submissions with the fewest eligible reviewers
+ * are served first; each takes the best-matching reviewers below the load limit,
+ * preferring the less loaded ones on equal match. The default limit spreads the
+ * needed reviews evenly over the eligible reviewers.
+ */
+export function planAssignments(
+  submissions: AssignmentSubmission[],
+  reviewers: AssignmentReviewer[],
+  topic: string,
+  options: AssignmentOptions
+) {
+  const load = new Map(reviewers.map((reviewer) => [reviewer.userId, reviewer.load]))
+  const profiled = reviewers.filter((reviewer) => reviewer.scientist !== null)
+
+  const needed = submissions.reduce(
+    (sum, submission) => sum + Math.max(options.reviewersPerSubmission - submission.assigned.length, 0), 0)
+  const existing = reviewers.reduce((sum, reviewer) => sum + reviewer.load, 0)
+  const maxPerReviewer = options.maxPerReviewer ??
+    Math.max(Math.ceil((needed + existing) / Math.max(profiled.length, 1)), 1)
+
+  const candidates = new Map(submissions.map((submission) => [submission.id, reviewers.map((reviewer) => {
+    if (!reviewer.scientist) {
+      return { reviewer, conflicts: ['User has no scientist profile to match a specialization against'], score: 0, matched: [] as string[] }
+    }
+    if (submission.assigned.includes(reviewer.userId)) {
+      return { reviewer, conflicts: ['Already assigned to this submission'], score: 0, matched: [] as string[] }
+    }
+    return {
+      reviewer,
+      conflicts: conflictsOfInterest(reviewer.scientist, submission.author),
+      ...specializationMatch(reviewer.scientist.specialization, submission, topic)
+    }
+  })]))
+
+  const eligibleCount = (submission: AssignmentSubmission) =>
+    candidates.get(submission.id)!.filter((candidate) => candidate.conflicts.length === 0).length
+
+  const order = [...submissions].sort((a, b) => eligibleCount(a) - eligibleCount(b) || a.id - b.id)
+  const results = new Map<number, SubmissionAssignment>()
+
+  for (const submission of order) {
+    const wanted = Math.max(options.reviewersPerSubmission - submission.assigned.length, 0)
+    const ranked = [...candidates.get(submission.id)!].sort((a, b) =>
+      b.score - a.score || load.get(a.reviewer.userId)! - load.get(b.reviewer.userId)! || a.reviewer.userId - b.reviewer.userId)
+
+    const assigned: AssignedReviewer[] = []
+    const excluded: ExcludedReviewer[] = []
+
+    for (const candidate of ranked) {
+      const { reviewer } = candidate
+      const scientist = reviewer.scientist
+      const current = load.get(reviewer.userId)!
+      const reasons = [...candidate.conflicts]
+
+      if (reasons.length === 0 && assigned.length < wanted && current < maxPerReviewer && scientist) {
+        load.set(reviewer.userId, current + 1)
+        assigned.push({
+          reviewerId: reviewer.userId,
+          scientistId: scientist.id,
+          fullName: scientist.fullName,
+          specialization: scientist.specialization,
+          matchScore: candidate.score,
+          reasons: [
+            candidate.matched.length > 0
+              ? `Specialization '${scientist.specialization}' matches ${candidate.matched.map((word) => `'${word}'`).join(', ')} (score ${candidate.score})`
+              : `No specialization keyword matches the submission; chosen to reach ${options.reviewersPerSubmission} reviewers`,
+            `Reviewer load ${current + 1} of ${maxPerReviewer}`,
+            'No conflict of interest with the author'
+          ]
+        })
+        continue
+      }
+
+      if (reasons.length === 0) {
+        if (wanted === 0) {
+          reasons.push(`Submission already has ${submission.assigned.length} reviewers`)
+        } else if (current >= maxPerReviewer) {
+          reasons.push(`Already assigned ${current} submissions (limit ${maxPerReviewer})`)
+        } else {
+          reasons.push(`Lower specialization match (score ${candidate.score}) than the chosen reviewers`)
+        }
+      }
+
+      excluded.push({
+        reviewerId: reviewer.userId,
+        scientistId: scientist?.id ?? null,
+        fullName: scientist?.fullName ?? null,
+        reasons
+      })
+    }
+
+    results.set(submission.id, {
+      submissionId: submission.id,
+      title: submission.title,
+      assigned,
+      alreadyAssigned: submission.assigned,
+      excluded,
+      unfilled: wanted - assigned.length
+    })
+  }
+
+  return {
+    maxPerReviewer,
+    submissions: submissions.map((submission) => results.get(submission.id)!)
+  }
+}
@@ -0,0 +1,218 @@
+import type { Prisma } from '@prisma/client'
+import { holdsSeat } from './waitlist.js'
+
+type Tx = Prisma.TransactionClient
+
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+export class ScheduleError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409 = 409) {
+    super(message)
+    this.name = 'ScheduleError'
+  }
+}
+
+export type Interval = { startsAt: Date; endsAt: Date }
+
+export function overlaps(a: Interval, b: Interval) {
+  return a.startsAt < b.endsAt && b.startsAt < a.endsAt
+}
+
+export function minutesBetween(startsAt: Date, endsAt: Date) {
+  return Math.round((endsAt.getTime() - startsAt.getTime()) / MINUTE)
+}
+
+export function dayKey(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+// Conference days run from the start of `date` to the end of `endDate` (or `date` for one-day events), in UTC
+export function conferenceWindow(conference: { date: Date; endDate: Date | null }) {
+  const start = new Date(dayKey(conference.date))
+  const end = new Date(new Date(dayKey(conference.endDate ?? conference.date)).getTime() + DAY)
+  return { startsAt: start, endsAt: end }
+}
+
+// How far the wall clock in timeZone is ahead of UTC at the instant, in milliseconds
+function zoneOffset(instant: number, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(instant).map((part) => [part.type, Number(part.value)])
+  )
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * The instant at which the clock in timeZone shows time (HH:MM) on the UTC
+ * date of day. Times skipped by a daylight saving change resolve to the
+ * offset before the change.
+ */
+export function atLocalTime(day: Date, time: string, timeZone: string) {
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClock = new Date(dayKey(day)).setUTCHours(hours, minutes, 0, 0)
+  const guess = wallClock - zoneOffset(wallClock, timeZone)
+  // The offset at the guess differs when a daylight saving change lies between it and the wall clock time
+  return new Date(wallClock - zoneOffset(guess, timeZone))
+}
+
+function assertInterval({ startsAt, endsAt }: Interval) {
+  if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) {
+    throw new ScheduleError('Invalid start or end time', 400)
+  }
+  if (endsAt <= startsAt) {
+    throw new ScheduleError('End time must be after start time', 400)
+  }
+}
+
+function describe({ startsAt, endsAt }: Interval) {
+  return `${startsAt.toISOString()}–${endsAt.toISOString()}`
+}
+
+/**
+ * Checks that a session lies within the conference dates and does not overlap
+ * another session in the same room.
+ */
+export async function assertSessionFits(
+  tx: Tx,
+  conference: { id: number; date: Date; endDate: Date | null },
+  session: Interval & { roomId: number },
+  excludeSessionId?: number
+) {
+  assertInterval(session)
+
+  const window = conferenceWindow(conference)
+  if (session.startsAt < window.startsAt || session.endsAt > window.endsAt) {
+    throw new ScheduleError(`Session must take place between ${describe(window)}`, 400)
+  }
+
+  const room = await tx.room.findUnique({ where: { id: session.roomId } })
+  if (!room || room.conferenceId !== conference.id) {
+    throw new ScheduleError('Room not found in this conference', 400)
+  }
+
+  const clash = await tx.session.findFirst({
+    where: {
+      roomId: session.roomId,
+      startsAt: { lt: session.endsAt },
+      endsAt: { gt: session.startsAt },
+      ...(excludeSessionId && { id: { not: excludeSessionId } })
+    }
+  })
+
+  if (clash) {
+    throw new ScheduleError(
+      `Room '${room.name}' is already used by session '${clash.title}' (${describe(clash)})`
+    )
+  }
+
+  if (excludeSessionId) {
+    const outside = await tx.timeSlot.findFirst({
+      where: {
+        sessionId: excludeSessionId,
+        OR: [{ startsAt: { lt: session.startsAt } }, { endsAt: { gt: session.endsAt } }]
+      }
+    })
+
+    if (outside) {
+      throw new ScheduleError(`Time slot ${outside.id} (${describe(outside)}) would fall outside the session`)
+    }
+  }
+}
+
+/**
+ * Checks that a slot lies within its session, does not overlap another slot in
+ * the same room and is long enough for the assigned talk.
+ */
+export async function assertSlotFits(
+  tx: Tx,
+  session: Interval & { id: number; conferenceId: number; roomId: number },
+  slot: Interval & { participationId: number | null },
+  excludeSlotId?: number
+) {
+  assertInterval(slot)
+
+  if (slot.startsAt < session.startsAt || slot.endsAt > session.endsAt) {
+    throw new ScheduleError(`Time slot must lie within its session (${describe(session)})`, 400)
+  }
+
+  const clash = await tx.timeSlot.findFirst({
+    where: {
+      session: { roomId: session.roomId },
+      startsAt: { lt: slot.endsAt },
+      endsAt: { gt: slot.startsAt },
+      ...(excludeSlotId && { id: { not: excludeSlotId } })
+    }
+  })
+
+  if (clash) {
+    throw new ScheduleError(`Time slot overlaps slot ${clash.id} (${describe(clash)}) in the same room`)
+  }
+
+  if (slot.participationId === null) return
+
+  const participation = await tx.participation.findUnique({
+    where: { id: slot.participationId },
+    include: { slot: true }
+  })
+
+  if (!participation || participation.conferenceId !== session.conferenceId) {
+    throw new ScheduleError('Participation not found in this conference', 400)
+  }
+
+  if (!holdsSeat(participation.status)) {
+    throw new ScheduleError(`Participation with status '${participation.status}' cannot be scheduled`)
+  }
+
+  if (participation.slot && participation.slot.id !== excludeSlotId) {
+    throw new ScheduleError(`Participation is already scheduled in time slot ${participation.slot.id}`)
+  }
+
+  const minutes = minutesBetween(slot.startsAt, slot.endsAt)
+  if (minutes < participation.durationMinutes) {
+    throw new ScheduleError(
+      `Time slot is ${minutes} minutes but the talk '${participation.talkTitle}' needs ${participation.durationMinutes} minutes`
+    )
+  }
+}
+
+// Frees the time slots of talks that were cancelled, withdrawn or moved to another conference
+export async function unscheduleParticipations(tx: Tx, participationIds: number[]) {
+  if (participationIds.length === 0) return
+
+  await tx.timeSlot.updateMany({
+    where: { participationId: { in: participationIds } },
+    data: { participationId: null }
+  })
+}
+
+// Bumps updatedAt of the talks in these time slots before the slots go away or are hidden,
+// so that their calendar events, which fall back to the conference dates, get a higher SEQUENCE
+export async function touchScheduledTalks(tx: Tx, slots: Prisma.TimeSlotWhereInput) {
+  await tx.participation.updateMany({
+    where: { slot: { is: slots } },
+    data: { updatedAt: new Date() }
+  })
+}
+
+// Rejects a new talk duration that no longer fits the slot the talk is scheduled in
+export async function assertDurationFitsSlot(tx: Tx, participationId: number, durationMinutes: number) {
+  const slot = await tx.timeSlot.findUnique({ where: { participationId } })
+  if (!slot) return
+
+  const minutes = minutesBetween(slot.startsAt, slot.endsAt)
+  if (minutes < durationMinutes) {
+    throw new ScheduleError(
+      `Talk is scheduled in a ${minutes} minute time slot (${slot.id}); unschedule it before extending it to ${durationMinutes} minutes`
+    )
+  }
+}
@@ -0,0 +1,145 @@
+import { Prisma } from '@prisma/client'
+import { z } from '@hono/zod-openapi'
+
+type Tx = Prisma.TransactionClient
+
+export const SEARCH_TYPES = ['scientist', 'conference', 'participation'] as const
+export type SearchType = (typeof SEARCH_TYPES)[number]
+
+// Minimum pg_trgm word similarity for a misspelled word to match, e.g. "Lovlace" and "Lovelace"
+const FUZZY_THRESHOLD = 0.4
+
+// Weight of the trigram similarity next to the full-text rank, which is normalized to 0–1
+const FUZZY_WEIGHT = 0.5
+
+const MAX_TERMS = 10
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=18, MinWords=6, FragmentDelimiter=" … "'
+
+export const SearchHitSchema = z.object({
+  type: z.enum(SEARCH_TYPES),
+  id: z.number().int().positive(),
+  title: z.string(),
+  subtitle: z.string(),
+  score: z.number().openapi({ description: 'Relevance; full-text rank plus half the trigram similarity' }),
+  snippet: z.string().openapi({
+    description: 'HTML-escaped text with matched words in <mark> tags',
+    example: 'Ada <mark>Lovelace</mark> · Analytical Society'
+  }),
+  matchedBy: z.enum(['text', 'fuzzy']).openapi({ description: 'fuzzy when only the typo-tolerant match found it' })
+}).openapi('SearchHit')
+
+export type SearchHit = z.infer<typeof SearchHitSchema>
+
+/**
+ * Prefix query over the words of q: every word must match, the last one may be
+ * incomplete. Only letters and digits are kept, so q cannot inject tsquery syntax.
+ */
+export function searchTerms(q: string) {
+  return q.split(/[^\p{L}\p{N}]+/u).filter(Boolean).slice(0, MAX_TERMS)
+}
+
+function tsquery(terms: string[]) {
+  return terms.map((term) => `${term}:*`).join(' & ')
+}
+
+// ts_headline keeps the text as it is, so HTML is escaped first; the text search parser skips the entities
+function escaped(text: Prisma.Sql) {
+  return Prisma.sql`replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`
+}
+
+/**
+ * One SELECT per entity type, each yielding type, id, title, subtitle, snippet
+ * source, full-text rank and trigram similarity for the live rows that match.
+ */
+function hits(q: string, query: string) {
+  const rank = (vector: Prisma.Sql) => Prisma.sql`ts_rank_cd(${vector}, to_tsquery('english', ${query}), 32)`
+  const fuzzy = (...columns: Prisma.Sql[]) => ({
+    similarity: Prisma.sql`greatest(${Prisma.join(columns.map((column) => Prisma.sql`word_similarity(${q}, ${column})`))})`,
+    matches: Prisma.join(columns.map((column) => Prisma.sql`${q} <% ${column}`), ' OR ')
+  })
+
+  const scientist = fuzzy(Prisma.sql`s."fullName"`, Prisma.sql`s.organization`, Prisma.sql`s.specialization`)
+  const conference = fuzzy(Prisma.sql`c.name`, Prisma.sql`c.topic`)
+  const talk = fuzzy(Prisma.sql`p."talkTitle"`)
+
+  return Prisma.sql`
+    SELECT 'scientist' AS type, s.id, s."fullName" AS title,
+           s.organization || ' · ' || s.specialization AS subtitle,
+           s."fullName" || ' · ' || s.organization || ' · ' || s.specialization AS body,
+           ${rank(Prisma.sql`s."searchVector"`)} AS rank, ${scientist.similarity} AS similarity
+    FROM "Scientist" s
+    WHERE s."deletedAt" IS NULL
+      AND (s."searchVector" @@ to_tsquery('english', ${query}) OR ${scientist.matches})
+    UNION ALL
+    SELECT 'conference', c.id, c.name,
+           c.topic || ' · ' || c.location || ', ' || c.country || ' · ' || to_char(c.date, 'YYYY-MM-DD'),
+           c.name || ' · ' || c.topic || ' · ' || c.location,
+           ${rank(Prisma.sql`c."searchVector"`)}, ${conference.similarity}
+    FROM "Conference" c
+    WHERE c."deletedAt" IS NULL
+      AND (c."searchVector" @@ to_tsquery('english', ${query}) OR ${conference.matches})
+    UNION ALL
+    SELECT 'participation', p.id, p."talkTitle",
+           ps."fullName" || ' · ' || pc.name,
+           p."talkTitle" || coalesce(' · ' || (
+             SELECT string_agg(value #>> '{}', ' ')
+             FROM jsonb_path_query(coalesce(p.metadata, '{}'::jsonb), 'strict $.** ? (@.type() == "string")') value
+           ), ''),
+           ${rank(Prisma.sql`p."searchVector"`)}, ${talk.similarity}
+    FROM "Participation" p
+    JOIN "Scientist" ps ON ps.id = p."scientistId"
+    JOIN "Conference" pc ON pc.id = p."conferenceId"
+    WHERE p."deletedAt" IS NULL
+      AND (p."searchVector" @@ to_tsquery('english', ${query}) OR ${talk.matches})
+  `
+}
+
+/**
+ * Ranked search across scientists, conferences and talks. Words are matched by
+ * full text with stemming and prefixes; misspelled words still match by trigram
+ * similarity. Facets count the matches of every type, also of types left out.
+ */
+export async function search(
+  tx: Tx,
+  q: string,
+  options: { types: readonly SearchType[]; limit: number; offset: number }
+) {
+  const facets = Object.fromEntries(SEARCH_TYPES.map((type) => [type, 0])) as Record<SearchType, number>
+  const terms = searchTerms(q)
+  if (terms.length === 0) return { data: [] as SearchHit[], facets }
+
+  // <% uses this threshold and can use the trigram indexes; SET LOCAL ends with the transaction
+  await tx.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_THRESHOLD)}, true)`
+
+  const query = tsquery(terms)
+  const matches = hits(q, query)
+  const [rows, counts] = await Promise.all([
+    tx.$queryRaw<Array<{ type: SearchType; id: number; title: string; subtitle: string; snippet: string; rank: number; similarity: number }>>`
+      SELECT type, id, title, subtitle, rank::float8 AS rank, similarity::float8 AS similarity,
+             ts_headline('english', ${escaped(Prisma.sql`body`)}, to_tsquery('english', ${query}), ${HEADLINE_OPTIONS}) AS snippet
+      FROM (${matches}) hits
+      WHERE type IN (${Prisma.join(options.types)})
+      ORDER BY rank + ${FUZZY_WEIGHT} * similarity DESC, type, id
+      LIMIT ${options.limit} OFFSET ${options.offset}
+    `,
+    tx.$queryRaw<Array<{ type: SearchType; total: number }>>`
+      SELECT type, count(*)::int AS total FROM (${matches}) hits GROUP BY type
+    `
+  ])
+
+  for (const { type, total } of counts) facets[type] = total
+
+  return {
+    data: rows.map((row): SearchHit => ({
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      subtitle: row.subtitle,
+      score: Math.round((row.rank + FUZZY_WEIGHT * row.similarity) * 1000) / 1000,
+      snippet: row.snippet,
+      matchedBy: row.rank > 0 ? 'text' : 'fuzzy'
+    })),
+    facets
+  }
+}
@@ -0,0 +1,56 @@
+import { Prisma } from '@prisma/client'
+
+// Models whose rows are soft-deleted by setting deletedAt
+const SOFT_DELETE_MODELS: string[] = ['Scientist', 'Conference', 'Participation']
+
+// Operations that skip soft-deleted rows unless the where clause mentions deletedAt
+const FILTERED_OPERATIONS: string[] = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany'
+]
+
+export const DELETED_FILTERS = ['exclude', 'include', 'only'] as const
+export type DeletedFilter = typeof DELETED_FILTERS[number]
+
+/**
+ * Hides soft-deleted scientists, conferences and participations from top-level
+ * queries. A where clause that sets deletedAt itself, e.g. via deletedWhere(),
+ * is left alone. Relation filters and nested includes are not covered and must
+ * filter on deletedAt explicitly; raw SQL likewise.
+ */
+export const softDelete = Prisma.defineExtension({
+  name: 'soft-delete',
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        if (SOFT_DELETE_MODELS.includes(model) && FILTERED_OPERATIONS.includes(operation)) {
+          const filtered = args as { where?: Record<string, unknown> }
+          if (!filtered.where || !('deletedAt' in filtered.where)) {
+            filtered.where = { ...filtered.where, deletedAt: null }
+          }
+        }
+        return query(args)
+      }
+    }
+  }
+})
+
+// Where clause fragment for the `deleted` list option; `include` lists deleted rows too
+export function deletedWhere(filter: DeletedFilter = 'exclude') {
+  switch (filter) {
+    case 'include':
+      return { deletedAt: undefined }
+    case 'only':
+      return { deletedAt: { not: null } }
+    default:
+      return { deletedAt: null }
+  }
+}
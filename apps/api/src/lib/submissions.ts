@@ -0,0 +1,117 @@
+import type { Prisma, SubmissionStatus } from '@prisma/client'
+import { lockConference, resolveSeatStatus, WAITLISTED } from './waitlist.js'
+import { recordStatusChanges } from './participation-status.js'
+import { checkDoubleBooking } from './double-booking.js'
+import { createChange, recordAudit, type AuditActor } from './audit.js'
+import { ProblemError } from './problem.js'
+import { conferenceMetadata } from './metadata-schema.js'
+
+type Tx = Prisma.TransactionClient
+
+export const SUBMISSION_STATUSES = [
+  'submitted',
+  'under_review',
+  'accepted',
+  'rejected',
+  'withdrawn'
+] as const satisfies readonly SubmissionStatus[]
+
+// Submissions in these statuses still await a decision and may be reviewed
+export const OPEN_SUBMISSION_STATUSES: SubmissionStatus[] = ['submitted', 'under_review']
+
+export function isOpen(status: SubmissionStatus) {
+  return OPEN_SUBMISSION_STATUSES.includes(status)
+}
+
+type Criterion = { id: number; name: string; weight: number; maxScore: number }
+type ScoredReview = { scores: Array<{ criterionId: number; score: number }> }
+
+/**
+ * Score of one review on a 0–100 scale: every criterion is normalized to its
+ * maxScore and weighted. Criteria the review has no score for are left out.
+ */
+export function reviewScore(criteria: Criterion[], review: ScoredReview) {
+  let total = 0
+  let weights = 0
+
+  for (const criterion of criteria) {
+    const score = review.scores.find((s) => s.criterionId === criterion.id)
+    if (!score) continue
+    total += criterion.weight * (score.score / criterion.maxScore)
+    weights += criterion.weight
+  }
+
+  return weights === 0 ? null : Math.round((total / weights) * 1000) / 10
+}
+
+/**
+ * Aggregates the reviews of one submission: the mean review score plus the mean
+ * raw score per criterion. Submissions without reviews have no score.
+ */
+export function aggregateReviews(criteria: Criterion[], reviews: ScoredReview[]) {
+  const scores = reviews.map((review) => reviewScore(criteria, review)).filter((score) => score !== null)
+
+  return {
+    score: scores.length > 0 ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 : null,
+    reviewCount: reviews.length,
+    criteria: criteria.map((criterion) => {
+      const values = reviews.flatMap((review) =>
+        review.scores.filter((s) => s.criterionId === criterion.id).map((s) => s.score))
+      return {
+        criterionId: criterion.id,
+        name: criterion.name,
+        average: values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : null
+      }
+    })
+  }
+}
+
+/**
+ * Turns an accepted submission into a participation of its author. The seat is
+ * taken like any other registration, so a full conference waitlists the talk.
+ * Throws a 400 ProblemError when the metadata does not match the conference's
+ * schema. Must run inside a transaction.
+ */
+export async function acceptSubmission(
+  tx: Tx,
+  submission: {
+    id: number
+    conferenceId: number
+    scientistId: number
+    title: string
+    participationType: string
+    durationMinutes: number
+    metadata?: Record<string, any>
+  },
+  actor: AuditActor
+) {
+  const conference = await lockConference(tx, submission.conferenceId)
+  if (!conference) throw new ProblemError(404, 'Conference not found')
+
+  // Validated like any other participation, so that defaults are filled in and required fields enforced
+  const metadata = await conferenceMetadata(tx, submission.conferenceId, submission.metadata)
+  const seat = await resolveSeatStatus(tx, conference, 'confirmed')
+
+  const participation = await tx.participation.create({
+    data: {
+      talkTitle: submission.title,
+      participationType: submission.participationType,
+      durationMinutes: submission.durationMinutes,
+      scientistId: submission.scientistId,
+      conferenceId: submission.conferenceId,
+      status: seat.status,
+      waitlistedAt: seat.waitlistedAt,
+      metadata
+    }
+  })
+  await recordStatusChanges(
+    tx,
+    [participation.id],
+    null,
+    participation.status,
+    seat.status === WAITLISTED ? `Submission ${submission.id} accepted; conference is at capacity` : `Submission ${submission.id} accepted`
+  )
+  await recordAudit(tx, actor, 'submissions.decide', [createChange('participation', participation)])
+
+  return { participation, conflicts: await checkDoubleBooking(tx, participation) }
+}
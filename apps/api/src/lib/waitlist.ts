@@ -0,0 +1,111 @@
+import type { Prisma, ParticipationStatus } from '@prisma/client'
+import { recordStatusChanges } from './participation-status.js'
+import { recordAudit, updateManyChanges, type AuditActor } from './audit.js'
+
+type Tx = Prisma.TransactionClient
+
+// Statuses that do not occupy a seat at the conference
+export const NON_SEAT_STATUSES: ParticipationStatus[] = ['waitlisted', 'cancelled', 'withdrawn']
+
+export const WAITLISTED = 'waitlisted' satisfies ParticipationStatus
+export const PROMOTED_STATUS = 'confirmed' satisfies ParticipationStatus
+
+export function holdsSeat(status: ParticipationStatus) {
+  return !NON_SEAT_STATUSES.includes(status)
+}
+
+// Locks the conference row until the end of the transaction so that
+// concurrent registrations for the same conference are serialized.
+// Soft-deleted conferences are treated as missing.
+export async function lockConference(tx: Tx, conferenceId: number) {
+  const rows = await tx.$queryRaw<Array<{ id: number; capacity: number }>>`
+    SELECT id, capacity FROM "Conference" WHERE id = ${conferenceId} AND "deletedAt" IS NULL FOR UPDATE
+  `
+
+  return rows[0] ?? null
+}
+
+export async function countOccupiedSeats(tx: Tx, conferenceId: number, excludeId?: number) {
+  return tx.participation.count({
+    where: {
+      conferenceId,
+      status: { notIn: NON_SEAT_STATUSES },
+      ...(excludeId && { id: { not: excludeId } })
+    }
+  })
+}
+
+/**
+ * Decides which status a participation that needs a seat ends up with.
+ * A capacity of 0 means the conference is unlimited.
+ * Must be called after lockConference() in the same transaction.
+ */
+export async function resolveSeatStatus(
+  tx: Tx,
+  conference: { id: number; capacity: number },
+  requestedStatus: ParticipationStatus,
+  excludeId?: number
+): Promise<{ status: ParticipationStatus; waitlistedAt: Date | null }> {
+  if (!holdsSeat(requestedStatus) || conference.capacity === 0) {
+    return { status: requestedStatus, waitlistedAt: requestedStatus === WAITLISTED ? new Date() : null }
+  }
+
+  const occupied = await countOccupiedSeats(tx, conference.id, excludeId)
+
+  if (occupied >= conference.capacity) {
+    return { status: WAITLISTED, waitlistedAt: new Date() }
+  }
+
+  return { status: requestedStatus, waitlistedAt: null }
+}
+
+/**
+ * Promotes the oldest waitlisted participations while the conference has free seats.
+ * Returns the ids of promoted participations. Promotions are audited as part of
+ * the operation that freed the seats.
+ */
+export async function fillOpenSeats(tx: Tx, conferenceId: number, actor: AuditActor, operation: string) {
+  const conference = await lockConference(tx, conferenceId)
+  if (!conference) return []
+
+  let take: number | undefined
+  if (conference.capacity > 0) {
+    const occupied = await countOccupiedSeats(tx, conferenceId)
+    take = conference.capacity - occupied
+    if (take <= 0) return []
+  }
+
+  const waiting = await tx.participation.findMany({
+    where: { conferenceId, status: WAITLISTED },
+    orderBy: [{ waitlistedAt: 'asc' }, { id: 'asc' }],
+    take
+  })
+
+  if (waiting.length === 0) return []
+
+  const ids = waiting.map((p: { id: number }) => p.id)
+  await tx.participation.updateMany({
+    where: { id: { in: ids } },
+    data: { status: PROMOTED_STATUS, waitlistedAt: null }
+  })
+  await recordStatusChanges(tx, ids, WAITLISTED, PROMOTED_STATUS, 'Promoted from waitlist')
+  await recordAudit(tx, actor, operation, updateManyChanges(
+    'participation',
+    waiting,
+    await tx.participation.findMany({ where: { id: { in: ids } } })
+  ))
+
+  return ids
+}
+
+export async function getWaitlist(tx: Tx, conferenceId: number) {
+  return tx.participation.findMany({
+    where: { conferenceId, status: WAITLISTED },
+    orderBy: [{ waitlistedAt: 'asc' }, { id: 'asc' }],
+    include: {
+      scientist: {
+        select: { id: true, fullName: true, email: true }
+      }
+    }
+  })
+}
@@ -0,0 +1,128 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import { prisma } from '../lib/prisma.js'
+import { problemResponses, validationHook } from '../lib/problem.js'
+import {
+  GRAPHML_CONTENT_TYPE,
+  GRAPH_FORMATS,
+  ScientistMetricsSchema,
+  collaborationEdges,
+  scientistMetrics,
+  toGraphML,
+  toJsonGraph,
+  type GraphFormat
+} from '../lib/collaboration.js'
+
+const analytics = new OpenAPIHono({ defaultHook: validationHook })
+
+const MAX_EDGES = 5000
+
+const JsonGraphSchema = z.object({
+  graph: z.object({
+    id: z.string(),
+    type: z.string(),
+    label: z.string(),
+    directed: z.boolean(),
+    metadata: z.object({
+      filters: z.object({
+        topic: z.string().nullable(),
+        country: z.string().nullable(),
+        year: z.number().int().nullable(),
+        minWeight: z.number().int()
+      }),
+      truncated: z.boolean().openapi({ description: 'Whether lighter edges were left out because of limit' })
+    }),
+    nodes: z.record(z.string(), z.object({
+      label: z.string(),
+      metadata: ScientistMetricsSchema.extend({
+        country: z.string(),
+        organization: z.string(),
+        specialization: z.string()
+      })
+    })).openapi({ description: 'Scientists keyed by ID' }),
+    edges: z.array(z.object({
+      source: z.string(),
+      target: z.string(),
+      relation: z.literal('co-attended'),
+      metadata: z.object({
+        weight: z.number().int().openapi({ description: 'Number of conferences both attended' }),
+        conferenceIds: z.array(z.number().int().positive())
+      })
+    }))
+  })
+}).openapi('CollaborationGraph')
+
+function resolveGraphFormat(format: GraphFormat | undefined, accept: string | undefined): GraphFormat {
+  if (format) return format
+  return accept?.split(',').some((part) => part.split(';')[0].trim() === GRAPHML_CONTENT_TYPE) ? 'graphml' : 'json'
+}
+
+const getCollaborationGraphRoute = createRoute({
+  method: 'get',
+  path: '/collaboration-graph',
+  tags: ['Analytics'],
+  summary: 'Co-attendance collaboration graph',
+  description: 'Scientists are nodes; two scientists are connected when they attended the same conferences ' +
+    '(confirmed or attended participations), weighted by the number of shared conferences. ' +
+    'Only scientists with at least one edge are included. Node metrics cover the filtered conferences',
+  request: {
+    query: z.object({
+      topic: z.string().optional().openapi({ description: 'Only conferences whose topic contains this' }),
+      country: z.string().optional().openapi({ description: 'Only conferences in this country' }),
+      year: z.coerce.number().int().min(1900).max(2200).optional().openapi({ description: 'Only conferences in this year' }),
+      minWeight: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Leave out pairs with fewer shared conferences' }),
+      limit: z.coerce.number().int().positive().max(MAX_EDGES).optional().default(1000).openapi({
+        description: 'Maximum number of edges; the heaviest are kept'
+      }),
+      format: z.enum(GRAPH_FORMATS).optional().openapi({
+        description: 'json is JSON Graph Format v2, graphml is GraphML. The Accept header is used when format is omitted'
+      })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: JsonGraphSchema
+        },
+        [GRAPHML_CONTENT_TYPE]: {
+          schema: z.string()
+        }
+      },
+      description: 'Collaboration graph'
+    }
+  }
+})
+
+analytics.openapi(getCollaborationGraphRoute, async (c) => {
+  const { topic, country, year, minWeight, limit, format } = c.req.valid('query')
+  const filter = { topic, country, year }
+
+  const { edges, truncated } = await collaborationEdges(prisma, filter, { minWeight, maxEdges: limit })
+
+  const ids = [...new Set(edges.flatMap((edge) => [edge.source, edge.target]))]
+  const [scientists, metrics] = await Promise.all([
+    prisma.scientist.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, fullName: true, country: true, organization: true, specialization: true },
+      orderBy: { id: 'asc' }
+    }),
+    scientistMetrics(prisma, ids, filter)
+  ])
+  const nodes = scientists.map((scientist) => ({ ...scientist, metrics: metrics.get(scientist.id)! }))
+
+  if (resolveGraphFormat(format, c.req.header('Accept')) === 'graphml') {
+    return c.body(toGraphML(nodes, edges), 200, {
+      'Content-Type': `${GRAPHML_CONTENT_TYPE}; charset=utf-8`,
+      'Content-Disposition': 'attachment; filename="collaboration-graph.graphml"'
+    })
+  }
+
+  return c.json(toJsonGraph(nodes, edges, {
+    filters: { topic: topic ?? null, country: country ?? null, year: year ?? null, minWeight },
+    truncated
+  }), 200)
+})
+
+export default analytics
@@ -0,0 +1,107 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma.js'
+import { ProblemSchema, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { PaginationSchema } from '../lib/pagination.js'
+import { authResponses, withRoles } from '../lib/auth.js'
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, AuditEntrySchema, formatAuditEntry } from '../lib/audit.js'
+
+const audit = new OpenAPIHono({ defaultHook: validationHook })
+
+const AuditLogResponseSchema = z.object({
+  data: z.array(AuditEntrySchema),
+  pagination: PaginationSchema
+}).openapi('AuditLogResponse')
+
+
+const getAuditLogRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Audit'],
+  summary: 'Get audit log',
+  description: 'Lists recorded changes of scientists, conferences and participations, newest first. ' +
+    'Bulk operations and waitlist promotions are recorded per affected row',
+  ...withRoles('admin'),
+  request: {
+    query: z.object({
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(50).openapi({ description: 'Items per page' }),
+      entity: z.enum(AUDIT_ENTITIES).optional().openapi({ description: 'Filter by entity type' }),
+      entityId: z.string().optional().openapi({ description: 'Filter by entity ID' }),
+      action: z.enum(AUDIT_ACTIONS).optional().openapi({ description: 'Filter by action' }),
+      operation: z.string().optional().openapi({ description: 'Filter by API operation, e.g. participations.bulk-update-status' }),
+      actorId: z.string().optional().openapi({ description: 'Filter by user ID of the actor' }),
+      actorEmail: z.string().optional().openapi({ description: 'Filter by email of the actor' }),
+      from: z.string().datetime().optional().openapi({ description: 'Changes at or after this time' }),
+      to: z.string().datetime().optional().openapi({ description: 'Changes before this time' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: AuditLogResponseSchema
+        }
+      },
+      description: 'Audit log entries'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Invalid time range'
+    }
+  }
+})
+
+audit.openapi(getAuditLogRoute, async (c) => {
+  const { page, limit, entity, entityId, action, operation, actorId, actorEmail, from, to } = c.req.valid('query')
+
+  if (from && to && new Date(to) <= new Date(from)) {
+    return problem(c, 400, "'to' must be after 'from'")
+  }
+
+  const skip = (page - 1) * limit
+
+  const where: Prisma.AuditLogWhereInput = {
+    ...(entity && { entity }),
+    ...(entityId && { entityId: parseInt(entityId) }),
+    ...(action && { action }),
+    ...(operation && { operation }),
+    ...(actorId && { actorId: parseInt(actorId) }),
+    ...(actorEmail && { actorEmail: { equals: actorEmail, mode: 'insensitive' } }),
+    ...((from || to) && {
+      createdAt: {
+        ...(from && { gte: new Date(from) }),
+        ...(to && { lt: new Date(to) })
+      }
+    })
+  }
+
+  const [data, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+    }),
+    prisma.auditLog.count({ where })
+  ])
+
+  return c.json({
+    data: data.map(formatAuditEntry),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  }, 200)
+})
+
+export default audit
@@ -0,0 +1,367 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import { prisma } from '../lib/prisma.js'
+import { ProblemSchema, isPrismaError, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { USER_ROLES, authResponses, hashPassword, signToken, verifyPassword, withRoles } from '../lib/auth.js'
+
+const auth = new OpenAPIHono({ defaultHook: validationHook })
+
+const UserRoleSchema = z.enum(USER_ROLES).openapi('UserRole')
+
+const UserSchema = z.object({
+  id: z.number().int().positive(),
+  email: z.string().email(),
+  role: UserRoleSchema,
+  scientistId: z.number().int().positive().nullable(),
+  createdAt: z.string().datetime()
+}).openapi('User')
+
+const CredentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+}).openapi('Credentials')
+
+const RegisterSchema = CredentialsSchema.extend({
+  scientistId: z.number().int().positive().optional().openapi({
+    description: 'Scientist profile to link. Its email must match the account email'
+  })
+}).openapi('Register')
+
+const CreateUserSchema = CredentialsSchema.extend({
+  role: UserRoleSchema,
+  scientistId: z.number().int().positive().optional()
+}).openapi('CreateUser')
+
+const UpdateUserSchema = z.object({
+  role: UserRoleSchema.optional(),
+  scientistId: z.number().int().positive().nullable().optional()
+}).openapi('UpdateUser')
+
+const TokenSchema = z.object({
+  token: z.string(),
+  tokenType: z.literal('Bearer'),
+  expiresIn: z.number().int().positive(),
+  user: UserSchema
+}).openapi('Token')
+
+
+function formatUser(user: any) {
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    scientistId: user.scientistId,
+    createdAt: user.createdAt.toISOString()
+  }
+}
+
+async function issueToken(user: any) {
+  const { token, expiresIn } = await signToken({
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    scientistId: user.scientistId
+  })
+
+  return {
+    token,
+    tokenType: 'Bearer' as const,
+    expiresIn,
+    user: formatUser(user)
+  }
+}
+
+const registerRoute = createRoute({
+  method: 'post',
+  path: '/register',
+  tags: ['Auth'],
+  summary: 'Register a scientist account',
+  description: 'Creates an account with the scientist role and returns a token',
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: RegisterSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: TokenSchema
+        }
+      },
+      description: 'Account created'
+    },
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist profile cannot be linked to this account'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Email already registered'
+    }
+  }
+})
+
+auth.openapi(registerRoute, async (c) => {
+  const { email, password, scientistId } = c.req.valid('json')
+
+  const existing = await prisma.user.findUnique({ where: { email } })
+  if (existing) {
+    return problem(c, 409, 'Email already registered')
+  }
+
+  if (scientistId) {
+    const scientist = await prisma.scientist.findUnique({
+      where: { id: scientistId },
+      include: { user: true }
+    })
+
+    if (!scientist || scientist.email?.toLowerCase() !== email.toLowerCase() || scientist.user) {
+      return problem(c, 400, 'Scientist profile cannot be linked to this account')
+    }
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email,
+      passwordHash: await hashPassword(password),
+      role: 'scientist',
+      scientistId
+    }
+  })
+
+  return c.json(await issueToken(user), 201)
+})
+
+const loginRoute = createRoute({
+  method: 'post',
+  path: '/login',
+  tags: ['Auth'],
+  summary: 'Log in',
+  description: 'Exchanges email and password for a signed JWT',
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: CredentialsSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: TokenSchema
+        }
+      },
+      description: 'Logged in'
+    },
+    401: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Invalid credentials'
+    }
+  }
+})
+
+auth.openapi(loginRoute, async (c) => {
+  const { email, password } = c.req.valid('json')
+
+  const user = await prisma.user.findUnique({ where: { email } })
+
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return problem(c, 401, 'Invalid email or password')
+  }
+
+  return c.json(await issueToken(user), 200)
+})
+
+const meRoute = createRoute({
+  method: 'get',
+  path: '/me',
+  tags: ['Auth'],
+  summary: 'Get current user',
+  ...withRoles(...USER_ROLES),
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: UserSchema
+        }
+      },
+      description: 'Current user'
+    },
+    ...authResponses
+  }
+})
+
+auth.openapi(meRoute, async (c) => {
+  const user = await prisma.user.findUnique({ where: { id: c.get('user').id } })
+
+  if (!user) {
+    return problem(c, 401, 'Account no longer exists')
+  }
+
+  return c.json(formatUser(user), 200)
+})
+
+const getUsersRoute = createRoute({
+  method: 'get',
+  path: '/users',
+  tags: ['Auth'],
+  summary: 'List user accounts',
+  ...withRoles('admin'),
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ data: z.array(UserSchema) })
+        }
+      },
+      description: 'User accounts'
+    },
+    ...authResponses
+  }
+})
+
+auth.openapi(getUsersRoute, async (c) => {
+  const users = await prisma.user.findMany({ orderBy: { id: 'asc' } })
+
+  return c.json({ data: users.map(formatUser) }, 200)
+})
+
+const createUserRoute = createRoute({
+  method: 'post',
+  path: '/users',
+  tags: ['Auth'],
+  summary: 'Create user account with a role',
+  ...withRoles('admin'),
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateUserSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: UserSchema
+        }
+      },
+      description: 'User created'
+    },
+    ...authResponses,
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Email or scientist profile already in use'
+    }
+  }
+})
+
+auth.openapi(createUserRoute, async (c) => {
+  const { email, password, role, scientistId } = c.req.valid('json')
+
+  try {
+    const user = await prisma.user.create({
+      data: {
+        email,
+        passwordHash: await hashPassword(password),
+        role,
+        scientistId
+      }
+    })
+
+    return c.json(formatUser(user), 201)
+  } catch (error) {
+    if (!isPrismaError(error, 'P2002')) throw error
+    return problem(c, 409, 'Email or scientist profile already in use')
+  }
+})
+
+const updateUserRoute = createRoute({
+  method: 'patch',
+  path: '/users/{id}',
+  tags: ['Auth'],
+  summary: 'Change user role or linked scientist',
+  ...withRoles('admin'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateUserSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: UserSchema
+        }
+      },
+      description: 'User updated'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'User not found'
+    }
+  }
+})
+
+auth.openapi(updateUserRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  try {
+    const user = await prisma.user.update({
+      where: { id },
+      data
+    })
+
+    return c.json(formatUser(user), 200)
+  } catch (error) {
+    if (!isPrismaError(error, 'P2025')) throw error
+    return problem(c, 404, 'User not found')
+  }
+})
+
+export default auth
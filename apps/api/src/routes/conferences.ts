@@ -1,8 +1,57 @@
 import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
 import { z } from 'zod'
+import { Prisma, type Conference } from '@prisma/client'
 import { prisma } from '../lib/prisma.js'
+import { PROBLEM_TYPES, ProblemSchema, isPrismaError, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { PaginationSchema, cursorQuery, listPage, sortByQuery, type SortFields } from '../lib/pagination.js'
+import { filterQuery, parseFilters, type FilterFields } from '../lib/filters.js'
+import { authResponses, withOptionalAuth, withRoles } from '../lib/auth.js'
+import { canManageConference, myConferencesWhere } from '../lib/organizers.js'
+import { countOccupiedSeats, fillOpenSeats, getWaitlist, lockConference } from '../lib/waitlist.js'
+import { ScheduleError, conferenceWindow } from '../lib/schedule.js'
+import {
+  ExportFormatQuerySchema,
+  exportContent,
+  exportResponse,
+  paginate,
+  resolveExportFormat,
+  type ExportColumn
+} from '../lib/export.js'
+import { calendarHeaders, conferenceEvent, isValidTimeZone, renderCalendar, sessionEvent } from '../lib/calendar.js'
+import {
+  EntityHistorySchema,
+  createChange,
+  deleteChange,
+  entityHistory,
+  formatAuditEntry,
+  recordAudit,
+  restoreChange,
+  updateChange
+} from '../lib/audit.js'
+import { DELETED_FILTERS, deletedWhere } from '../lib/soft-delete.js'
+import { STATS_GROUPS, conferenceStats } from '../lib/conference-stats.js'
+import { OPEN_METADATA_SCHEMA, checkMetadataSchema, invalidateMetadataSchemaComponents, type JsonSchema } from '../lib/metadata-schema.js'
+import {
+  IGNORED_STATUSES,
+  MAX_RECOMMENDATION_CANDIDATES,
+  ScoreBreakdownSchema,
+  rankRecommendations,
+  recommendationCandidates,
+  scoreRecommendation
+} from '../lib/recommendations.js'
+import {
+  DeletePreviewSchema,
+  DeleteQuerySchema,
+  DeleteResultSchema,
+  DependentsErrorSchema,
+  RestoreResultSchema,
+  findDependentParticipations,
+  formatDependent,
+  restoreParticipations,
+  softDeleteParticipations
+} from '../lib/deletion.js'
 
-const conferences = new OpenAPIHono()
+const conferences = new OpenAPIHono({ defaultHook: validationHook })
 
 const ConferenceSchema = z.object({
   id: z.number().int().positive(),
@@ -11,30 +60,39 @@ const ConferenceSchema = z.object({
   date: z.string().datetime(),
   country: z.string(),
   location: z.string(),
-  capacity: z.number().int().nonnegative()
+  capacity: z.number().int().nonnegative(),
+  endDate: z.string().datetime().nullable(),
+  timezone: z.string(),
+  deletedAt: z.string().datetime().nullable(),
+  metadataSchema: z.any().openapi({
+    type: 'object',
+    description: 'JSON Schema for participation metadata, or null; managed with /conferences/{id}/metadata-schema'
+  })
 }).openapi('Conference')
 
 const ConferenceWithParticipationsSchema = ConferenceSchema.extend({
   participations: z.array(z.any())
 }).openapi('ConferenceWithParticipations')
 
-const CreateConferenceSchema = z.object({
+export const CreateConferenceSchema = z.object({
   topic: z.string().min(1, 'Topic is required'),
   name: z.string().min(1, 'Name is required'), 
   date: z.string().datetime('Invalid datetime format'),
   country: z.string().min(1, 'Country is required'),
   location: z.string().min(1, 'Location is required'),
-  capacity: z.number().int().nonnegative().optional()
+  capacity: z.number().int().nonnegative().optional(),
+  endDate: z.string().datetime('Invalid datetime format').optional().openapi({
+    description: 'Last day of a multi-day conference'
+  }),
+  timezone: z.string().refine(isValidTimeZone, 'Unknown IANA time zone').optional().openapi({
+    description: 'IANA time zone of the venue, e.g. Europe/Berlin. Defaults to UTC',
+    example: 'Europe/Berlin'
+  })
 }).openapi('CreateConference')
 
-const UpdateConferenceSchema = CreateConferenceSchema.partial().openapi('UpdateConference')
-
-const PaginationSchema = z.object({
-  page: z.number().int().positive(),
-  limit: z.number().int().positive(),
-  total: z.number().int().positive(),
-  pages: z.number().int().positive()
-}).openapi('Pagination')
+const UpdateConferenceSchema = CreateConferenceSchema.partial().extend({
+  endDate: z.string().datetime('Invalid datetime format').nullable().optional()
+}).openapi('UpdateConference')
 
 const ConferencesResponseSchema = z.object({
   data: z.array(ConferenceSchema),
@@ -42,16 +100,106 @@ const ConferencesResponseSchema = z.object({
 }).openapi('ConferencesResponse')
 
 const ConferenceStatsSchema = z.object({
-  country: z.string(),
+  group: z.string().openapi({ description: 'Value of the groupBy field, e.g. DE, 2026 or 2026-05', example: 'DE' }),
+  country: z.string().optional().openapi({ description: 'Same as group; only with groupBy=country', deprecated: true }),
   totalConferences: z.number(),
   totalParticipations: z.number(),
   avgCapacity: z.number(),
-  topicDistribution: z.record(z.string(), z.number())
+  avgDurationMinutes: z.number().nullable().openapi({ description: 'Average talk duration; null without participations' }),
+  capacityUtilization: z.number().nullable().openapi({
+    description: 'Seat-holding participations per seat of conferences with a capacity; null if all are unlimited',
+    example: 0.85
+  }),
+  statusBreakdown: z.record(z.string(), z.number()).openapi({ description: 'Participations per status; statuses without any are left out' }),
+  topicDistribution: z.record(z.string(), z.number()).openapi({ description: 'Conferences per topic' })
 }).openapi('ConferenceStats')
 
-const ErrorSchema = z.object({
-  error: z.string()
-}).openapi('Error')
+const WaitlistSchema = z.object({
+  conferenceId: z.number().int().positive(),
+  capacity: z.number().int().nonnegative(),
+  occupiedSeats: z.number().int().nonnegative(),
+  availableSeats: z.number().int().nonnegative().nullable(),
+  data: z.array(z.object({
+    position: z.number().int().positive(),
+    participationId: z.number().int().positive(),
+    talkTitle: z.string(),
+    participationType: z.string(),
+    waitlistedAt: z.string().datetime().nullable(),
+    scientist: z.object({
+      id: z.number(),
+      fullName: z.string(),
+      email: z.string().nullable()
+    })
+  }))
+}).openapi('Waitlist')
+
+const OrganizerSchema = z.object({
+  userId: z.number().int().positive(),
+  email: z.string().email(),
+  role: z.string(),
+  invitedById: z.number().int().positive().nullable(),
+  addedAt: z.string().datetime()
+}).openapi('ConferenceOrganizer')
+
+const InviteOrganizerSchema = z.object({
+  userId: z.number().int().positive().optional(),
+  email: z.string().email().optional()
+}).refine((data) => data.userId !== undefined || data.email !== undefined, {
+  message: 'Either userId or email is required'
+}).openapi('InviteOrganizer')
+
+const CONFERENCE_COLUMNS: Array<ExportColumn<Conference>> = [
+  ['id', (conf) => conf.id],
+  ['name', (conf) => conf.name],
+  ['topic', (conf) => conf.topic],
+  ['date', (conf) => conf.date],
+  ['endDate', (conf) => conf.endDate],
+  ['timezone', (conf) => conf.timezone],
+  ['country', (conf) => conf.country],
+  ['location', (conf) => conf.location],
+  ['capacity', (conf) => conf.capacity]
+]
+
+const CONFERENCE_SORT_FIELDS = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  topic: { type: 'string' },
+  date: { type: 'date' },
+  endDate: { type: 'date', nullable: true },
+  country: { type: 'string' },
+  location: { type: 'string' },
+  capacity: { type: 'number' }
+} satisfies SortFields
+
+const CONFERENCE_FILTER_FIELDS: FilterFields = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  topic: { type: 'string' },
+  date: { type: 'date' },
+  endDate: { type: 'date', nullable: true },
+  country: { type: 'string' },
+  location: { type: 'string' },
+  capacity: { type: 'number' },
+  timezone: { type: 'string' },
+  // Conferences with at least one participation by a matching scientist
+  'scientist.id': { type: 'number', where: (id) => ({ participations: { some: { deletedAt: null, scientist: { id } } } }) },
+  'scientist.country': { type: 'string', where: (country) => ({ participations: { some: { deletedAt: null, scientist: { country } } } }) },
+  'scientist.specialization': {
+    type: 'string',
+    where: (specialization) => ({ participations: { some: { deletedAt: null, scientist: { specialization } } } })
+  }
+}
+
+
+function formatOrganizer(o: any) {
+  return {
+    userId: o.userId,
+    email: o.user.email,
+    role: o.user.role,
+    invitedById: o.invitedById,
+    addedAt: o.createdAt.toISOString()
+  }
+}
 
 const getConferencesRoute = createRoute({
   method: 'get',
@@ -59,58 +207,99 @@ const getConferencesRoute = createRoute({
   tags: ['Conferences'],
   summary: 'Get all conferences',
   description: 'Returns list of conferences with pagination, sorting and filtering support',
+  ...withOptionalAuth(),
   request: {
     query: z.object({
-      page: z.string().optional().default('1').openapi({ description: 'Page number' }),
-      limit: z.string().optional().default('10').openapi({ description: 'Items per page' }),
-      sortBy: z.string().optional().default('date').openapi({ description: 'Field to sort by' }),
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' }),
+      sortBy: sortByQuery(CONFERENCE_SORT_FIELDS, 'date'),
       sortOrder: z.enum(['asc', 'desc']).optional().default('desc').openapi({ description: 'Sort order' }),
+      ...cursorQuery,
       country: z.string().optional().openapi({ description: 'Filter by country' }),
-      topic: z.string().optional().openapi({ description: 'Filter by topic' })
+      topic: z.string().optional().openapi({ description: 'Filter by topic' }),
+      filter: filterQuery(CONFERENCE_FILTER_FIELDS),
+      mine: z.enum(['true', 'false']).optional().openapi({
+        description: 'Only conferences the caller organizes (organizers, admins) or takes part in (scientists)'
+      }),
+      deleted: z.enum(DELETED_FILTERS).optional().openapi({
+        description: 'Whether to list soft-deleted conferences (admins only). Defaults to exclude'
+      }),
+      format: ExportFormatQuerySchema
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
           schema: ConferencesResponseSchema
-        }
+        },
+        ...exportContent
       },
       description: 'Conferences list retrieved successfully'
+    },
+    401: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'mine=true or deleted requires a bearer token'
+    },
+    403: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Only admins may list deleted conferences'
     }
   }
 })
 
 conferences.openapi(getConferencesRoute, async (c) => {
-  const { page, limit, sortBy, sortOrder, country, topic } = c.req.valid('query')
-  
-  const pageNum = parseInt(page)
-  const limitNum = parseInt(limit)
-  const skip = (pageNum - 1) * limitNum
+  const { page, limit, sortBy, sortOrder, after, before, count, country, topic, mine, deleted, format } = c.req.valid('query')
+  const user = c.get('user')
+
+  if (mine === 'true' && !user) {
+    return problem(c, 401, 'Authentication required to list your conferences')
+  }
+
+  if (deleted && deleted !== 'exclude') {
+    if (!user) return problem(c, 401, 'Authentication required to list deleted conferences')
+    if (user.role !== 'admin') return problem(c, 403, 'Only admins may list deleted conferences')
+  }
+
+  const listing = listPage(CONFERENCE_SORT_FIELDS, { page, limit, sortBy, sortOrder, after, before, count })
 
-  const where: any = {}
+  const where: any = { ...deletedWhere(deleted), AND: parseFilters(CONFERENCE_FILTER_FIELDS, c.req.queries()) }
   if (country) where.country = { contains: country, mode: 'insensitive' }
   if (topic) where.topic = { contains: topic, mode: 'insensitive' }
+  if (mine === 'true' && user) where.AND.push(myConferencesWhere(user))
+
+  const exportFormat = resolveExportFormat(format, c.req.header('Accept'))
+  if (exportFormat !== 'json') {
+    return exportResponse(c, exportFormat, {
+      filename: 'conferences',
+      rows: paginate(CONFERENCE_SORT_FIELDS, { sortBy, sortOrder }, (batch) =>
+        prisma.conference.findMany({ where: batch.where(where), orderBy: batch.orderBy, take: batch.take })
+      ),
+      columns: CONFERENCE_COLUMNS,
+      toJson: (conference) => conference
+    })
+  }
 
-  const [data, total] = await Promise.all([
+  const [rows, total] = await Promise.all([
     prisma.conference.findMany({
-      where,
-      skip,
-      take: limitNum,
-      orderBy: { [sortBy]: sortOrder }
+      where: listing.where(where),
+      skip: listing.skip,
+      take: listing.take,
+      orderBy: listing.orderBy
     }),
-    prisma.conference.count({ where })
+    listing.count ? prisma.conference.count({ where }) : null
   ])
 
-  return c.json({
-    data,
-    pagination: {
-      page: pageNum,
-      limit: limitNum,
-      total,
-      pages: Math.ceil(total / limitNum)
-    }
-  })
+  return c.json(listing.result(rows, total), 200)
 })
 
 const getConferenceStatsRoute = createRoute({
@@ -118,12 +307,23 @@ const getConferenceStatsRoute = createRoute({
   path: '/stats',
   tags: ['Conferences'],
   summary: 'Conference statistics with GROUP BY',
-  description: 'Get aggregated statistics grouped by country with topic distribution',
+  description: 'Get aggregated statistics of live conferences and participations, grouped by country (default), topic, ' +
+    'year or month of the conference date, or participation type',
+  request: {
+    query: z.object({
+      groupBy: z.enum(STATS_GROUPS).optional().default('country').openapi({ description: 'Field to group by' }),
+      from: z.string().datetime().optional().openapi({ description: 'Conferences on or after this time' }),
+      to: z.string().datetime().optional().openapi({ description: 'Conferences before this time' }),
+      topic: z.string().optional().openapi({ description: 'Filter by topic' })
+    })
+  },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
           schema: z.object({
+            groupBy: z.enum(STATS_GROUPS),
             data: z.array(ConferenceStatsSchema)
           })
         }
@@ -134,48 +334,23 @@ const getConferenceStatsRoute = createRoute({
 })
 
 conferences.openapi(getConferenceStatsRoute, async (c) => {
-  const stats = await prisma.conference.groupBy({
-    by: ['country'],
-    _count: {
-      id: true
-    },
-    _avg: {
-      capacity: true
-    }
-  })
-
-  const detailedStats = await Promise.all(
-    stats.map(async (stat: { country: string; _count: { id: number }; _avg: { capacity: number | null } }) => {
-      const conferences = await prisma.conference.findMany({
-        where: { country: stat.country },
-        include: {
-          _count: {
-            select: { participations: true }
-          }
-        }
-      })
-
-      const topicCounts: Record<string, number> = {}
-      let totalParticipations = 0
+  const { groupBy, from, to, topic } = c.req.valid('query')
 
-      conferences.forEach((conf: { topic: string; _count: { participations: number } }) => {
-        topicCounts[conf.topic] = (topicCounts[conf.topic] || 0) + 1
-        totalParticipations += conf._count.participations
-      })
+  if (from && to && new Date(to) <= new Date(from)) {
+    return problem(c, 400, "'to' must be after 'from'")
+  }
 
-      return {
-        country: stat.country,
-        totalConferences: stat._count.id,
-        totalParticipations,
-        avgCapacity: Math.round(stat._avg.capacity || 0),
-        topicDistribution: topicCounts
-      }
-    })
-  )
+  const stats = await conferenceStats(prisma, {
+    groupBy,
+    from: from ? new Date(from) : undefined,
+    to: to ? new Date(to) : undefined,
+    topic
+  })
 
   return c.json({
-    data: detailedStats
-  })
+    groupBy,
+    data: stats.map((stat) => ({ ...stat, ...(groupBy === 'country' && { country: stat.group }) }))
+  }, 200)
 })
 
 const getConferenceRoute = createRoute({
@@ -189,6 +364,7 @@ const getConferenceRoute = createRoute({
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
@@ -199,8 +375,8 @@ const getConferenceRoute = createRoute({
     },
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Conference not found'
@@ -215,6 +391,7 @@ conferences.openapi(getConferenceRoute, async (c) => {
     where: { id },
     include: {
       participations: {
+        where: { deletedAt: null },
         include: {
           scientist: true
         }
@@ -223,17 +400,249 @@ conferences.openapi(getConferenceRoute, async (c) => {
   })
 
   if (!conference) {
-    return c.json({ error: 'Conference not found' }, 404)
+    return problem(c, 404, 'Conference not found')
   }
 
   return c.json(conference, 200)
 })
 
+const getConferenceWaitlistRoute = createRoute({
+  method: 'get',
+  path: '/{id}/waitlist',
+  tags: ['Conferences'],
+  summary: 'Get conference waitlist',
+  description: 'Returns waitlisted participations in queue order. A capacity of 0 means the conference is unlimited',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: WaitlistSchema
+        }
+      },
+      description: 'Waitlist retrieved'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+conferences.openapi(getConferenceWaitlistRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const conference = await prisma.conference.findUnique({
+    where: { id },
+    select: { id: true, capacity: true }
+  })
+
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const [occupiedSeats, waitlist] = await Promise.all([
+    countOccupiedSeats(prisma, id),
+    getWaitlist(prisma, id)
+  ])
+
+  return c.json({
+    conferenceId: conference.id,
+    capacity: conference.capacity,
+    occupiedSeats,
+    availableSeats: conference.capacity > 0 ? Math.max(conference.capacity - occupiedSeats, 0) : null,
+    data: waitlist.map((p, index) => ({
+      position: index + 1,
+      participationId: p.id,
+      talkTitle: p.talkTitle,
+      participationType: p.participationType,
+      waitlistedAt: p.waitlistedAt ? p.waitlistedAt.toISOString() : null,
+      scientist: p.scientist
+    }))
+  }, 200)
+})
+
+const getRecommendedScientistsRoute = createRoute({
+  method: 'get',
+  path: '/{id}/recommended-scientists',
+  tags: ['Conferences'],
+  summary: 'Scientists to invite',
+  description: 'Ranks scientists who do not take part in the conference yet by how well its topic matches their ' +
+    'specialization and the topics of their earlier conferences, with the country as a preference. ' +
+    `Of the scientists sharing a topic keyword, the ${MAX_RECOMMENDATION_CANDIDATES} with the most keyword hits are scored. ` +
+    'Each result explains its score',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Conference ID' })
+    }),
+    query: z.object({
+      minHIndex: z.coerce.number().int().nonnegative().optional().openapi({ description: 'Minimum h-index' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(20).openapi({ description: 'Maximum number of scientists' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            conferenceId: z.number().int().positive(),
+            data: z.array(z.object({
+              scientist: z.object({
+                id: z.number().int().positive(),
+                fullName: z.string(),
+                country: z.string(),
+                organization: z.string(),
+                specialization: z.string(),
+                hIndex: z.number().int()
+              }),
+              score: ScoreBreakdownSchema
+            }))
+          }).openapi('RecommendedScientists')
+        }
+      },
+      description: 'Scientists, best match first'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+conferences.openapi(getRecommendedScientistsRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { minHIndex, limit } = c.req.valid('query')
+
+  const conference = await prisma.conference.findUnique({
+    where: { id },
+    select: { id: true, topic: true, country: true }
+  })
+
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const now = new Date()
+  const ids = await recommendationCandidates(prisma, conference, { minHIndex, before: now })
+
+  const candidates = await prisma.scientist.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      fullName: true,
+      country: true,
+      organization: true,
+      specialization: true,
+      hIndex: true,
+      participations: {
+        where: {
+          deletedAt: null,
+          status: { notIn: IGNORED_STATUSES },
+          conference: { date: { lt: now } }
+        },
+        select: { conference: { select: { topic: true, country: true } } }
+      }
+    },
+    orderBy: [{ hIndex: 'desc' }, { id: 'asc' }]
+  })
+
+  return c.json({
+    conferenceId: id,
+    data: rankRecommendations(candidates, (scientist) => scoreRecommendation({
+      specialization: scientist.specialization,
+      country: scientist.country,
+      pastConferences: scientist.participations.map((participation) => participation.conference)
+    }, conference), limit)
+      .map(({ candidate: { participations: _, ...scientist }, score }) => ({ scientist, score }))
+  }, 200)
+})
+
+const getConferenceCalendarRoute = createRoute({
+  method: 'get',
+  path: '/{id}/calendar.ics',
+  tags: ['Conferences'],
+  summary: 'Conference calendar feed',
+  description: 'iCalendar feed with the conference days and, once a program is published, one event per session. ' +
+    'Event UIDs are stable, so subscribing or re-importing updates existing events',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Conference ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'text/calendar': {
+          schema: z.string()
+        }
+      },
+      description: 'iCalendar (RFC 5545) feed'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+conferences.openapi(getConferenceCalendarRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const conference = await prisma.conference.findUnique({
+    where: { id },
+    include: {
+      sessions: {
+        where: { isDraft: false },
+        include: {
+          room: true,
+          slots: {
+            include: { participation: { include: { scientist: { select: { fullName: true } } } } },
+            orderBy: { startsAt: 'asc' }
+          }
+        },
+        orderBy: [{ startsAt: 'asc' }, { id: 'asc' }]
+      }
+    }
+  })
+
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const events = [
+    conferenceEvent(conference),
+    ...conference.sessions.map((session) => sessionEvent(conference, session))
+  ]
+
+  return c.body(renderCalendar(conference.name, conference.timezone, events), 200, calendarHeaders(`conference-${id}.ics`))
+})
+
 const createConferenceRoute = createRoute({
   method: 'post',
   path: '/',
   tags: ['Conferences'],
   summary: 'Create new conference',
+  description: 'Creates a conference and makes the caller its first organizer',
+  ...withRoles('admin', 'organizer'),
   request: {
     body: {
       content: {
@@ -244,6 +653,7 @@ const createConferenceRoute = createRoute({
     }
   },
   responses: {
+    ...problemResponses,
     201: {
       content: {
         'application/json': {
@@ -251,19 +661,41 @@ const createConferenceRoute = createRoute({
         }
       },
       description: 'Conference created successfully'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'End date before start date'
     }
   }
 })
 
 conferences.openapi(createConferenceRoute, async (c) => {
   const data = c.req.valid('json')
+  const user = c.get('user')
+
+  if (data.endDate && new Date(data.endDate) < new Date(data.date)) {
+    return problem(c, 400, 'End date must not be before the start date')
+  }
   
-  const conference = await prisma.conference.create({
-    data: {
-      ...data,
-      date: new Date(data.date),
-      capacity: data.capacity || 0
-    }
+  const conference = await prisma.$transaction(async (tx) => {
+    const created = await tx.conference.create({
+      data: {
+        ...data,
+        date: new Date(data.date),
+        endDate: data.endDate ? new Date(data.endDate) : null,
+        capacity: data.capacity || 0,
+        organizers: {
+          create: { userId: user.id }
+        }
+      }
+    })
+    await recordAudit(tx, user, 'conferences.create', [createChange('conference', created)])
+    return created
   })
 
   return c.json(conference, 201)
@@ -274,6 +706,8 @@ const updateConferenceRoute = createRoute({
   path: '/{id}',
   tags: ['Conferences'],
   summary: 'Update conference',
+  description: 'Only admins and organizers of the conference can edit it',
+  ...withRoles('admin', 'organizer'),
   request: {
     params: z.object({
       id: z.coerce.number().int().positive()
@@ -287,6 +721,7 @@ const updateConferenceRoute = createRoute({
     }
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
@@ -295,13 +730,30 @@ const updateConferenceRoute = createRoute({
       },
       description: 'Conference updated'
     },
+    ...authResponses,
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Conference not found'
+    },
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'End date before start date'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Program sessions fall outside the new dates'
     }
   }
 })
@@ -309,64 +761,708 @@ const updateConferenceRoute = createRoute({
 conferences.openapi(updateConferenceRoute, async (c) => {
   const { id } = c.req.valid('param')
   const data = c.req.valid('json')
+  const user = c.get('user')
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit it')
+  }
 
   try {
-    const conference = await prisma.conference.update({
-      where: { id },
-      data: {
-        ...data,
-        ...(data.date && { date: new Date(data.date) })
+    const conference = await prisma.$transaction(async (tx) => {
+      const existing = await tx.conference.findUniqueOrThrow({ where: { id } })
+      const updated = await tx.conference.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(data.date && { date: new Date(data.date) }),
+          ...(data.endDate !== undefined && { endDate: data.endDate ? new Date(data.endDate) : null })
+        }
+      })
+
+      if (updated.endDate && updated.endDate < updated.date) {
+        throw new ScheduleError('End date must not be before the start date', 400)
+      }
+
+      if (data.date !== undefined || data.endDate !== undefined) {
+        const window = conferenceWindow(updated)
+        const outside = await tx.session.count({
+          where: {
+            conferenceId: id,
+            OR: [{ startsAt: { lt: window.startsAt } }, { endsAt: { gt: window.endsAt } }]
+          }
+        })
+
+        if (outside > 0) {
+          throw new ScheduleError(`${outside} program sessions would fall outside the new conference dates`)
+        }
+      }
+
+      await recordAudit(tx, user, 'conferences.update', [updateChange('conference', existing, updated)])
+
+      if (data.capacity !== undefined) {
+        await fillOpenSeats(tx, id, user, 'conferences.update')
       }
+
+      return updated
     })
+    invalidateMetadataSchemaComponents()
 
     return c.json(conference, 200)
   } catch (error) {
-    return c.json({ error: 'Conference not found' }, 404)
+    if (error instanceof ScheduleError) {
+      return problem(c, error.status === 400 ? 400 : 409, error.message)
+    }
+    if (isPrismaError(error, 'P2025')) {
+      return problem(c, 404, 'Conference not found')
+    }
+    throw error
   }
 })
 
-const deleteConferenceRoute = createRoute({
-  method: 'delete',
-  path: '/{id}',
+const getOrganizersRoute = createRoute({
+  method: 'get',
+  path: '/{id}/organizers',
   tags: ['Conferences'],
-  summary: 'Delete conference',
+  summary: 'List conference organizers',
+  ...withRoles('admin', 'organizer'),
   request: {
     params: z.object({
       id: z.coerce.number().int().positive()
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
-          schema: z.object({ message: z.string() })
+          schema: z.object({ data: z.array(OrganizerSchema) })
         }
       },
-      description: 'Conference deleted'
+      description: 'Organizers of the conference'
     },
-    404: {
-      content: {
-        'application/json': {
-          schema: ErrorSchema
-        }
-      },
-      description: 'Conference not found'
-    }
+    ...authResponses
   }
 })
 
-conferences.openapi(deleteConferenceRoute, async (c) => {
+conferences.openapi(getOrganizersRoute, async (c) => {
   const { id } = c.req.valid('param')
 
-  try {
-    await prisma.conference.delete({
-      where: { id }
-    })
-
-    return c.json({ message: 'Conference deleted successfully' }, 200)
-  } catch (error) {
-    return c.json({ error: 'Conference not found' }, 404)
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can view its organizers')
   }
+
+  const organizers = await prisma.conferenceOrganizer.findMany({
+    where: { conferenceId: id },
+    include: { user: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return c.json({ data: organizers.map(formatOrganizer) }, 200)
+})
+
+const inviteOrganizerRoute = createRoute({
+  method: 'post',
+  path: '/{id}/organizers',
+  tags: ['Conferences'],
+  summary: 'Invite co-organizer',
+  description: 'Adds an existing account with the organizer or admin role as co-organizer of the conference',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: InviteOrganizerSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: OrganizerSchema
+        }
+      },
+      description: 'Co-organizer added'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'User cannot organize conferences'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'User not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'User already organizes this conference'
+    }
+  }
+})
+
+conferences.openapi(inviteOrganizerRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { userId, email } = c.req.valid('json')
+  const user = c.get('user')
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can invite co-organizers')
+  }
+
+  const invitee = await prisma.user.findUnique({
+    where: userId !== undefined ? { id: userId } : { email: email! }
+  })
+
+  if (!invitee) {
+    return problem(c, 404, 'User not found')
+  }
+
+  if (invitee.role !== 'organizer' && invitee.role !== 'admin') {
+    return problem(c, 400, `User has the '${invitee.role}' role; only organizers can be invited`)
+  }
+
+  const existing = await prisma.conferenceOrganizer.findUnique({
+    where: { conferenceId_userId: { conferenceId: id, userId: invitee.id } }
+  })
+
+  if (existing) {
+    return problem(c, 409, 'User already organizes this conference')
+  }
+
+  const organizer = await prisma.conferenceOrganizer.create({
+    data: {
+      conferenceId: id,
+      userId: invitee.id,
+      invitedById: user.id
+    },
+    include: { user: true }
+  })
+
+  return c.json(formatOrganizer(organizer), 201)
+})
+
+const removeOrganizerRoute = createRoute({
+  method: 'delete',
+  path: '/{id}/organizers/{userId}',
+  tags: ['Conferences'],
+  summary: 'Remove co-organizer',
+  description: 'Removes an organizer from the conference. The last organizer cannot be removed',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive(),
+      userId: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string() })
+        }
+      },
+      description: 'Organizer removed'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'User does not organize this conference'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Cannot remove the last organizer'
+    }
+  }
+})
+
+conferences.openapi(removeOrganizerRoute, async (c) => {
+  const { id, userId } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can remove co-organizers')
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Under the conference lock, so two concurrent removals cannot both pass the last-organizer check
+    if (!(await lockConference(tx, id))) return 'not_found' as const
+
+    const organizers = await tx.conferenceOrganizer.findMany({
+      where: { conferenceId: id },
+      select: { userId: true }
+    })
+
+    if (!organizers.some((o: { userId: number }) => o.userId === userId)) return 'not_found' as const
+    if (organizers.length === 1) return 'last' as const
+
+    await tx.conferenceOrganizer.delete({
+      where: { conferenceId_userId: { conferenceId: id, userId } }
+    })
+    return 'removed' as const
+  })
+
+  if (result === 'not_found') {
+    return problem(c, 404, 'User does not organize this conference')
+  }
+
+  if (result === 'last') {
+    return problem(c, 409, 'Cannot remove the last organizer of a conference')
+  }
+
+  return c.json({ message: 'Organizer removed successfully' }, 200)
+})
+
+const MetadataSchemaSchema = z.record(z.string(), z.any()).openapi('MetadataSchema', {
+  description: 'JSON Schema (draft 2020-12) for participation metadata, with type object at the root. ' +
+    'Unknown keywords are rejected, as are pattern and patternProperties; format supports email, date, date-time and uri. ' +
+    'Defaults of missing properties are filled in',
+  example: {
+    type: 'object',
+    properties: {
+      track: { type: 'string', enum: ['AI', 'Systems', 'Theory'] },
+      dietary: { type: 'string', default: 'none' },
+      av: { type: 'array', items: { type: 'string', enum: ['projector', 'microphone', 'hdmi'] }, uniqueItems: true },
+      posterSize: { type: 'string', enum: ['A0', 'A1'] }
+    },
+    required: ['track'],
+    additionalProperties: false
+  }
+})
+
+const getMetadataSchemaRoute = createRoute({
+  method: 'get',
+  path: '/{id}/metadata-schema',
+  tags: ['Conferences'],
+  summary: 'Get participation metadata schema',
+  description: 'JSON Schema that metadata of participations at this conference must match. ' +
+    `Conferences without one accept any object, which is returned as ${JSON.stringify(OPEN_METADATA_SCHEMA)}. ` +
+    'The schemas also appear in the components of /doc as ConferenceMetadata<id>',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: MetadataSchemaSchema
+        }
+      },
+      description: 'Metadata schema'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+conferences.openapi(getMetadataSchemaRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { metadataSchema: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  return c.json((conference.metadataSchema ?? OPEN_METADATA_SCHEMA) as JsonSchema, 200)
+})
+
+const setMetadataSchemaRoute = createRoute({
+  method: 'put',
+  path: '/{id}/metadata-schema',
+  tags: ['Conferences'],
+  summary: 'Set participation metadata schema',
+  description: 'Only admins and organizers of the conference can set it. From then on, metadata of participations ' +
+    'created at or moved to the conference, or whose metadata is updated, must match it; missing fields get their defaults. ' +
+    'Metadata of existing participations is not checked',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: MetadataSchemaSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: MetadataSchemaSchema
+        }
+      },
+      description: 'Metadata schema saved'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Invalid or unsupported schema; errors lists the offending keywords'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+conferences.openapi(setMetadataSchemaRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const schema = c.req.valid('json')
+  const user = c.get('user')
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can set its metadata schema')
+  }
+
+  const errors = checkMetadataSchema(schema)
+  if (errors.length > 0) {
+    return problem(c, 400, errors.length === 1 ? `Invalid schema at ${errors[0].field}: ${errors[0].message}` : `${errors.length} problems in the schema`, undefined, {
+      type: PROBLEM_TYPES.validation,
+      errors
+    })
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.conference.findUniqueOrThrow({ where: { id } })
+      const updated = await tx.conference.update({ where: { id }, data: { metadataSchema: schema } })
+      await recordAudit(tx, user, 'conferences.set-metadata-schema', [updateChange('conference', existing, updated)])
+    })
+    invalidateMetadataSchemaComponents()
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      return problem(c, 404, 'Conference not found')
+    }
+    throw error
+  }
+
+  return c.json(schema, 200)
+})
+
+const deleteMetadataSchemaRoute = createRoute({
+  method: 'delete',
+  path: '/{id}/metadata-schema',
+  tags: ['Conferences'],
+  summary: 'Remove participation metadata schema',
+  description: 'Participations at the conference accept any metadata object again',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string() })
+        }
+      },
+      description: 'Metadata schema removed'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+conferences.openapi(deleteMetadataSchemaRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const user = c.get('user')
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can remove its metadata schema')
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const existing = await tx.conference.findUniqueOrThrow({ where: { id } })
+      const updated = await tx.conference.update({ where: { id }, data: { metadataSchema: Prisma.DbNull } })
+      await recordAudit(tx, user, 'conferences.delete-metadata-schema', [updateChange('conference', existing, updated)])
+    })
+    invalidateMetadataSchemaComponents()
+  } catch (error) {
+    if (isPrismaError(error, 'P2025')) {
+      return problem(c, 404, 'Conference not found')
+    }
+    throw error
+  }
+
+  return c.json({ message: 'Metadata schema removed successfully' }, 200)
+})
+
+const getConferenceHistoryRoute = createRoute({
+  method: 'get',
+  path: '/{id}/history',
+  tags: ['Conferences'],
+  summary: 'Get change history of conference',
+  description: 'Lists every recorded change of the conference with actor and before and after values, oldest first. ' +
+    'Organizers see the history of their conferences; the history of deleted conferences is available to admins',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Conference ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: EntityHistorySchema
+        }
+      },
+      description: 'Change history retrieved'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found and no history recorded'
+    }
+  }
+})
+
+conferences.openapi(getConferenceHistoryRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can read its history')
+  }
+
+  const [conference, history] = await Promise.all([
+    prisma.conference.findUnique({ where: { id }, select: { id: true } }),
+    entityHistory(prisma, 'conference', id)
+  ])
+
+  if (!conference && history.length === 0) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  return c.json({ entity: 'conference' as const, entityId: id, data: history.map(formatAuditEntry) }, 200)
+})
+
+const deleteConferenceRoute = createRoute({
+  method: 'delete',
+  path: '/{id}',
+  tags: ['Conferences'],
+  summary: 'Delete conference',
+  description: 'Soft-deletes the conference; it can be brought back with POST /conferences/{id}/restore. ' +
+    'A conference with participations is only deleted with cascade=true, which deletes them along with it. ' +
+    'preview=true lists those participations without deleting anything',
+  ...withRoles('admin'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    }),
+    query: DeleteQuerySchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.union([DeleteResultSchema, DeletePreviewSchema])
+        }
+      },
+      description: 'Conference deleted, or the preview of what would be deleted'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: DependentsErrorSchema
+        }
+      },
+      description: 'Conference has participations and cascade was not requested'
+    }
+  }
+})
+
+conferences.openapi(deleteConferenceRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { cascade, preview } = c.req.valid('query')
+
+  const result = await prisma.$transaction(async (tx) => {
+    const conference = await lockConference(tx, id)
+    if (!conference) return null
+
+    const dependents = await findDependentParticipations(tx, { conferenceId: id })
+    if (preview === 'true' || (dependents.length > 0 && cascade !== 'true')) {
+      return { deleted: null, dependents }
+    }
+
+    const before = await tx.conference.findUniqueOrThrow({ where: { id } })
+    const deleted = await tx.conference.update({
+      where: { id },
+      data: { deletedAt: new Date() }
+    })
+    await recordAudit(tx, c.get('user'), 'conferences.delete', [deleteChange('conference', before, deleted)])
+    await softDeleteParticipations(tx, dependents, deleted.deletedAt!, c.get('user'), 'conferences.delete', { releaseSeats: false })
+
+    return { deleted, dependents }
+  })
+
+  if (!result) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const participations = result.dependents.map(formatDependent)
+
+  if (preview === 'true') {
+    return c.json({ entity: 'conference' as const, id, participations }, 200)
+  }
+
+  if (!result.deleted) {
+    return problem(c, 409,
+      `Conference has ${participations.length} participations; delete them first or pass cascade=true`,
+      { participations })
+  }
+  invalidateMetadataSchemaComponents()
+
+  return c.json({
+    message: 'Conference deleted successfully',
+    deletedAt: result.deleted.deletedAt!.toISOString(),
+    participationIds: participations.map((participation) => participation.id)
+  }, 200)
+})
+
+const restoreConferenceRoute = createRoute({
+  method: 'post',
+  path: '/{id}/restore',
+  tags: ['Conferences'],
+  summary: 'Restore deleted conference',
+  description: 'Brings back a soft-deleted conference together with the participations deleted along with it',
+  ...withRoles('admin'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: RestoreResultSchema
+        }
+      },
+      description: 'Conference restored'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference is not deleted'
+    }
+  }
+})
+
+conferences.openapi(restoreConferenceRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const result = await prisma.$transaction(async (tx) => {
+    const conference = await tx.conference.findUnique({ where: { id, ...deletedWhere('include') } })
+    if (!conference || !conference.deletedAt) return conference
+
+    const restored = await tx.conference.update({
+      where: { id, ...deletedWhere('only') },
+      data: { deletedAt: null }
+    })
+    await recordAudit(tx, c.get('user'), 'conferences.restore', [restoreChange('conference', conference, restored)])
+
+    return restoreParticipations(tx, { conferenceId: id, deletedAt: conference.deletedAt }, c.get('user'), 'conferences.restore')
+  })
+
+  if (!result) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  if (!('restored' in result)) {
+    return problem(c, 409, 'Conference is not deleted')
+  }
+  invalidateMetadataSchemaComponents()
+
+  return c.json({
+    message: 'Conference restored successfully',
+    participationIds: result.restored,
+    waitlistedIds: result.waitlisted,
+    skipped: result.skipped
+  }, 200)
 })
 
-export default conferences
\ No newline at end of file
+export default conferences
@@ -0,0 +1,571 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma.js'
+import { ProblemError, ProblemSchema, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { authResponses, withRoles, type AuthUser } from '../lib/auth.js'
+import { canManageConference } from '../lib/organizers.js'
+import { lockConference, resolveSeatStatus, WAITLISTED } from '../lib/waitlist.js'
+import { recordStatusChanges } from '../lib/participation-status.js'
+import { DoubleBookingError, checkDoubleBooking } from '../lib/double-booking.js'
+import { findDuplicateScientists } from '../lib/duplicates.js'
+import { normalizeOrcid } from '../lib/orcid.js'
+import { createChange, recordAudit } from '../lib/audit.js'
+import { deletedWhere } from '../lib/soft-delete.js'
+import { conferenceMetadata, metadataSchemaOf, validateMetadata, type JsonSchema } from '../lib/metadata-schema.js'
+import {
+  ImportFileError,
+  ImportRowError,
+  cell,
+  readSpreadsheet,
+  summarize,
+  toDateTime,
+  toNumber,
+  zodIssues,
+  type ImportEntity,
+  type ImportIssue,
+  type ImportRow,
+  type ImportRowReport
+} from '../lib/import.js'
+import { CreateScientistSchema } from './scientists.js'
+import { CreateConferenceSchema } from './conferences.js'
+import { CreateParticipationSchema } from './participations.js'
+
+type Tx = Prisma.TransactionClient
+type ImportMode = 'dry-run' | 'commit'
+type ImportResult = { error: string } | { report: ReturnType<typeof summarize> }
+
+type ScientistInput = z.infer<typeof CreateScientistSchema>
+type ConferenceInput = z.infer<typeof CreateConferenceSchema>
+type ParticipationInput = z.infer<typeof CreateParticipationSchema>
+
+const imports = new OpenAPIHono({ defaultHook: validationHook })
+
+const ImportQuerySchema = z.object({
+  mode: z.enum(['dry-run', 'commit']).optional().default('dry-run').openapi({
+    description: 'dry-run only validates the file; commit imports every row in one transaction, or nothing if any row is invalid'
+  })
+})
+
+const ImportFileSchema = z.object({
+  file: z.any().openapi({
+    type: 'string',
+    format: 'binary',
+    description: 'CSV (comma, semicolon or tab separated) or XLSX file. The first row holds the column names'
+  })
+}).openapi('ImportFile')
+
+const ImportIssueSchema = z.object({
+  field: z.string(),
+  message: z.string()
+}).openapi('ImportIssue')
+
+const ImportReportSchema = z.object({
+  entity: z.enum(['scientists', 'conferences', 'participations']),
+  mode: z.enum(['dry-run', 'commit']),
+  committed: z.boolean(),
+  total: z.number().int().nonnegative(),
+  valid: z.number().int().nonnegative(),
+  invalid: z.number().int().nonnegative(),
+  rows: z.array(z.object({
+    line: z.number().int().positive().openapi({ description: 'Row number in the spreadsheet; the header is row 1' }),
+    status: z.enum(['valid', 'invalid', 'created']),
+    id: z.number().int().positive().nullable().openapi({ description: 'ID of the created record (commit mode)' }),
+    errors: z.array(ImportIssueSchema),
+    warnings: z.array(z.string())
+  }))
+}).openapi('ImportReport')
+
+
+type Prepared<T> = { report: ImportRowReport; data?: T }
+
+function prepared<T>(row: ImportRow, errors: ImportIssue[], data?: T, warnings: string[] = []): Prepared<T> {
+  return {
+    report: { line: row.line, status: errors.length > 0 ? 'invalid' : 'valid', id: null, errors, warnings },
+    data: errors.length > 0 ? undefined : data
+  }
+}
+
+function invalidate(entry: Prepared<unknown>, issue: ImportIssue) {
+  entry.report.errors.push(issue)
+  entry.report.status = 'invalid'
+  entry.data = undefined
+}
+
+/**
+ * Shared flow of all import endpoints: read the file, validate every row and, in
+ * commit mode, save all rows in a single transaction.
+ */
+async function runImport<T>(
+  entity: ImportEntity,
+  mode: ImportMode,
+  file: unknown,
+  validate: (rows: ImportRow[]) => Promise<Array<Prepared<T>>>,
+  save: (tx: Tx, data: T, line: number) => Promise<{ id: number; warnings?: string[] }>,
+  prepare?: (tx: Tx, data: T[]) => Promise<void>
+): Promise<ImportResult> {
+  if (!(file instanceof File)) {
+    return { error: 'Upload the spreadsheet as multipart/form-data in the "file" field' }
+  }
+
+  let rows: ImportRow[]
+  try {
+    rows = await readSpreadsheet(file)
+  } catch (error) {
+    if (error instanceof ImportFileError) return { error: error.message }
+    throw error
+  }
+
+  const entries = await validate(rows)
+  const reports = entries.map((entry) => entry.report)
+
+  if (mode === 'dry-run' || reports.some((report) => report.status === 'invalid')) {
+    return { report: summarize(entity, mode, reports) }
+  }
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      if (prepare) await prepare(tx, entries.map((entry) => entry.data as T))
+
+      for (const entry of entries) {
+        const saved = await save(tx, entry.data as T, entry.report.line)
+        entry.report.status = 'created'
+        entry.report.id = saved.id
+        entry.report.warnings.push(...(saved.warnings ?? []))
+      }
+    }, { timeout: 120000 })
+  } catch (error) {
+    if (!(error instanceof ImportRowError)) throw error
+
+    for (const entry of entries) {
+      entry.report.status = entry.report.line === error.line ? 'invalid' : 'valid'
+      entry.report.id = null
+      if (entry.report.line === error.line) entry.report.errors.push(...error.errors)
+    }
+  }
+
+  return { report: summarize(entity, mode, reports) }
+}
+
+function importRoute(entity: string, path: string, description: string) {
+  return createRoute({
+    method: 'post',
+    path,
+    tags: ['Import'],
+    summary: `Import ${entity} from CSV or XLSX`,
+    description,
+    ...withRoles('admin', 'organizer'),
+    request: {
+      query: ImportQuerySchema,
+      body: {
+        content: {
+          'multipart/form-data': {
+            schema: ImportFileSchema
+          }
+        }
+      }
+    },
+    responses: {
+      ...problemResponses,
+      200: {
+        content: {
+          'application/json': {
+            schema: ImportReportSchema
+          }
+        },
+        description: 'Validation report (dry-run) or import result (commit)'
+      },
+      ...authResponses,
+      400: {
+        content: {
+          'application/problem+json': {
+            schema: ProblemSchema
+          }
+        },
+        description: 'Missing or unreadable file'
+      },
+      422: {
+        content: {
+          'application/json': {
+            schema: ImportReportSchema
+          }
+        },
+        description: 'Commit rejected because some rows are invalid; nothing was imported'
+      }
+    }
+  })
+}
+
+const importScientistsRoute = importRoute(
+  'scientists',
+  '/scientists',
+  'Columns: fullName, country, degree, specialization, organization, email, orcid, hIndex. ' +
+    'Rows are validated like POST /scientists; emails and ORCID iDs must not exist yet or repeat within the file. ' +
+    'Likely duplicates by name and organization are reported as warnings'
+)
+
+imports.openapi(importScientistsRoute, async (c) => {
+  const { mode } = c.req.valid('query')
+  const { file } = c.req.valid('form')
+
+  const result = await runImport<ScientistInput>(
+    'scientists',
+    mode,
+    file,
+    async (rows) => {
+      const firstLineByEmail = new Map<string, number>()
+      const firstLineByOrcid = new Map<string, number>()
+
+      const entries = rows.map((row): Prepared<ScientistInput> => {
+        const parsed = CreateScientistSchema.safeParse({
+          fullName: cell(row, 'fullName'),
+          country: cell(row, 'country'),
+          degree: cell(row, 'degree'),
+          specialization: cell(row, 'specialization'),
+          organization: cell(row, 'organization'),
+          email: cell(row, 'email'),
+          orcid: cell(row, 'orcid'),
+          hIndex: toNumber(cell(row, 'hIndex'))
+        })
+
+        if (!parsed.success) return prepared(row, zodIssues(parsed.error))
+
+        const errors: ImportIssue[] = []
+        const email = parsed.data.email?.toLowerCase()
+        if (email) {
+          const first = firstLineByEmail.get(email)
+          if (first) errors.push({ field: 'email', message: `Email is already used in row ${first}` })
+          else firstLineByEmail.set(email, row.line)
+        }
+        const orcid = parsed.data.orcid
+        if (orcid) {
+          const first = firstLineByOrcid.get(orcid)
+          if (first) errors.push({ field: 'orcid', message: `ORCID iD is already used in row ${first}` })
+          else firstLineByOrcid.set(orcid, row.line)
+        }
+
+        return prepared(row, errors, parsed.data)
+      })
+
+      // Deleted scientists keep their email and ORCID iD, so they are matched too
+      const emails = entries.flatMap((entry) => (entry.data?.email ? [entry.data.email] : []))
+      const existing = await prisma.scientist.findMany({
+        where: { email: { in: emails, mode: 'insensitive' }, ...deletedWhere('include') },
+        select: { id: true, email: true }
+      })
+      const existingByEmail = new Map(existing.map((s) => [s.email!.toLowerCase(), s.id]))
+
+      const orcids = entries.flatMap((entry) => (entry.data?.orcid ? [entry.data.orcid] : []))
+      const existingOrcids = await prisma.scientist.findMany({
+        where: { orcid: { in: orcids }, ...deletedWhere('include') },
+        select: { id: true, orcid: true }
+      })
+      const existingByOrcid = new Map(existingOrcids.map((s) => [s.orcid!, s.id]))
+
+      for (const entry of entries) {
+        const id = entry.data?.email && existingByEmail.get(entry.data.email.toLowerCase())
+        if (id) invalidate(entry, { field: 'email', message: `Scientist ${id} already has this email` })
+        const orcidId = entry.data?.orcid && existingByOrcid.get(entry.data.orcid)
+        if (orcidId) invalidate(entry, { field: 'orcid', message: `Scientist ${orcidId} already has this ORCID iD` })
+
+        if (entry.data && entry.report.status === 'valid') {
+          const similar = await findDuplicateScientists(prisma, { fullName: entry.data.fullName, organization: entry.data.organization })
+          entry.report.warnings.push(...similar.map((duplicate) =>
+            `Similar to scientist ${duplicate.id} '${duplicate.fullName}' (${duplicate.organization})`))
+        }
+      }
+
+      return entries
+    },
+    async (tx, data) => {
+      const scientist = await tx.scientist.create({ data })
+      await recordAudit(tx, c.get('user'), 'import.scientists', [createChange('scientist', scientist)])
+      return { id: scientist.id }
+    }
+  )
+
+  if ('error' in result) return problem(c, 400, result.error)
+  if (result.report.invalid > 0 && mode === 'commit') return c.json(result.report, 422)
+  return c.json(result.report, 200)
+})
+
+const importConferencesRoute = importRoute(
+  'conferences',
+  '/conferences',
+  'Columns: topic, name, date, endDate, country, location, capacity, timezone. ' +
+    'Dates may be plain dates (2026-05-10) or ISO datetimes. The importing user becomes organizer of every created conference'
+)
+
+imports.openapi(importConferencesRoute, async (c) => {
+  const { mode } = c.req.valid('query')
+  const { file } = c.req.valid('form')
+  const user = c.get('user')
+
+  const result = await runImport<ConferenceInput>(
+    'conferences',
+    mode,
+    file,
+    async (rows) => rows.map((row): Prepared<ConferenceInput> => {
+      const parsed = CreateConferenceSchema.safeParse({
+        topic: cell(row, 'topic'),
+        name: cell(row, 'name'),
+        date: toDateTime(cell(row, 'date')),
+        endDate: toDateTime(cell(row, 'endDate')),
+        country: cell(row, 'country'),
+        location: cell(row, 'location'),
+        capacity: toNumber(cell(row, 'capacity')),
+        timezone: cell(row, 'timezone')
+      })
+
+      if (!parsed.success) return prepared(row, zodIssues(parsed.error))
+
+      const errors: ImportIssue[] = []
+      if (parsed.data.endDate && new Date(parsed.data.endDate) < new Date(parsed.data.date)) {
+        errors.push({ field: 'endDate', message: 'End date must not be before the start date' })
+      }
+
+      return prepared(row, errors, parsed.data)
+    }),
+    async (tx, data) => {
+      const conference = await tx.conference.create({
+        data: {
+          ...data,
+          date: new Date(data.date),
+          endDate: data.endDate ? new Date(data.endDate) : null,
+          capacity: data.capacity || 0,
+          organizers: {
+            create: { userId: user.id }
+          }
+        }
+      })
+      await recordAudit(tx, user, 'import.conferences', [createChange('conference', conference)])
+      return { id: conference.id }
+    }
+  )
+
+  if ('error' in result) return problem(c, 400, result.error)
+  if (result.report.invalid > 0 && mode === 'commit') return c.json(result.report, 422)
+  return c.json(result.report, 200)
+})
+
+type Lookup = { id?: number; error?: string }
+
+// Resolves spreadsheet references to IDs, querying each distinct value only once
+function createResolver(user: AuthUser) {
+  const cache = new Map<string, Promise<Lookup>>()
+
+  const once = (key: string, lookup: () => Promise<Lookup>) => {
+    if (!cache.has(key)) cache.set(key, lookup())
+    return cache.get(key)!
+  }
+
+  const single = (label: string, matches: Array<{ id: number }>): Lookup => {
+    if (matches.length === 0) return { error: `No ${label}` }
+    if (matches.length > 1) return { error: `${matches.length} records match ${label}; use an ID instead` }
+    return { id: matches[0].id }
+  }
+
+  const scientist = (row: ImportRow): Promise<Lookup> => {
+    const id = cell(row, 'scientistId')
+    const email = cell(row, 'scientistEmail')
+    const orcidCell = cell(row, 'scientistOrcid')
+    const orcid = orcidCell && (normalizeOrcid(orcidCell) ?? orcidCell)
+    const name = cell(row, 'scientistName')
+
+    if (id) {
+      return once(`scientist:id:${id}`, async () => single(`scientist with ID ${id}`,
+        await prisma.scientist.findMany({ where: { id: Number(id) || 0 }, select: { id: true } })))
+    }
+    if (email) {
+      return once(`scientist:email:${email.toLowerCase()}`, async () => single(`scientist with email ${email}`,
+        await prisma.scientist.findMany({ where: { email: { equals: email, mode: 'insensitive' } }, select: { id: true } })))
+    }
+    if (orcid) {
+      return once(`scientist:orcid:${orcid}`, async () => single(`scientist with ORCID ${orcid}`,
+        await prisma.scientist.findMany({ where: { orcid }, select: { id: true } })))
+    }
+    if (name) {
+      return once(`scientist:name:${name.toLowerCase()}`, async () => single(`scientist named '${name}'`,
+        await prisma.scientist.findMany({ where: { fullName: { equals: name, mode: 'insensitive' } }, select: { id: true } })))
+    }
+    return Promise.resolve({ error: 'One of scientistId, scientistEmail, scientistOrcid or scientistName is required' })
+  }
+
+  const conference = async (row: ImportRow): Promise<Lookup> => {
+    const id = cell(row, 'conferenceId')
+    const name = cell(row, 'conferenceName')
+
+    let found: Lookup
+    if (id) {
+      found = await once(`conference:id:${id}`, async () => single(`conference with ID ${id}`,
+        await prisma.conference.findMany({ where: { id: Number(id) || 0 }, select: { id: true } })))
+    } else if (name) {
+      found = await once(`conference:name:${name.toLowerCase()}`, async () => single(`conference named '${name}'`,
+        await prisma.conference.findMany({ where: { name: { equals: name, mode: 'insensitive' } }, select: { id: true } })))
+    } else {
+      return { error: 'One of conferenceId or conferenceName is required' }
+    }
+
+    if (found.id === undefined) return found
+
+    const conferenceId = found.id
+    const allowed = await once(`conference:manage:${conferenceId}`, async () =>
+      (await canManageConference(prisma, user, conferenceId)) ? { id: conferenceId } : { error: 'Only organizers of this conference can import participations into it' })
+
+    return allowed
+  }
+
+  return { scientist, conference }
+}
+
+function parseMetadata(value: string | undefined): { value?: unknown; error?: string } {
+  if (value === undefined) return {}
+  try {
+    return { value: JSON.parse(value) }
+  } catch {
+    return { error: 'metadata must be a JSON object' }
+  }
+}
+
+const importParticipationsRoute = importRoute(
+  'participations',
+  '/participations',
+  'Columns: talkTitle, participationType, durationMinutes, status, metadata (JSON), ' +
+    'one of scientistId, scientistEmail, scientistOrcid or scientistName, and one of conferenceId or conferenceName. ' +
+    'Rows are registered like POST /participations, including the waitlist when a conference is full, the double-booking check ' +
+    'and the metadata schema of the conference'
+)
+
+imports.openapi(importParticipationsRoute, async (c) => {
+  const { mode } = c.req.valid('query')
+  const { file } = c.req.valid('form')
+  const resolver = createResolver(c.get('user'))
+  const metadataSchemas = new Map<number, JsonSchema | null>()
+
+  const result = await runImport<ParticipationInput>(
+    'participations',
+    mode,
+    file,
+    async (rows) => {
+      const entries: Array<Prepared<ParticipationInput>> = []
+
+      for (const row of rows) {
+        const errors: ImportIssue[] = []
+        const [scientist, conference] = await Promise.all([resolver.scientist(row), resolver.conference(row)])
+        const metadata = parseMetadata(cell(row, 'metadata'))
+
+        if (scientist.error) errors.push({ field: 'scientist', message: scientist.error })
+        if (conference.error) errors.push({ field: 'conference', message: conference.error })
+        if (metadata.error) errors.push({ field: 'metadata', message: metadata.error })
+
+        const parsed = CreateParticipationSchema.safeParse({
+          talkTitle: cell(row, 'talkTitle'),
+          participationType: cell(row, 'participationType'),
+          durationMinutes: toNumber(cell(row, 'durationMinutes')),
+          scientistId: scientist.id,
+          conferenceId: conference.id,
+          status: cell(row, 'status'),
+          metadata: metadata.value
+        })
+
+        if (!parsed.success) {
+          // Unresolved references are already reported above
+          const issues = zodIssues(parsed.error).filter((issue) =>
+            !(issue.field === 'scientistId' && scientist.error) &&
+            !(issue.field === 'conferenceId' && conference.error) &&
+            !(issue.field.startsWith('metadata') && metadata.error))
+          errors.push(...issues)
+        }
+
+        if (errors.length > 0 || !parsed.success) {
+          entries.push(prepared(row, errors))
+          continue
+        }
+
+        const conferenceId = parsed.data.conferenceId
+        if (!metadataSchemas.has(conferenceId)) metadataSchemas.set(conferenceId, await metadataSchemaOf(prisma, conferenceId))
+        const metadataSchema = metadataSchemas.get(conferenceId)
+        if (metadataSchema) {
+          const checked = validateMetadata(metadataSchema, parsed.data.metadata)
+          if (checked.errors.length > 0) {
+            entries.push(prepared(row, checked.errors.map(({ field, message }) => ({ field, message }))))
+            continue
+          }
+          parsed.data.metadata = checked.value
+        }
+
+        const warnings: string[] = []
+        try {
+          const conflicts = await checkDoubleBooking(prisma, { ...parsed.data, status: parsed.data.status ?? 'confirmed' })
+          warnings.push(...conflicts.map((conflict) => `Scientist is also registered at '${conflict.conference.name}' on overlapping dates`))
+        } catch (error) {
+          if (!(error instanceof DoubleBookingError)) throw error
+          errors.push({ field: 'scientistId', message: error.message })
+        }
+
+        entries.push(prepared(row, errors, parsed.data, warnings))
+      }
+
+      return entries
+    },
+    async (tx, data, line) => {
+      const conference = await tx.conference.findUniqueOrThrow({ where: { id: data.conferenceId } })
+
+      // Checked again under the conference lock, in case the schema changed since the rows were prepared
+      let metadata: Record<string, any> | undefined
+      try {
+        metadata = await conferenceMetadata(tx, data.conferenceId, data.metadata)
+      } catch (error) {
+        if (!(error instanceof ProblemError)) throw error
+        throw new ImportRowError(line, (error.options.errors ?? []).map(({ field, message }) => ({ field, message })))
+      }
+
+      const seat = await resolveSeatStatus(tx, conference, data.status || 'confirmed')
+
+      const created = await tx.participation.create({
+        data: {
+          talkTitle: data.talkTitle,
+          participationType: data.participationType,
+          durationMinutes: data.durationMinutes,
+          scientistId: data.scientistId,
+          conferenceId: data.conferenceId,
+          status: seat.status,
+          waitlistedAt: seat.waitlistedAt,
+          metadata
+        }
+      })
+      await recordStatusChanges(
+        tx,
+        [created.id],
+        null,
+        created.status,
+        seat.status === WAITLISTED ? 'Conference is at capacity' : 'Imported'
+      )
+      await recordAudit(tx, c.get('user'), 'import.participations', [createChange('participation', created)])
+
+      const warnings = seat.status === WAITLISTED ? ['Conference is at capacity; the participation was waitlisted'] : []
+      try {
+        const conflicts = await checkDoubleBooking(tx, created)
+        warnings.push(...conflicts.map((conflict) => `Scientist is also registered at '${conflict.conference.name}' on overlapping dates`))
+      } catch (error) {
+        if (!(error instanceof DoubleBookingError)) throw error
+        throw new ImportRowError(line, [{ field: 'scientistId', message: error.message }])
+      }
+
+      return { id: created.id, warnings }
+    },
+    async (tx, data) => {
+      // Lock in id order, like the participation update route, before taking any seats
+      const conferenceIds = [...new Set(data.map((p) => p.conferenceId))].sort((a, b) => a - b)
+      for (const conferenceId of conferenceIds) {
+        await lockConference(tx, conferenceId)
+      }
+    }
+  )
+
+  if ('error' in result) return problem(c, 400, result.error)
+  if (result.report.invalid > 0 && mode === 'commit') return c.json(result.report, 422)
+  return c.json(result.report, 200)
+})
+
+export default imports
@@ -1,8 +1,47 @@
 import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
 import { z } from 'zod'
+import { Prisma, type Participation } from '@prisma/client'
 import { prisma } from '../lib/prisma.js'
+import { ProblemError, ProblemSchema, problem, problemResponses, referenceNotFound, validationHook } from '../lib/problem.js'
+import { PaginationSchema, cursorQuery, listPage, sortByQuery, type SortFields } from '../lib/pagination.js'
+import { filterQuery, parseFilters, type FilterFields } from '../lib/filters.js'
+import { metadataConditions } from '../lib/metadata-query.js'
+import { conferenceMetadata } from '../lib/metadata-schema.js'
+import { authResponses, withOptionalAuth, withRoles } from '../lib/auth.js'
+import { canManageConference, canManageConferences, myParticipationsWhere } from '../lib/organizers.js'
+import { ScheduleError, assertDurationFitsSlot, unscheduleParticipations } from '../lib/schedule.js'
+import {
+  ExportFormatQuerySchema,
+  exportContent,
+  exportResponse,
+  paginate,
+  resolveExportFormat,
+  type ExportColumn
+} from '../lib/export.js'
+import { DoubleBookingError, checkDoubleBooking, formatConflict } from '../lib/double-booking.js'
+import {
+  AuditEntrySchema,
+  createChange,
+  entityHistory,
+  formatAuditEntry,
+  recordAudit,
+  updateChange,
+  updateManyChanges
+} from '../lib/audit.js'
+import { DELETED_FILTERS, deletedWhere } from '../lib/soft-delete.js'
+import { DeleteResultSchema, RestoreResultSchema, restoreParticipations, softDeleteParticipations } from '../lib/deletion.js'
+import { WAITLISTED, countOccupiedSeats, fillOpenSeats, holdsSeat, lockConference, resolveSeatStatus } from '../lib/waitlist.js'
+import {
+  INITIAL_STATUSES,
+  PARTICIPATION_STATUSES,
+  StatusTransitionError,
+  assertTransition,
+  recordStatusChanges
+} from '../lib/participation-status.js'
 
-const participations = new OpenAPIHono()
+const participations = new OpenAPIHono({ defaultHook: validationHook })
+
+const ParticipationStatusSchema = z.enum(PARTICIPATION_STATUSES).openapi('ParticipationStatus')
 
 const ParticipationSchema = z.object({
   id: z.number().int().positive(),
@@ -11,16 +50,44 @@ const ParticipationSchema = z.object({
   durationMinutes: z.number().int().positive(),
   scientistId: z.number().int().positive(),
   conferenceId: z.number().int().positive(),
-  status: z.string(),
-  metadata: z.record(z.string(), z.any()).nullable()
+  status: ParticipationStatusSchema,
+  waitlistedAt: z.string().datetime().nullable(),
+  metadata: z.record(z.string(), z.any()).nullable(),
+  deletedAt: z.string().datetime().nullable()
 }).openapi('Participation')
 
+const DateConflictSchema = z.object({
+  participationId: z.number().int().positive(),
+  talkTitle: z.string(),
+  status: ParticipationStatusSchema,
+  conference: z.object({
+    id: z.number().int().positive(),
+    name: z.string(),
+    date: z.string().datetime(),
+    endDate: z.string().datetime().nullable()
+  }),
+  overlap: z.object({
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime()
+  })
+}).openapi('DateConflict')
+
+const SavedParticipationSchema = ParticipationSchema.extend({
+  conflicts: z.array(DateConflictSchema).openapi({
+    description: 'Other participations of the scientist at conferences on overlapping dates'
+  })
+}).openapi('SavedParticipation')
+
+export const DoubleBookingErrorSchema = ProblemSchema.extend({
+  conflicts: z.array(DateConflictSchema)
+}).openapi('DoubleBookingError')
+
 const ParticipationWithDetailsSchema = z.object({
   id: z.number().int().positive(),
   talkTitle: z.string(),
   participationType: z.string(),
   durationMinutes: z.number().int().positive(),
-  status: z.string(),
+  status: ParticipationStatusSchema,
   metadata: z.record(z.string(), z.any()).nullable(),
   scientist: z.object({
     id: z.number(),
@@ -38,24 +105,39 @@ const ParticipationWithDetailsSchema = z.object({
   })
 }).openapi('ParticipationWithDetails')
 
-const CreateParticipationSchema = z.object({
+export const CreateParticipationSchema = z.object({
   talkTitle: z.string().min(1, 'Talk title is required'),
   participationType: z.string().min(1, 'Participation type is required'),
   durationMinutes: z.number().min(1, 'Duration must be at least 1 minute'),
   scientistId: z.number().int().positive('Valid scientist ID required'),
   conferenceId: z.number().int().positive('Valid conference ID required'),
-  status: z.string().optional(),
-  metadata: z.record(z.string(), z.any()).optional()
+  status: z.enum(INITIAL_STATUSES).optional(),
+  metadata: z.record(z.string(), z.any()).optional().openapi({
+    description: 'Must match the metadata schema of the conference, if it has one (GET /conferences/{id}/metadata-schema, ' +
+      'or ConferenceMetadata<id> in the components of /doc); missing fields get their defaults'
+  })
 }).openapi('CreateParticipation')
 
-const UpdateParticipationSchema = CreateParticipationSchema.partial().openapi('UpdateParticipation')
+const UpdateParticipationSchema = CreateParticipationSchema.partial().extend({
+  status: ParticipationStatusSchema.optional(),
+  statusReason: z.string().min(1).optional()
+}).openapi('UpdateParticipation')
 
-const PaginationSchema = z.object({
-  page: z.number().int().positive(),
-  limit: z.number().int().positive(),
-  total: z.number().int().positive(),
-  pages: z.number().int().positive()
-}).openapi('Pagination')
+const StatusChangeSchema = z.object({
+  id: z.number().int().positive(),
+  fromStatus: ParticipationStatusSchema.nullable(),
+  toStatus: ParticipationStatusSchema,
+  reason: z.string().nullable(),
+  changedAt: z.string().datetime()
+}).openapi('ParticipationStatusChange')
+
+const StatusHistorySchema = z.object({
+  participationId: z.number().int().positive(),
+  status: ParticipationStatusSchema,
+  data: z.array(StatusChangeSchema),
+  changes: z.array(AuditEntrySchema).optional()
+    .openapi({ description: 'Audit log of the participation; only included for admins and organizers of the conference' })
+}).openapi('ParticipationStatusHistory')
 
 const ParticipationsResponseSchema = z.object({
   data: z.array(ParticipationSchema),
@@ -68,16 +150,138 @@ const ParticipationsWithDetailsResponseSchema = z.object({
 }).openapi('ParticipationsWithDetailsResponse')
 
 const SearchResultSchema = z.object({
-  data: z.array(z.any()),
-  pagination: z.object({
-    page: z.number(),
-    limit: z.number()
-  })
+  data: z.array(ParticipationWithDetailsSchema),
+  pagination: PaginationSchema
 }).openapi('SearchResult')
 
-const ErrorSchema = z.object({
-  error: z.string()
-}).openapi('Error')
+
+const StatusTransitionErrorSchema = ProblemSchema.extend({
+  from: ParticipationStatusSchema,
+  to: ParticipationStatusSchema,
+  allowed: z.array(ParticipationStatusSchema)
+}).openapi('StatusTransitionError')
+
+function formatTransitionError(error: StatusTransitionError) {
+  return {
+    from: error.from,
+    to: error.to,
+    allowed: error.allowed
+  }
+}
+
+export function formatDoubleBookingError(error: DoubleBookingError) {
+  return {
+    conflicts: error.conflicts.map(formatConflict)
+  }
+}
+
+const PARTICIPATION_COLUMNS: Array<ExportColumn<Participation>> = [
+  ['id', (p) => p.id],
+  ['talkTitle', (p) => p.talkTitle],
+  ['participationType', (p) => p.participationType],
+  ['durationMinutes', (p) => p.durationMinutes],
+  ['status', (p) => p.status],
+  ['waitlistedAt', (p) => p.waitlistedAt],
+  ['scientistId', (p) => p.scientistId],
+  ['conferenceId', (p) => p.conferenceId],
+  ['metadata', (p) => p.metadata]
+]
+
+// status is left out: Prisma cannot compare enums with gt and lt, which cursors need
+const PARTICIPATION_SORT_FIELDS = {
+  id: { type: 'number' },
+  talkTitle: { type: 'string' },
+  participationType: { type: 'string' },
+  durationMinutes: { type: 'number' },
+  scientistId: { type: 'number' },
+  conferenceId: { type: 'number' },
+  waitlistedAt: { type: 'date', nullable: true }
+} satisfies SortFields
+
+const PARTICIPATION_FILTER_FIELDS: FilterFields = {
+  id: { type: 'number' },
+  talkTitle: { type: 'string' },
+  participationType: { type: 'string' },
+  durationMinutes: { type: 'number' },
+  status: { type: 'enum', values: PARTICIPATION_STATUSES },
+  scientistId: { type: 'number' },
+  conferenceId: { type: 'number' },
+  waitlistedAt: { type: 'date', nullable: true },
+  'scientist.fullName': { type: 'string', where: (fullName) => ({ scientist: { fullName } }) },
+  'scientist.country': { type: 'string', where: (country) => ({ scientist: { country } }) },
+  'scientist.specialization': { type: 'string', where: (specialization) => ({ scientist: { specialization } }) },
+  'scientist.organization': { type: 'string', where: (organization) => ({ scientist: { organization } }) },
+  'scientist.hIndex': { type: 'number', where: (hIndex) => ({ scientist: { hIndex } }) },
+  'conference.name': { type: 'string', where: (name) => ({ conference: { name } }) },
+  'conference.topic': { type: 'string', where: (topic) => ({ conference: { topic } }) },
+  'conference.country': { type: 'string', where: (country) => ({ conference: { country } }) },
+  'conference.location': { type: 'string', where: (location) => ({ conference: { location } }) },
+  'conference.date': { type: 'date', where: (date) => ({ conference: { date } }) }
+}
+
+const PARTICIPATION_DETAILS_INCLUDE = {
+  scientist: {
+    select: {
+      id: true,
+      fullName: true,
+      country: true,
+      specialization: true,
+      hIndex: true
+    }
+  },
+  conference: {
+    select: {
+      id: true,
+      name: true,
+      topic: true,
+      date: true,
+      location: true
+    }
+  }
+} as const
+
+type ParticipationWithDetails = Participation & {
+  scientist: { id: number; fullName: string; country: string; specialization: string; hIndex: number }
+  conference: { id: number; name: string; topic: string; date: Date; location: string }
+}
+
+const PARTICIPATION_DETAILS_COLUMNS: Array<ExportColumn<ParticipationWithDetails>> = [
+  ['id', (p) => p.id],
+  ['talkTitle', (p) => p.talkTitle],
+  ['participationType', (p) => p.participationType],
+  ['durationMinutes', (p) => p.durationMinutes],
+  ['status', (p) => p.status],
+  ['scientistId', (p) => p.scientist.id],
+  ['scientistName', (p) => p.scientist.fullName],
+  ['scientistCountry', (p) => p.scientist.country],
+  ['scientistSpecialization', (p) => p.scientist.specialization],
+  ['scientistHIndex', (p) => p.scientist.hIndex],
+  ['conferenceId', (p) => p.conference.id],
+  ['conferenceName', (p) => p.conference.name],
+  ['conferenceTopic', (p) => p.conference.topic],
+  ['conferenceDate', (p) => p.conference.date],
+  ['conferenceLocation', (p) => p.conference.location],
+  ['metadata', (p) => p.metadata]
+]
+
+function formatParticipationWithDetails(p: ParticipationWithDetails) {
+  return {
+    id: p.id,
+    talkTitle: p.talkTitle,
+    participationType: p.participationType,
+    durationMinutes: p.durationMinutes,
+    status: p.status,
+    metadata: typeof p.metadata === 'object' ? p.metadata as Record<string, any> | null : null,
+    scientist: p.scientist,
+    conference: {
+      id: p.conference.id,
+      name: p.conference.name,
+      topic: p.conference.topic,
+      date: p.conference.date.toISOString(),
+      location: p.conference.location
+    }
+  }
+}
 
 function formatParticipation(p: any) {
   return {
@@ -88,7 +292,9 @@ function formatParticipation(p: any) {
     scientistId: p.scientistId,
     conferenceId: p.conferenceId,
     status: p.status,
-    metadata: typeof p.metadata === 'object' ? p.metadata : null
+    waitlistedAt: p.waitlistedAt ? p.waitlistedAt.toISOString() : null,
+    metadata: typeof p.metadata === 'object' ? p.metadata : null,
+    deletedAt: p.deletedAt ? p.deletedAt.toISOString() : null
   }
 }
 
@@ -98,62 +304,111 @@ const getParticipationsRoute = createRoute({
   tags: ['Participations'],
   summary: 'Get all participations',
   description: 'Returns list of participations with pagination and filtering support',
+  ...withOptionalAuth(),
   request: {
     query: z.object({
-      page: z.string().optional().default('1').openapi({ description: 'Page number' }),
-      limit: z.string().optional().default('10').openapi({ description: 'Items per page' }),
-      sortBy: z.string().optional().default('id').openapi({ description: 'Field to sort by' }),
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' }),
+      sortBy: sortByQuery(PARTICIPATION_SORT_FIELDS, 'id'),
       sortOrder: z.enum(['asc', 'desc']).optional().default('asc').openapi({ description: 'Sort order' }),
+      ...cursorQuery,
       participationType: z.string().optional().openapi({ description: 'Filter by participation type' }),
-      status: z.string().optional().openapi({ description: 'Filter by status' }),
+      status: ParticipationStatusSchema.optional().openapi({ description: 'Filter by status' }),
       scientistId: z.string().optional().openapi({ description: 'Filter by scientist ID' }),
-      conferenceId: z.string().optional().openapi({ description: 'Filter by conference ID' })
+      conferenceId: z.string().optional().openapi({ description: 'Filter by conference ID' }),
+      filter: filterQuery(PARTICIPATION_FILTER_FIELDS),
+      mine: z.enum(['true', 'false']).optional().openapi({
+        description: 'Only participations in conferences the caller organizes (organizers, admins) or their own (scientists)'
+      }),
+      deleted: z.enum(DELETED_FILTERS).optional().openapi({
+        description: 'Whether to list soft-deleted participations. Admins see all, organizers those of their conferences. ' +
+          'Defaults to exclude'
+      }),
+      format: ExportFormatQuerySchema
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
           schema: ParticipationsResponseSchema
-        }
+        },
+        ...exportContent
       },
       description: 'Participations list retrieved successfully'
+    },
+    401: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'mine=true or deleted requires a bearer token'
+    },
+    403: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Only admins and organizers may list deleted participations'
     }
   }
 })
 
 participations.openapi(getParticipationsRoute, async (c) => {
-  const { page, limit, sortBy, sortOrder, participationType, status, scientistId, conferenceId } = c.req.valid('query')
-  
-  const pageNum = parseInt(page)
-  const limitNum = parseInt(limit)
-  const skip = (pageNum - 1) * limitNum
+  const {
+    page, limit, sortBy, sortOrder, after, before, count,
+    participationType, status, scientistId, conferenceId, mine, deleted, format
+  } = c.req.valid('query')
+  const user = c.get('user')
+
+  if (mine === 'true' && !user) {
+    return problem(c, 401, 'Authentication required to list your participations')
+  }
+
+  const listsDeleted = deleted !== undefined && deleted !== 'exclude'
+  if (listsDeleted) {
+    if (!user) return problem(c, 401, 'Authentication required to list deleted participations')
+    if (user.role !== 'admin' && user.role !== 'organizer') {
+      return problem(c, 403, 'Only admins and organizers may list deleted participations')
+    }
+  }
 
-  const where: any = {}
+  const listing = listPage(PARTICIPATION_SORT_FIELDS, { page, limit, sortBy, sortOrder, after, before, count })
+
+  const where: any = { ...deletedWhere(deleted), AND: parseFilters(PARTICIPATION_FILTER_FIELDS, c.req.queries()) }
   if (participationType) where.participationType = { contains: participationType, mode: 'insensitive' }
-  if (status) where.status = { contains: status, mode: 'insensitive' }
+  if (status) where.status = status
   if (scientistId) where.scientistId = parseInt(scientistId)
   if (conferenceId) where.conferenceId = parseInt(conferenceId)
+  if ((mine === 'true' || (listsDeleted && user?.role === 'organizer')) && user) where.AND.push(myParticipationsWhere(user))
 
-  const [data, total] = await Promise.all([
+  const exportFormat = resolveExportFormat(format, c.req.header('Accept'))
+  if (exportFormat !== 'json') {
+    return exportResponse(c, exportFormat, {
+      filename: 'participations',
+      rows: paginate(PARTICIPATION_SORT_FIELDS, { sortBy, sortOrder }, (batch) =>
+        prisma.participation.findMany({ where: batch.where(where), orderBy: batch.orderBy, take: batch.take })
+      ),
+      columns: PARTICIPATION_COLUMNS,
+      toJson: formatParticipation
+    })
+  }
+
+  const [rows, total] = await Promise.all([
     prisma.participation.findMany({
-      where,
-      skip,
-      take: limitNum,
-      orderBy: { [sortBy]: sortOrder }
+      where: listing.where(where),
+      skip: listing.skip,
+      take: listing.take,
+      orderBy: listing.orderBy
     }),
-    prisma.participation.count({ where })
+    listing.count ? prisma.participation.count({ where }) : null
   ])
 
-  return c.json({
-    data: data.map(formatParticipation),
-    pagination: {
-      page: pageNum,
-      limit: limitNum,
-      total,
-      pages: Math.ceil(total / limitNum)
-    }
-  })
+  const { data, pagination } = listing.result(rows, total)
+  return c.json({ data: data.map(formatParticipation), pagination }, 200)
 })
 
 const getParticipationsWithJoinRoute = createRoute({
@@ -162,91 +417,157 @@ const getParticipationsWithJoinRoute = createRoute({
   tags: ['Participations'],
   summary: 'Get participations with JOIN (scientist and conference details)',
   description: 'Returns participations with related scientist and conference data using JOIN',
+  ...withOptionalAuth(),
   request: {
     query: z.object({
-      page: z.string().optional().default('1').openapi({ description: 'Page number' }),
-      limit: z.string().optional().default('10').openapi({ description: 'Items per page' }),
-      participationType: z.string().optional().openapi({ description: 'Filter by participation type' })
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' }),
+      sortBy: sortByQuery(PARTICIPATION_SORT_FIELDS, 'id'),
+      sortOrder: z.enum(['asc', 'desc']).optional().default('desc').openapi({ description: 'Sort order' }),
+      ...cursorQuery,
+      participationType: z.string().optional().openapi({ description: 'Filter by participation type' }),
+      filter: filterQuery(PARTICIPATION_FILTER_FIELDS),
+      mine: z.enum(['true', 'false']).optional().openapi({
+        description: 'Only participations in conferences the caller organizes (organizers, admins) or their own (scientists)'
+      }),
+      format: ExportFormatQuerySchema
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
           schema: ParticipationsWithDetailsResponseSchema
-        }
+        },
+        ...exportContent
       },
       description: 'Participations with details retrieved'
+    },
+    401: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'mine=true requires a bearer token'
     }
   }
 })
 
 participations.openapi(getParticipationsWithJoinRoute, async (c) => {
-  const { page, limit, participationType } = c.req.valid('query')
-  
-  const pageNum = parseInt(page)
-  const limitNum = parseInt(limit)
-  const skip = (pageNum - 1) * limitNum
+  const { page, limit, sortBy, sortOrder, after, before, count, participationType, mine, format } = c.req.valid('query')
+  const user = c.get('user')
+
+  if (mine === 'true' && !user) {
+    return problem(c, 401, 'Authentication required to list your participations')
+  }
 
-  const where: any = {}
+  const listing = listPage(PARTICIPATION_SORT_FIELDS, { page, limit, sortBy, sortOrder, after, before, count })
+
+  const where: any = { AND: parseFilters(PARTICIPATION_FILTER_FIELDS, c.req.queries()) }
   if (participationType) {
     where.participationType = { contains: participationType, mode: 'insensitive' }
   }
+  if (mine === 'true' && user) where.AND.push(myParticipationsWhere(user))
 
-  const [data, total] = await Promise.all([
+  const exportFormat = resolveExportFormat(format, c.req.header('Accept'))
+  if (exportFormat !== 'json') {
+    return exportResponse(c, exportFormat, {
+      filename: 'participations',
+      rows: paginate(PARTICIPATION_SORT_FIELDS, { sortBy, sortOrder }, (batch) => prisma.participation.findMany({
+        where: batch.where(where),
+        include: PARTICIPATION_DETAILS_INCLUDE,
+        orderBy: batch.orderBy,
+        take: batch.take
+      })),
+      columns: PARTICIPATION_DETAILS_COLUMNS,
+      toJson: formatParticipationWithDetails
+    })
+  }
+
+  const [rows, total] = await Promise.all([
     prisma.participation.findMany({
-      where,
-      skip,
-      take: limitNum,
-      include: {
-        scientist: {
-          select: {
-            id: true,
-            fullName: true,
-            country: true,
-            specialization: true,
-            hIndex: true
-          }
-        },
-        conference: {
-          select: {
-            id: true,
-            name: true,
-            topic: true,
-            date: true,
-            location: true
-          }
-        }
-      },
-      orderBy: { id: 'desc' }
+      where: listing.where(where),
+      skip: listing.skip,
+      take: listing.take,
+      include: PARTICIPATION_DETAILS_INCLUDE,
+      orderBy: listing.orderBy
     }),
-    prisma.participation.count({ where })
+    listing.count ? prisma.participation.count({ where }) : null
   ])
 
-  return c.json({
-    data: data.map((p: any) => ({
-      id: p.id,
-      talkTitle: p.talkTitle,
-      participationType: p.participationType,
-      durationMinutes: p.durationMinutes,
-      status: p.status,
-      metadata: typeof p.metadata === 'object' ? p.metadata : null,
-      scientist: p.scientist,
-      conference: {
-        id: p.conference.id,
-        name: p.conference.name,
-        topic: p.conference.topic,
-        date: p.conference.date.toISOString(),
-        location: p.conference.location
-      }
-    })),
-    pagination: {
-      page: pageNum,
-      limit: limitNum,
-      total,
-      pages: Math.ceil(total / limitNum)
+  const { data, pagination } = listing.result(rows, total)
+  return c.json({ data: data.map(formatParticipationWithDetails), pagination }, 200)
+})
+
+const searchParticipationsRoute = createRoute({
+  method: 'get',
+  path: '/search',
+  tags: ['Participations'],
+  summary: 'Search participations by metadata',
+  description: 'Finds participations by their JSON metadata; all given criteria must match. ' +
+    'q matches string and number values literally and case-insensitively, not key names. ' +
+    'Values of key paths are filtered with metadata.<path>=value, e.g. metadata.track=AI or metadata.session.room=B2; ' +
+    'true, false, null and numbers also match the JSON literal, so metadata.slides=true matches both true and "true". ' +
+    'Arrays match when one of their elements matches, and repeating a parameter matches any of its values',
+  request: {
+    query: z.object({
+      q: z.string().min(1).max(200).optional().openapi({ description: 'Text contained in a metadata value', example: 'robotics' }),
+      contains: z.string().optional().openapi({
+        description: 'JSON object the metadata must contain (@>)',
+        example: '{"track":"AI","slides":true}'
+      }),
+      has: z.string().optional().openapi({
+        description: 'Comma-separated key paths that must exist, e.g. slides,session.room',
+        example: 'slides'
+      }),
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SearchResultSchema
+        }
+      },
+      description: 'Matching participations, by ID'
     }
+  }
+})
+
+participations.openapi(searchParticipationsRoute, async (c) => {
+  const { q, contains, has, page, limit } = c.req.valid('query')
+
+  const conditions = metadataConditions({ q, contains, has }, c.req.queries())
+  if (conditions.length === 0) {
+    return problem(c, 400, 'Give q, contains, has or a metadata.<path> filter')
+  }
+  const where = Prisma.join([Prisma.sql`p."deletedAt" IS NULL`, ...conditions], ' AND ')
+
+  const [matches, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<Array<{ id: number }>>`
+      SELECT p.id FROM "Participation" p
+      WHERE ${where}
+      ORDER BY p.id
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `,
+    prisma.$queryRaw<[{ total: number }]>`SELECT count(*)::int AS total FROM "Participation" p WHERE ${where}`
+  ])
+
+  const rows = await prisma.participation.findMany({
+    where: { id: { in: matches.map((match) => match.id) } },
+    include: PARTICIPATION_DETAILS_INCLUDE,
+    orderBy: { id: 'asc' }
   })
+
+  return c.json({
+    data: rows.map(formatParticipationWithDetails),
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  }, 200)
 })
 
 const bulkUpdateParticipationsRoute = createRoute({
@@ -254,22 +575,25 @@ const bulkUpdateParticipationsRoute = createRoute({
   path: '/bulk-update-status',
   tags: ['Participations'],
   summary: 'Bulk UPDATE with complex WHERE condition',
-  description: 'Update status of multiple participations based on conference date and current status',
+  description: 'Update status of multiple participations based on conference date and current status. The transition from oldStatus to newStatus must be allowed by the status lifecycle',
+  ...withRoles('admin', 'organizer'),
   request: {
     body: {
       content: {
         'application/json': {
           schema: z.object({
             conferenceId: z.number().int().positive(),
-            oldStatus: z.string(),
-            newStatus: z.string(),
-            beforeDate: z.string().datetime().optional()
+            oldStatus: ParticipationStatusSchema,
+            newStatus: ParticipationStatusSchema,
+            beforeDate: z.string().datetime().optional(),
+            reason: z.string().min(1).optional()
           })
         }
       }
     }
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
@@ -280,12 +604,43 @@ const bulkUpdateParticipationsRoute = createRoute({
         }
       },
       description: 'Bulk update completed'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: z.union([StatusTransitionErrorSchema, ProblemSchema])
+        }
+      },
+      description: 'Illegal status transition or not enough free seats for the requested status'
     }
   }
 })
 
 participations.openapi(bulkUpdateParticipationsRoute, async (c) => {
-  const { conferenceId, oldStatus, newStatus, beforeDate } = c.req.valid('json')
+  const { conferenceId, oldStatus, newStatus, beforeDate, reason } = c.req.valid('json')
+  const user = c.get('user')
+
+  if (!(await canManageConference(prisma, user, conferenceId))) {
+    return problem(c, 403, 'Only organizers of this conference can update its participations')
+  }
+
+  try {
+    assertTransition(oldStatus, newStatus)
+  } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return problem(c, 409, error.message, formatTransitionError(error))
+    }
+    throw error
+  }
 
   const where: any = {
     conferenceId,
@@ -300,17 +655,128 @@ participations.openapi(bulkUpdateParticipationsRoute, async (c) => {
     }
   }
 
-  const result = await prisma.participation.updateMany({
-    where,
-    data: {
-      status: newStatus
+  const result = await prisma.$transaction(async (tx) => {
+    const conference = await lockConference(tx, conferenceId)
+    if (!conference) return null
+
+    if (conference.capacity > 0 && !holdsSeat(oldStatus) && holdsSeat(newStatus)) {
+      const [occupied, affected] = await Promise.all([
+        countOccupiedSeats(tx, conferenceId),
+        tx.participation.count({ where })
+      ])
+
+      if (occupied + affected > conference.capacity) {
+        return { overbooked: true as const, available: Math.max(conference.capacity - occupied, 0), affected }
+      }
     }
+
+    const rows = await tx.participation.findMany({ where })
+    const ids = rows.map((p: { id: number }) => p.id)
+
+    const updated = await tx.participation.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        status: newStatus,
+        waitlistedAt: newStatus === WAITLISTED ? new Date() : null
+      }
+    })
+    await recordStatusChanges(tx, ids, oldStatus, newStatus, reason)
+    await recordAudit(tx, user, 'participations.bulk-update-status', updateManyChanges(
+      'participation',
+      rows,
+      await tx.participation.findMany({ where: { id: { in: ids } } })
+    ))
+
+    if (holdsSeat(oldStatus) && !holdsSeat(newStatus)) {
+      await unscheduleParticipations(tx, ids)
+      await fillOpenSeats(tx, conferenceId, user, 'participations.bulk-update-status')
+    }
+
+    return { overbooked: false as const, count: updated.count }
   })
 
+  if (!result) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  if (result.overbooked) {
+    return problem(c, 409,
+      `Cannot move ${result.affected} participations into '${newStatus}': only ${result.available} seats are available`)
+  }
+
   return c.json({
     message: `Updated ${result.count} participations from '${oldStatus}' to '${newStatus}'`,
     updated: result.count
+  }, 200)
+})
+
+const getParticipationHistoryRoute = createRoute({
+  method: 'get',
+  path: '/{id}/history',
+  tags: ['Participations'],
+  summary: 'Get participation status history',
+  description: 'Lists every status transition of the participation in chronological order. ' +
+    'Admins and organizers of the conference also get every recorded change with actor and before and after values',
+  ...withOptionalAuth(),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Participation ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: StatusHistorySchema
+        }
+      },
+      description: 'Status history retrieved'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Participation not found'
+    }
+  }
+})
+
+participations.openapi(getParticipationHistoryRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const participation = await prisma.participation.findUnique({
+    where: { id },
+    include: {
+      statusChanges: {
+        orderBy: [{ changedAt: 'asc' }, { id: 'asc' }]
+      }
+    }
   })
+
+  if (!participation) {
+    return problem(c, 404, 'Participation not found')
+  }
+
+  const user = c.get('user')
+  const changes = user && (await canManageConference(prisma, user, participation.conferenceId))
+    ? await entityHistory(prisma, 'participation', id)
+    : null
+
+  return c.json({
+    participationId: participation.id,
+    status: participation.status,
+    ...(changes && { changes: changes.map(formatAuditEntry) }),
+    data: participation.statusChanges.map((change: any) => ({
+      id: change.id,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      reason: change.reason,
+      changedAt: change.changedAt.toISOString()
+    }))
+  }, 200)
 })
 
 const getParticipationRoute = createRoute({
@@ -324,6 +790,7 @@ const getParticipationRoute = createRoute({
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
@@ -334,8 +801,8 @@ const getParticipationRoute = createRoute({
     },
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Participation not found'
@@ -351,7 +818,7 @@ participations.openapi(getParticipationRoute, async (c) => {
   })
 
   if (!participation) {
-    return c.json({ error: 'Participation not found' }, 404)
+    return problem(c, 404, 'Participation not found')
   }
 
   return c.json(formatParticipation(participation), 200)
@@ -362,6 +829,9 @@ const createParticipationRoute = createRoute({
   path: '/',
   tags: ['Participations'],
   summary: 'Create new participation',
+  description: 'Registers a scientist for a conference. When the conference is at capacity the participation is created as waitlisted. ' +
+    'Registrations of the same scientist at conferences on overlapping dates are listed in conflicts, or rejected when SCONF_DOUBLE_BOOKING_MODE=strict',
+  ...withRoles('admin', 'organizer', 'scientist'),
   request: {
     body: {
       content: {
@@ -372,44 +842,90 @@ const createParticipationRoute = createRoute({
     }
   },
   responses: {
+    ...problemResponses,
     201: {
       content: {
         'application/json': {
-          schema: ParticipationSchema
+          schema: SavedParticipationSchema
         }
       },
       description: 'Participation created successfully'
     },
+    ...authResponses,
     400: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Invalid data or scientist/conference not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: DoubleBookingErrorSchema
+        }
+      },
+      description: 'Scientist is already registered at a conference on overlapping dates (strict mode only)'
     }
   }
 })
 
 participations.openapi(createParticipationRoute, async (c) => {
   const data = c.req.valid('json')
+  const user = c.get('user')
+
+  if (user.role === 'scientist' && user.scientistId !== data.scientistId) {
+    return problem(c, 403, 'Scientists can only register themselves')
+  }
+
+  if (user.role === 'organizer' && !(await canManageConference(prisma, user, data.conferenceId))) {
+    return problem(c, 403, 'Only organizers of this conference can add participations to it')
+  }
   
   try {
-    const participation = await prisma.participation.create({
-      data: {
-        talkTitle: data.talkTitle,
-        participationType: data.participationType,
-        durationMinutes: data.durationMinutes,
-        scientistId: data.scientistId,
-        conferenceId: data.conferenceId,
-        status: data.status || 'confirmed',
-        metadata: data.metadata
+    const { participation, conflicts } = await prisma.$transaction(async (tx) => {
+      const conference = await lockConference(tx, data.conferenceId)
+      if (!conference) throw referenceNotFound('conferenceId', `Conference ${data.conferenceId} not found`)
+
+      // Soft-deleted scientists still satisfy the foreign key
+      if (!(await tx.scientist.findUnique({ where: { id: data.scientistId }, select: { id: true } }))) {
+        throw referenceNotFound('scientistId', `Scientist ${data.scientistId} not found`)
       }
+
+      const metadata = await conferenceMetadata(tx, data.conferenceId, data.metadata)
+      const seat = await resolveSeatStatus(tx, conference, data.status || 'confirmed')
+
+      const created = await tx.participation.create({
+        data: {
+          talkTitle: data.talkTitle,
+          participationType: data.participationType,
+          durationMinutes: data.durationMinutes,
+          scientistId: data.scientistId,
+          conferenceId: data.conferenceId,
+          status: seat.status,
+          waitlistedAt: seat.waitlistedAt,
+          metadata
+        }
+      })
+      await recordStatusChanges(
+        tx,
+        [created.id],
+        null,
+        created.status,
+        seat.status === WAITLISTED ? 'Conference is at capacity' : 'Registered'
+      )
+      await recordAudit(tx, user, 'participations.create', [createChange('participation', created)])
+
+      return { participation: created, conflicts: await checkDoubleBooking(tx, created) }
     })
 
-    return c.json(formatParticipation(participation), 201)
+    return c.json({ ...formatParticipation(participation), conflicts: conflicts.map(formatConflict) }, 201)
   } catch (error) {
-    return c.json({ error: 'Failed to create participation. Check if scientist and conference exist.' }, 400)
+    if (error instanceof DoubleBookingError) {
+      return problem(c, 409, error.message, formatDoubleBookingError(error))
+    }
+    throw error
   }
 })
 
@@ -418,6 +934,10 @@ const updateParticipationRoute = createRoute({
   path: '/{id}',
   tags: ['Participations'],
   summary: 'Update participation',
+  description: 'Updates a participation. Status changes must follow the lifecycle pending → confirmed → attended/no_show, with cancelled and withdrawn as final states. ' +
+    'Moving it to another scientist or conference is rejected in strict double-booking mode when the dates overlap another registration of the scientist. ' +
+    'Scientists can only withdraw their own participations, by setting status to withdrawn',
+  ...withRoles('admin', 'organizer', 'scientist'),
   request: {
     params: z.object({
       id: z.coerce.number().int().positive()
@@ -431,38 +951,147 @@ const updateParticipationRoute = createRoute({
     }
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
-          schema: ParticipationSchema
+          schema: SavedParticipationSchema
         }
       },
       description: 'Participation updated'
     },
+    ...authResponses,
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Participation not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: z.union([StatusTransitionErrorSchema, DoubleBookingErrorSchema, ProblemSchema])
+        }
+      },
+      description: 'Illegal status transition, double booking (strict mode) or new duration does not fit the scheduled time slot'
     }
   }
 })
 
 participations.openapi(updateParticipationRoute, async (c) => {
   const { id } = c.req.valid('param')
-  const data = c.req.valid('json')
+  const { statusReason, ...data } = c.req.valid('json')
+  const user = c.get('user')
+
+  if (user.role === 'scientist') {
+    const owned = user.scientistId !== null &&
+      (await prisma.participation.count({ where: { id, scientistId: user.scientistId } })) > 0
+    if (!owned) {
+      return problem(c, 403, 'Scientists can only update their own participations')
+    }
+    // Everything else is managed by the organizers of the conference
+    const changed = Object.entries(data).filter(([, value]) => value !== undefined).map(([field]) => field)
+    if (data.status !== 'withdrawn' || changed.some((field) => field !== 'status')) {
+      return problem(c, 403, 'Scientists can only withdraw their participations')
+    }
+  }
+
+  if (user.role === 'organizer') {
+    const current = await prisma.participation.findUnique({ where: { id }, select: { conferenceId: true } })
+    const conferenceIds = [current?.conferenceId, data.conferenceId].filter((conferenceId): conferenceId is number => conferenceId !== undefined)
+    if (!(await canManageConferences(prisma, user, conferenceIds))) {
+      return problem(c, 403, 'Only organizers of this conference can manage its participations')
+    }
+  }
 
   try {
-    const participation = await prisma.participation.update({
-      where: { id },
-      data
+    const { participation, conflicts } = await prisma.$transaction(async (tx) => {
+      const existing = await tx.participation.findUnique({ where: { id } })
+      if (!existing) throw new ProblemError(404, 'Participation not found')
+
+      const conferenceId = data.conferenceId ?? existing.conferenceId
+      const status = data.status ?? existing.status
+      const movesConference = conferenceId !== existing.conferenceId
+
+      assertTransition(existing.status, status)
+
+      // Lock in id order so two requests moving participations in opposite directions cannot deadlock
+      const conferenceIds = [...new Set([existing.conferenceId, conferenceId])].sort((a, b) => a - b)
+      const locked = new Map<number, { id: number; capacity: number }>()
+      for (const lockId of conferenceIds) {
+        const conference = await lockConference(tx, lockId)
+        if (conference) locked.set(lockId, conference)
+      }
+
+      const target = locked.get(conferenceId)
+      if (!target) throw referenceNotFound('conferenceId', `Conference ${conferenceId} not found`)
+
+      if (data.scientistId !== undefined && data.scientistId !== existing.scientistId &&
+        !(await tx.scientist.findUnique({ where: { id: data.scientistId }, select: { id: true } }))) {
+        throw referenceNotFound('scientistId', `Scientist ${data.scientistId} not found`)
+      }
+
+      let seat = { status, waitlistedAt: status === existing.status ? existing.waitlistedAt : null }
+      const needsSeat = holdsSeat(status) && (movesConference || !holdsSeat(existing.status))
+      if (needsSeat || (status === WAITLISTED && status !== existing.status)) {
+        seat = await resolveSeatStatus(tx, target, status, id)
+        assertTransition(existing.status, seat.status)
+      }
+
+      if (!movesConference && data.durationMinutes !== undefined) {
+        await assertDurationFitsSlot(tx, id, data.durationMinutes)
+      }
+
+      // Metadata moved to another conference has to match that conference's schema as well
+      if (data.metadata !== undefined || movesConference) {
+        const metadata = data.metadata ?? (existing.metadata as Record<string, any> | null) ?? undefined
+        data.metadata = await conferenceMetadata(tx, conferenceId, metadata)
+      }
+
+      const updated = await tx.participation.update({
+        where: { id },
+        data: {
+          ...data,
+          status: seat.status,
+          waitlistedAt: seat.waitlistedAt
+        }
+      })
+
+      if (updated.status !== existing.status) {
+        const reason = seat.status === status ? statusReason : 'Conference is at capacity'
+        await recordStatusChanges(tx, [id], existing.status, updated.status, reason)
+      }
+
+      if (movesConference || !holdsSeat(updated.status)) {
+        await unscheduleParticipations(tx, [id])
+      }
+
+      await recordAudit(tx, user, 'participations.update', [updateChange('participation', existing, updated)])
+
+      if (holdsSeat(existing.status) && (movesConference || !holdsSeat(updated.status))) {
+        await fillOpenSeats(tx, existing.conferenceId, user, 'participations.update')
+      }
+
+      // Only a new scientist or conference can introduce a double booking; existing ones are just reported
+      const rebooked = movesConference || updated.scientistId !== existing.scientistId
+
+      return { participation: updated, conflicts: await checkDoubleBooking(tx, updated, rebooked) }
     })
 
-    return c.json(formatParticipation(participation), 200)
+    return c.json({ ...formatParticipation(participation), conflicts: conflicts.map(formatConflict) }, 200)
   } catch (error) {
-    return c.json({ error: 'Participation not found' }, 404)
+    if (error instanceof StatusTransitionError) {
+      return problem(c, 409, error.message, formatTransitionError(error))
+    }
+    if (error instanceof DoubleBookingError) {
+      return problem(c, 409, error.message, formatDoubleBookingError(error))
+    }
+    if (error instanceof ScheduleError) {
+      return problem(c, 409, error.message)
+    }
+    throw error
   }
 })
 
@@ -471,24 +1100,29 @@ const deleteParticipationRoute = createRoute({
   path: '/{id}',
   tags: ['Participations'],
   summary: 'Delete participation',
+  description: 'Soft-deletes the participation; it can be brought back with POST /participations/{id}/restore. ' +
+    'The talk leaves the program and its seat goes to the waitlist',
+  ...withRoles('admin', 'organizer'),
   request: {
     params: z.object({
       id: z.coerce.number().int().positive()
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
-          schema: z.object({ message: z.string() })
+          schema: DeleteResultSchema
         }
       },
       description: 'Participation deleted'
     },
+    ...authResponses,
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Participation not found'
@@ -498,69 +1132,107 @@ const deleteParticipationRoute = createRoute({
 
 participations.openapi(deleteParticipationRoute, async (c) => {
   const { id } = c.req.valid('param')
+  const user = c.get('user')
 
-  try {
-    await prisma.participation.delete({
-      where: { id }
-    })
+  const participation = await prisma.participation.findUnique({ where: { id } })
+  if (!participation) {
+    return problem(c, 404, 'Participation not found')
+  }
 
-    return c.json({ message: 'Participation deleted successfully' }, 200)
-  } catch (error) {
-    return c.json({ error: 'Participation not found' }, 404)
+  if (user.role === 'organizer' && !(await canManageConference(prisma, user, participation.conferenceId))) {
+    return problem(c, 403, 'Only organizers of this conference can manage its participations')
+  }
+
+  const deletedAt = new Date()
+  const deleted = await prisma.$transaction(async (tx) => {
+    // Serializes with registrations, so the freed seat is handed out once
+    await lockConference(tx, participation.conferenceId)
+    const current = await tx.participation.findUnique({ where: { id } })
+    if (!current) return false
+
+    await softDeleteParticipations(tx, [current], deletedAt, user, 'participations.delete', { releaseSeats: holdsSeat(current.status) })
+    return true
+  })
+
+  if (!deleted) {
+    return problem(c, 404, 'Participation not found')
   }
+
+  return c.json({ message: 'Participation deleted successfully', deletedAt: deletedAt.toISOString(), participationIds: [] }, 200)
 })
 
-const searchParticipationsRoute = createRoute({
-  method: 'get',
-  path: '/search',
+const restoreParticipationRoute = createRoute({
+  method: 'post',
+  path: '/{id}/restore',
   tags: ['Participations'],
-  summary: 'Search participations by metadata',
-  description: 'Fulltext search in JSON metadata using PostgreSQL regex with pg_trgm + GIN index',
+  summary: 'Restore deleted participation',
+  description: 'Brings back a soft-deleted participation. If its seat was taken in the meantime it is put on the waitlist. ' +
+    'It is not put back into the program',
+  ...withRoles('admin', 'organizer'),
   request: {
-    query: z.object({
-      q: z.string().min(1).openapi({ description: 'Search query for metadata field' }),
-      page: z.string().optional().default('1').openapi({ description: 'Page number' }),
-      limit: z.string().optional().default('10').openapi({ description: 'Items per page' })
+    params: z.object({
+      id: z.coerce.number().int().positive()
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
-          schema: SearchResultSchema
+          schema: RestoreResultSchema
+        }
+      },
+      description: 'Participation restored'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Participation not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
-      description: 'Search results'
+      description: 'Participation is not deleted, or its scientist or conference is deleted'
     }
   }
 })
 
-participations.openapi(searchParticipationsRoute, async (c) => {
-  const { q: query, page, limit } = c.req.valid('query')
-  
-  const pageNum = parseInt(page)
-  const limitNum = parseInt(limit)
-  const skip = (pageNum - 1) * limitNum
-
-  const results = await prisma.$queryRaw<Array<any>>`
-    SELECT p.*, 
-           s."fullName" as "scientistName",
-           c."name" as "conferenceName"
-    FROM "Participation" p
-    JOIN "Scientist" s ON p."scientistId" = s.id
-    JOIN "Conference" c ON p."conferenceId" = c.id
-    WHERE p.metadata::text ~* ${query}
-    ORDER BY p.id
-    LIMIT ${limitNum} OFFSET ${skip}
-  `
+participations.openapi(restoreParticipationRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const user = c.get('user')
+
+  const participation = await prisma.participation.findUnique({ where: { id, ...deletedWhere('include') } })
+  if (!participation) {
+    return problem(c, 404, 'Participation not found')
+  }
+
+  if (user.role === 'organizer' && !(await canManageConference(prisma, user, participation.conferenceId))) {
+    return problem(c, 403, 'Only organizers of this conference can manage its participations')
+  }
+
+  if (!participation.deletedAt) {
+    return problem(c, 409, 'Participation is not deleted')
+  }
+
+  const result = await prisma.$transaction((tx) => restoreParticipations(tx, { id }, user, 'participations.restore'))
+
+  if (result.skipped.length > 0) {
+    return problem(c, 409, `${result.skipped[0].reason}; restore it first`)
+  }
 
   return c.json({
-    data: results || [],
-    pagination: {
-      page: pageNum,
-      limit: limitNum
-    }
-  })
+    message: 'Participation restored successfully',
+    participationIds: result.restored,
+    waitlistedIds: result.waitlisted,
+    skipped: []
+  }, 200)
 })
 
 export default participations
\ No newline at end of file
@@ -0,0 +1,1258 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '../lib/prisma.js'
+import { ProblemSchema, isPrismaError, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { authResponses, withOptionalAuth, withRoles } from '../lib/auth.js'
+import { canManageConference } from '../lib/organizers.js'
+import { lockConference } from '../lib/waitlist.js'
+import { ScheduleError, assertSessionFits, assertSlotFits, atLocalTime, conferenceWindow, dayKey, touchScheduledTalks } from '../lib/schedule.js'
+import { extractKeywords, generateProgram } from '../lib/program-generator.js'
+
+const program = new OpenAPIHono({ defaultHook: validationHook })
+
+const RoomSchema = z.object({
+  id: z.number().int().positive(),
+  conferenceId: z.number().int().positive(),
+  name: z.string(),
+  capacity: z.number().int().positive().nullable()
+}).openapi('Room')
+
+const CreateRoomSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  capacity: z.number().int().positive().optional()
+}).openapi('CreateRoom')
+
+const UpdateRoomSchema = CreateRoomSchema.partial().openapi('UpdateRoom')
+
+const SessionSchema = z.object({
+  id: z.number().int().positive(),
+  conferenceId: z.number().int().positive(),
+  roomId: z.number().int().positive(),
+  title: z.string(),
+  chair: z.string().nullable(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  isDraft: z.boolean()
+}).openapi('Session')
+
+const CreateSessionSchema = z.object({
+  roomId: z.number().int().positive('Valid room ID required'),
+  title: z.string().min(1, 'Title is required'),
+  chair: z.string().optional(),
+  startsAt: z.string().datetime('Invalid datetime format'),
+  endsAt: z.string().datetime('Invalid datetime format'),
+  isDraft: z.boolean().optional().openapi({ description: 'Draft sessions are hidden from the published program' })
+}).openapi('CreateSession')
+
+const UpdateSessionSchema = CreateSessionSchema.partial().openapi('UpdateSession')
+
+const TimeSlotSchema = z.object({
+  id: z.number().int().positive(),
+  sessionId: z.number().int().positive(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  participationId: z.number().int().positive().nullable()
+}).openapi('TimeSlot')
+
+const CreateTimeSlotSchema = z.object({
+  startsAt: z.string().datetime('Invalid datetime format'),
+  endsAt: z.string().datetime('Invalid datetime format'),
+  participationId: z.number().int().positive().optional()
+}).openapi('CreateTimeSlot')
+
+const UpdateTimeSlotSchema = z.object({
+  startsAt: z.string().datetime('Invalid datetime format').optional(),
+  endsAt: z.string().datetime('Invalid datetime format').optional(),
+  participationId: z.number().int().positive().nullable().optional().openapi({
+    description: 'Talk to place in the slot, or null to clear it'
+  })
+}).openapi('UpdateTimeSlot')
+
+const ProgramSlotSchema = z.object({
+  id: z.number().int().positive(),
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+  participation: z.object({
+    id: z.number().int().positive(),
+    talkTitle: z.string(),
+    participationType: z.string(),
+    durationMinutes: z.number().int().positive(),
+    scientist: z.object({
+      id: z.number().int().positive(),
+      fullName: z.string()
+    })
+  }).nullable()
+})
+
+const ProgramSchema = z.object({
+  conference: z.object({
+    id: z.number().int().positive(),
+    name: z.string(),
+    date: z.string().datetime(),
+    endDate: z.string().datetime().nullable()
+  }),
+  days: z.array(z.object({
+    date: z.string(),
+    rooms: z.array(z.object({
+      room: z.object({
+        id: z.number().int().positive(),
+        name: z.string()
+      }),
+      sessions: z.array(SessionSchema.omit({ conferenceId: true, roomId: true }).extend({
+        slots: z.array(ProgramSlotSchema)
+      }))
+    }))
+  }))
+}).openapi('Program')
+
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM')
+
+const GenerateProgramSchema = z.object({
+  dayStart: TimeOfDaySchema.optional().default('09:00').openapi({ description: 'First session start, in the time zone of the conference' }),
+  dayEnd: TimeOfDaySchema.optional().default('18:00').openapi({ description: 'Last session end, in the time zone of the conference' }),
+  sessionMinutes: z.number().int().min(15).max(480).optional().default(90),
+  breakMinutes: z.number().int().nonnegative().max(240).optional().default(15),
+  similarityThreshold: z.number().min(0).max(1).optional().default(0.2).openapi({
+    description: 'Minimum topic similarity (Jaccard over title keywords) for two talks to share a session'
+  }),
+  dryRun: z.boolean().optional().default(false).openapi({
+    description: 'Only preview the result without replacing the stored draft'
+  })
+}).openapi('GenerateProgram')
+
+const GeneratedProgramSchema = z.object({
+  dryRun: z.boolean(),
+  sessions: z.array(z.object({
+    id: z.number().int().positive().nullable(),
+    title: z.string(),
+    participationType: z.string(),
+    roomId: z.number().int().positive(),
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+    talks: z.array(z.object({
+      participationId: z.number().int().positive(),
+      startsAt: z.string().datetime(),
+      endsAt: z.string().datetime()
+    }))
+  })),
+  unplaced: z.array(z.object({
+    participationId: z.number().int().positive(),
+    talkTitle: z.string(),
+    reason: z.string()
+  })),
+  summary: z.object({
+    candidates: z.number().int().nonnegative(),
+    placed: z.number().int().nonnegative(),
+    unplaced: z.number().int().nonnegative()
+  })
+}).openapi('GeneratedProgram')
+
+
+const ConferenceParamsSchema = z.object({
+  id: z.coerce.number().int().positive().openapi({ description: 'Conference ID' })
+})
+
+function formatRoom(r: any) {
+  return {
+    id: r.id,
+    conferenceId: r.conferenceId,
+    name: r.name,
+    capacity: r.capacity
+  }
+}
+
+function formatSession(s: any) {
+  return {
+    id: s.id,
+    conferenceId: s.conferenceId,
+    roomId: s.roomId,
+    title: s.title,
+    chair: s.chair,
+    startsAt: s.startsAt.toISOString(),
+    endsAt: s.endsAt.toISOString(),
+    isDraft: s.isDraft
+  }
+}
+
+function formatSlot(t: any) {
+  return {
+    id: t.id,
+    sessionId: t.sessionId,
+    startsAt: t.startsAt.toISOString(),
+    endsAt: t.endsAt.toISOString(),
+    participationId: t.participationId
+  }
+}
+
+const errorResponses = {
+  400: {
+    content: {
+      'application/problem+json': {
+        schema: ProblemSchema
+      }
+    },
+    description: 'Invalid times or references'
+  },
+  404: {
+    content: {
+      'application/problem+json': {
+        schema: ProblemSchema
+      }
+    },
+    description: 'Conference, room, session or slot not found'
+  },
+  409: {
+    content: {
+      'application/problem+json': {
+        schema: ProblemSchema
+      }
+    },
+    description: 'Overlaps another session or slot in the same room, or the slot is shorter than the talk'
+  }
+}
+
+const getProgramRoute = createRoute({
+  method: 'get',
+  path: '/{id}/program',
+  tags: ['Program'],
+  summary: 'Get conference program',
+  description: 'Returns the full agenda grouped by day, room and session. Organizers can preview draft sessions with draft=true',
+  ...withOptionalAuth(),
+  request: {
+    params: ConferenceParamsSchema,
+    query: z.object({
+      draft: z.enum(['true', 'false']).optional().openapi({ description: 'Include draft sessions (organizers only)' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ProgramSchema
+        }
+      },
+      description: 'Conference program'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    },
+    ...authResponses
+  }
+})
+
+program.openapi(getProgramRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { draft } = c.req.valid('query')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id } })
+
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  if (draft === 'true') {
+    if (!user) {
+      return problem(c, 401, 'Authentication required to preview the draft program')
+    }
+    if (!(await canManageConference(prisma, user, id))) {
+      return problem(c, 403, 'Only organizers of this conference can preview its draft program')
+    }
+  }
+
+  const sessions = await prisma.session.findMany({
+    where: { conferenceId: id, ...(draft !== 'true' && { isDraft: false }) },
+    orderBy: [{ startsAt: 'asc' }, { id: 'asc' }],
+    include: {
+      room: true,
+      slots: {
+        orderBy: { startsAt: 'asc' },
+        include: {
+          participation: {
+            include: {
+              scientist: { select: { id: true, fullName: true } }
+            }
+          }
+        }
+      }
+    }
+  })
+
+  const days = new Map<string, Map<number, { room: { id: number; name: string }; sessions: any[] }>>()
+
+  for (const session of sessions) {
+    const day = dayKey(session.startsAt)
+    if (!days.has(day)) days.set(day, new Map())
+    const rooms = days.get(day)!
+
+    if (!rooms.has(session.roomId)) {
+      rooms.set(session.roomId, { room: { id: session.room.id, name: session.room.name }, sessions: [] })
+    }
+
+    rooms.get(session.roomId)!.sessions.push({
+      id: session.id,
+      title: session.title,
+      chair: session.chair,
+      startsAt: session.startsAt.toISOString(),
+      endsAt: session.endsAt.toISOString(),
+      isDraft: session.isDraft,
+      slots: session.slots.map((slot: any) => ({
+        id: slot.id,
+        startsAt: slot.startsAt.toISOString(),
+        endsAt: slot.endsAt.toISOString(),
+        participation: slot.participation && {
+          id: slot.participation.id,
+          talkTitle: slot.participation.talkTitle,
+          participationType: slot.participation.participationType,
+          durationMinutes: slot.participation.durationMinutes,
+          scientist: slot.participation.scientist
+        }
+      }))
+    })
+  }
+
+  return c.json({
+    conference: {
+      id: conference.id,
+      name: conference.name,
+      date: conference.date.toISOString(),
+      endDate: conference.endDate ? conference.endDate.toISOString() : null
+    },
+    days: [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, rooms]) => ({
+        date,
+        rooms: [...rooms.values()].sort((a, b) => a.room.name.localeCompare(b.room.name))
+      }))
+  }, 200)
+})
+
+const getRoomsRoute = createRoute({
+  method: 'get',
+  path: '/{id}/rooms',
+  tags: ['Program'],
+  summary: 'List conference rooms',
+  request: {
+    params: ConferenceParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ data: z.array(RoomSchema) })
+        }
+      },
+      description: 'Rooms of the conference'
+    }
+  }
+})
+
+program.openapi(getRoomsRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const rooms = await prisma.room.findMany({
+    where: { conferenceId: id },
+    orderBy: { name: 'asc' }
+  })
+
+  return c.json({ data: rooms.map(formatRoom) }, 200)
+})
+
+const createRoomRoute = createRoute({
+  method: 'post',
+  path: '/{id}/rooms',
+  tags: ['Program'],
+  summary: 'Create room',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateRoomSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: RoomSchema
+        }
+      },
+      description: 'Room created'
+    },
+    ...authResponses,
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'A room with this name already exists'
+    }
+  }
+})
+
+program.openapi(createRoomRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    const room = await prisma.room.create({
+      data: { ...data, conferenceId: id }
+    })
+
+    return c.json(formatRoom(room), 201)
+  } catch (error) {
+    if (!isPrismaError(error, 'P2002')) throw error
+    return problem(c, 409, `Room '${data.name}' already exists in this conference`)
+  }
+})
+
+const updateRoomRoute = createRoute({
+  method: 'put',
+  path: '/{id}/rooms/{roomId}',
+  tags: ['Program'],
+  summary: 'Update room',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      roomId: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateRoomSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: RoomSchema
+        }
+      },
+      description: 'Room updated'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Room not found'
+    }
+  }
+})
+
+program.openapi(updateRoomRoute, async (c) => {
+  const { id, roomId } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  const result = await prisma.room.updateMany({
+    where: { id: roomId, conferenceId: id },
+    data
+  })
+
+  if (result.count === 0) {
+    return problem(c, 404, 'Room not found')
+  }
+
+  const room = await prisma.room.findUniqueOrThrow({ where: { id: roomId } })
+  return c.json(formatRoom(room), 200)
+})
+
+const deleteRoomRoute = createRoute({
+  method: 'delete',
+  path: '/{id}/rooms/{roomId}',
+  tags: ['Program'],
+  summary: 'Delete room',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      roomId: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string() })
+        }
+      },
+      description: 'Room deleted'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Room not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Room still has sessions'
+    }
+  }
+})
+
+program.openapi(deleteRoomRoute, async (c) => {
+  const { id, roomId } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  const room = await prisma.room.findFirst({
+    where: { id: roomId, conferenceId: id },
+    include: { _count: { select: { sessions: true } } }
+  })
+
+  if (!room) {
+    return problem(c, 404, 'Room not found')
+  }
+
+  if (room._count.sessions > 0) {
+    return problem(c, 409, `Room '${room.name}' still has ${room._count.sessions} sessions`)
+  }
+
+  await prisma.room.delete({ where: { id: roomId } })
+
+  return c.json({ message: 'Room deleted successfully' }, 200)
+})
+
+const createSessionRoute = createRoute({
+  method: 'post',
+  path: '/{id}/sessions',
+  tags: ['Program'],
+  summary: 'Create session',
+  description: 'Creates a session in a room. Sessions must lie within the conference dates and must not overlap in the same room',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateSessionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: SessionSchema
+        }
+      },
+      description: 'Session created'
+    },
+    ...authResponses,
+    ...errorResponses
+  }
+})
+
+program.openapi(createSessionRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    const session = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+      const conference = await tx.conference.findUniqueOrThrow({ where: { id } })
+
+      const interval = {
+        roomId: data.roomId,
+        startsAt: new Date(data.startsAt),
+        endsAt: new Date(data.endsAt)
+      }
+      await assertSessionFits(tx, conference, interval)
+
+      return tx.session.create({
+        data: {
+          ...interval,
+          conferenceId: id,
+          title: data.title,
+          chair: data.chair,
+          isDraft: data.isDraft ?? false
+        }
+      })
+    })
+
+    return c.json(formatSession(session), 201)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, error.status, error.message)
+    }
+    throw error
+  }
+})
+
+const updateSessionRoute = createRoute({
+  method: 'put',
+  path: '/{id}/sessions/{sessionId}',
+  tags: ['Program'],
+  summary: 'Update session',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      sessionId: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateSessionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SessionSchema
+        }
+      },
+      description: 'Session updated'
+    },
+    ...authResponses,
+    ...errorResponses
+  }
+})
+
+program.openapi(updateSessionRoute, async (c) => {
+  const { id, sessionId } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    const session = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+      const conference = await tx.conference.findUniqueOrThrow({ where: { id } })
+
+      const existing = await tx.session.findFirst({ where: { id: sessionId, conferenceId: id } })
+      if (!existing) throw new ScheduleError('Session not found', 404)
+
+      const interval = {
+        roomId: data.roomId ?? existing.roomId,
+        startsAt: data.startsAt ? new Date(data.startsAt) : existing.startsAt,
+        endsAt: data.endsAt ? new Date(data.endsAt) : existing.endsAt
+      }
+      await assertSessionFits(tx, conference, interval, sessionId)
+      if (data.isDraft && !existing.isDraft) await touchScheduledTalks(tx, { sessionId })
+
+      return tx.session.update({
+        where: { id: sessionId },
+        data: {
+          ...interval,
+          ...(data.title !== undefined && { title: data.title }),
+          ...(data.chair !== undefined && { chair: data.chair }),
+          ...(data.isDraft !== undefined && { isDraft: data.isDraft })
+        }
+      })
+    })
+
+    return c.json(formatSession(session), 200)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, error.status, error.message)
+    }
+    throw error
+  }
+})
+
+const deleteSessionRoute = createRoute({
+  method: 'delete',
+  path: '/{id}/sessions/{sessionId}',
+  tags: ['Program'],
+  summary: 'Delete session',
+  description: 'Deletes the session and its time slots. Scheduled talks become unscheduled',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      sessionId: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string() })
+        }
+      },
+      description: 'Session deleted'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Session not found'
+    }
+  }
+})
+
+program.openapi(deleteSessionRoute, async (c) => {
+  const { id, sessionId } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    await touchScheduledTalks(tx, { session: { id: sessionId, conferenceId: id } })
+    return tx.session.deleteMany({
+      where: { id: sessionId, conferenceId: id }
+    })
+  })
+
+  if (result.count === 0) {
+    return problem(c, 404, 'Session not found')
+  }
+
+  return c.json({ message: 'Session deleted successfully' }, 200)
+})
+
+const createSlotRoute = createRoute({
+  method: 'post',
+  path: '/{id}/sessions/{sessionId}/slots',
+  tags: ['Program'],
+  summary: 'Create time slot',
+  description: 'Creates a time slot in a session, optionally assigning a talk. The slot must not be shorter than the talk durationMinutes',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      sessionId: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateTimeSlotSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: TimeSlotSchema
+        }
+      },
+      description: 'Time slot created'
+    },
+    ...authResponses,
+    ...errorResponses
+  }
+})
+
+program.openapi(createSlotRoute, async (c) => {
+  const { id, sessionId } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    const slot = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+
+      const session = await tx.session.findFirst({ where: { id: sessionId, conferenceId: id } })
+      if (!session) throw new ScheduleError('Session not found', 404)
+
+      const interval = {
+        startsAt: new Date(data.startsAt),
+        endsAt: new Date(data.endsAt),
+        participationId: data.participationId ?? null
+      }
+      await assertSlotFits(tx, session, interval)
+
+      return tx.timeSlot.create({
+        data: { ...interval, sessionId }
+      })
+    })
+
+    return c.json(formatSlot(slot), 201)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, error.status, error.message)
+    }
+    throw error
+  }
+})
+
+const updateSlotRoute = createRoute({
+  method: 'put',
+  path: '/{id}/slots/{slotId}',
+  tags: ['Program'],
+  summary: 'Update time slot or assign a talk',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      slotId: z.coerce.number().int().positive()
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateTimeSlotSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: TimeSlotSchema
+        }
+      },
+      description: 'Time slot updated'
+    },
+    ...authResponses,
+    ...errorResponses
+  }
+})
+
+program.openapi(updateSlotRoute, async (c) => {
+  const { id, slotId } = c.req.valid('param')
+  const data = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    const slot = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+
+      const existing = await tx.timeSlot.findFirst({
+        where: { id: slotId, session: { conferenceId: id } },
+        include: { session: true }
+      })
+      if (!existing) throw new ScheduleError('Time slot not found', 404)
+
+      const interval = {
+        startsAt: data.startsAt ? new Date(data.startsAt) : existing.startsAt,
+        endsAt: data.endsAt ? new Date(data.endsAt) : existing.endsAt,
+        participationId: data.participationId !== undefined ? data.participationId : existing.participationId
+      }
+      await assertSlotFits(tx, existing.session, interval, slotId)
+      if (interval.participationId !== existing.participationId) await touchScheduledTalks(tx, { id: slotId })
+
+      return tx.timeSlot.update({
+        where: { id: slotId },
+        data: interval
+      })
+    })
+
+    return c.json(formatSlot(slot), 200)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, error.status, error.message)
+    }
+    throw error
+  }
+})
+
+const deleteSlotRoute = createRoute({
+  method: 'delete',
+  path: '/{id}/slots/{slotId}',
+  tags: ['Program'],
+  summary: 'Delete time slot',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema.extend({
+      slotId: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string() })
+        }
+      },
+      description: 'Time slot deleted'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Time slot not found'
+    }
+  }
+})
+
+program.openapi(deleteSlotRoute, async (c) => {
+  const { id, slotId } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    await touchScheduledTalks(tx, { id: slotId, session: { conferenceId: id } })
+    return tx.timeSlot.deleteMany({
+      where: { id: slotId, session: { conferenceId: id } }
+    })
+  })
+
+  if (result.count === 0) {
+    return problem(c, 404, 'Time slot not found')
+  }
+
+  return c.json({ message: 'Time slot deleted successfully' }, 200)
+})
+
+const generateProgramRoute = createRoute({
+  method: 'post',
+  path: '/{id}/program/generate',
+  tags: ['Program'],
+  summary: 'Generate draft program',
+  description: 'Builds a draft schedule from confirmed participations that are not yet in the published program. ' +
+    'Talks are grouped into sessions by participationType and topic similarity, each talk gets a slot of its durationMinutes, ' +
+    'and no scientist is placed in two parallel sessions. The previous draft is replaced unless dryRun is set. ' +
+    'Review it with GET /program?draft=true, edit it with the session and slot endpoints, then publish it',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: GenerateProgramSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: GeneratedProgramSchema
+        }
+      },
+      description: 'Draft program with the talks that could not be placed'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Invalid day boundaries'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+program.openapi(generateProgramRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const options = c.req.valid('json')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  if (options.dayEnd <= options.dayStart) {
+    return problem(c, 400, 'dayEnd must be after dayStart')
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+      const conference = await tx.conference.findUniqueOrThrow({ where: { id } })
+
+      if (!options.dryRun) {
+        await tx.session.deleteMany({ where: { conferenceId: id, isDraft: true } })
+      }
+
+      const [rooms, published, candidates] = await Promise.all([
+        tx.room.findMany({ where: { conferenceId: id }, orderBy: { name: 'asc' } }),
+        tx.session.findMany({
+          where: { conferenceId: id, isDraft: false },
+          include: { slots: { include: { participation: { select: { scientistId: true } } } } }
+        }),
+        tx.participation.findMany({
+          where: {
+            conferenceId: id,
+            status: 'confirmed',
+            OR: [{ slot: null }, { slot: { session: { isDraft: true } } }]
+          },
+          orderBy: { id: 'asc' }
+        })
+      ])
+
+      const busyRooms = new Map<number, Array<{ startsAt: Date; endsAt: Date }>>()
+      const busyScientists = new Map<number, Array<{ startsAt: Date; endsAt: Date }>>()
+      for (const session of published) {
+        busyRooms.set(session.roomId, [...(busyRooms.get(session.roomId) ?? []), session])
+        for (const slot of session.slots) {
+          if (!slot.participation) continue
+          const scientistId = slot.participation.scientistId
+          busyScientists.set(scientistId, [...(busyScientists.get(scientistId) ?? []), session])
+        }
+      }
+
+      const window = conferenceWindow(conference)
+      const days = []
+      for (let day = window.startsAt; day < window.endsAt; day = new Date(day.getTime() + 24 * 60 * 60 * 1000)) {
+        // Local hours can reach into the neighbouring UTC day, which lies outside the conference on its first and last day
+        const startsAt = new Date(Math.max(atLocalTime(day, options.dayStart, conference.timezone).getTime(), window.startsAt.getTime()))
+        const endsAt = new Date(Math.min(atLocalTime(day, options.dayEnd, conference.timezone).getTime(), window.endsAt.getTime()))
+        if (startsAt < endsAt) days.push({ startsAt, endsAt })
+      }
+
+      const talks = candidates.map((p) => {
+        const metadata: Prisma.JsonObject = p.metadata && typeof p.metadata === 'object' && !Array.isArray(p.metadata) ? p.metadata : {}
+        const tags = Array.isArray(metadata.tags) ? metadata.tags.filter((t): t is string => typeof t === 'string') : []
+        return {
+          participationId: p.id,
+          talkTitle: p.talkTitle,
+          participationType: p.participationType,
+          durationMinutes: p.durationMinutes,
+          scientistId: p.scientistId,
+          keywords: extractKeywords(p.talkTitle, typeof metadata.track === 'string' ? metadata.track : null, ...tags)
+        }
+      })
+
+      const draft = generateProgram(talks, rooms, busyRooms, busyScientists, {
+        days,
+        sessionMinutes: options.sessionMinutes,
+        breakMinutes: options.breakMinutes,
+        similarityThreshold: options.similarityThreshold
+      })
+
+      const sessions = []
+      for (const session of draft.sessions) {
+        let sessionId: number | null = null
+
+        if (!options.dryRun) {
+          const created = await tx.session.create({
+            data: {
+              conferenceId: id,
+              roomId: session.roomId,
+              title: session.title,
+              startsAt: session.startsAt,
+              endsAt: session.endsAt,
+              isDraft: true,
+              slots: {
+                create: session.talks.map((talk) => ({
+                  participationId: talk.participationId,
+                  startsAt: talk.startsAt,
+                  endsAt: talk.endsAt
+                }))
+              }
+            }
+          })
+          sessionId = created.id
+        }
+
+        sessions.push({
+          id: sessionId,
+          title: session.title,
+          participationType: session.participationType,
+          roomId: session.roomId,
+          startsAt: session.startsAt.toISOString(),
+          endsAt: session.endsAt.toISOString(),
+          talks: session.talks.map((talk) => ({
+            participationId: talk.participationId,
+            startsAt: talk.startsAt.toISOString(),
+            endsAt: talk.endsAt.toISOString()
+          }))
+        })
+      }
+
+      return {
+        dryRun: options.dryRun,
+        sessions,
+        unplaced: draft.unplaced,
+        summary: {
+          candidates: talks.length,
+          placed: talks.length - draft.unplaced.length,
+          unplaced: draft.unplaced.length
+        }
+      }
+    }, { timeout: 30000 })
+
+    return c.json(result, 200)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, 404, error.message)
+    }
+    throw error
+  }
+})
+
+const publishProgramRoute = createRoute({
+  method: 'post',
+  path: '/{id}/program/publish',
+  tags: ['Program'],
+  summary: 'Publish draft program',
+  description: 'Makes all draft sessions part of the public program',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string(), published: z.number().int().nonnegative() })
+        }
+      },
+      description: 'Draft published'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+program.openapi(publishProgramRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    // Under the conference lock, so a regenerate or slot edit cannot leave a half-replaced draft to publish
+    const result = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+      return tx.session.updateMany({
+        where: { conferenceId: id, isDraft: true },
+        data: { isDraft: false }
+      })
+    })
+
+    return c.json({ message: `Published ${result.count} sessions`, published: result.count }, 200)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, 404, error.message)
+    }
+    throw error
+  }
+})
+
+const discardDraftRoute = createRoute({
+  method: 'delete',
+  path: '/{id}/program/draft',
+  tags: ['Program'],
+  summary: 'Discard draft program',
+  description: 'Deletes all draft sessions and their time slots',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ message: z.string(), deleted: z.number().int().nonnegative() })
+        }
+      },
+      description: 'Draft discarded'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+program.openapi(discardDraftRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  if (!(await canManageConference(prisma, c.get('user'), id))) {
+    return problem(c, 403, 'Only organizers of this conference can edit its program')
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      if (!(await lockConference(tx, id))) throw new ScheduleError('Conference not found', 404)
+      return tx.session.deleteMany({
+        where: { conferenceId: id, isDraft: true }
+      })
+    })
+
+    return c.json({ message: `Discarded ${result.count} draft sessions`, deleted: result.count }, 200)
+  } catch (error) {
+    if (error instanceof ScheduleError) {
+      return problem(c, 404, error.message)
+    }
+    throw error
+  }
+})
+
+export default program
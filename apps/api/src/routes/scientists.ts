@@ -1,8 +1,50 @@
 import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
 import { z } from 'zod'
+import type { Scientist, ScientistMerge } from '@prisma/client'
 import { prisma } from '../lib/prisma.js'
+import { ProblemSchema, isPrismaError, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { PaginationSchema, cursorQuery, listPage, sortByQuery, type SortFields } from '../lib/pagination.js'
+import { filterQuery, parseFilters, type FilterFields } from '../lib/filters.js'
+import { authResponses, withOptionalAuth, withRoles } from '../lib/auth.js'
+import { findScientistConflicts, formatConflict, isActive } from '../lib/double-booking.js'
+import {
+  ExportFormatQuerySchema,
+  exportContent,
+  exportResponse,
+  paginate,
+  resolveExportFormat,
+  type ExportColumn
+} from '../lib/export.js'
+import { OrcidSchema } from '../lib/orcid.js'
+import { findDuplicateScientists } from '../lib/duplicates.js'
+import { MERGE_FIELDS, ScientistMergeError, mergeScientists } from '../lib/merge.js'
+import {
+  EntityHistorySchema,
+  createChange,
+  deleteChange,
+  entityHistory,
+  formatAuditEntry,
+  recordAudit,
+  restoreChange,
+  updateChange
+} from '../lib/audit.js'
+import { DELETED_FILTERS, deletedWhere } from '../lib/soft-delete.js'
+import {
+  DeletePreviewSchema,
+  DeleteQuerySchema,
+  DeleteResultSchema,
+  DependentsErrorSchema,
+  RestoreResultSchema,
+  findDependentParticipations,
+  formatDependent,
+  restoreParticipations,
+  softDeleteParticipations
+} from '../lib/deletion.js'
+import { ScientistMetricsSchema, scientistMetrics, scientistNetwork } from '../lib/collaboration.js'
+import { IGNORED_STATUSES, ScoreBreakdownSchema, rankRecommendations, scoreRecommendation } from '../lib/recommendations.js'
+import { calendarHeaders, calendarUid, conferenceEvent, renderCalendar, revision, talkEvent, type CalendarEvent } from '../lib/calendar.js'
 
-const scientists = new OpenAPIHono()
+const scientists = new OpenAPIHono({ defaultHook: validationHook })
 
 const ScientistSchema = z.object({
   id: z.number().int().positive(),
@@ -13,37 +55,134 @@ const ScientistSchema = z.object({
   organization: z.string(),
   email: z.string().email().nullable(),
   orcid: z.string().nullable(),
-  hIndex: z.number().int().nonnegative()
+  hIndex: z.number().int().nonnegative(),
+  deletedAt: z.string().datetime().nullable()
 }).openapi('Scientist')
 
-const CreateScientistSchema = z.object({
+export const CreateScientistSchema = z.object({
   fullName: z.string().min(1, 'Full name is required'),
   country: z.string().min(1, 'Country is required'),
   degree: z.string().min(1, 'Degree is required'),
   specialization: z.string().min(1, 'Specialization is required'),
   organization: z.string().min(1, 'Organization is required'),
   email: z.string().email().optional(),
-  orcid: z.string().optional(),
+  orcid: OrcidSchema.optional(),
   hIndex: z.number().int().nonnegative().optional()
 }).openapi('CreateScientist')
 
 const UpdateScientistSchema = CreateScientistSchema.partial().openapi('UpdateScientist')
 
-const PaginationSchema = z.object({
-  page: z.number().int().positive(),
-  limit: z.number().int().positive(),
-  total: z.number().int().positive(),
-  pages: z.number().int().positive()
-}).openapi('Pagination')
-
 const ScientistsResponseSchema = z.object({
   data: z.array(ScientistSchema),
   pagination: PaginationSchema
 }).openapi('ScientistsResponse')
 
-const ErrorSchema = z.object({
-  error: z.string()
-}).openapi('Error')
+const ConflictParticipationSchema = z.object({
+  participationId: z.number().int().positive(),
+  talkTitle: z.string(),
+  status: z.string(),
+  conference: z.object({
+    id: z.number().int().positive(),
+    name: z.string(),
+    date: z.string().datetime(),
+    endDate: z.string().datetime().nullable()
+  })
+})
+
+const ScientistConflictsSchema = z.object({
+  scientistId: z.number().int().positive(),
+  data: z.array(z.object({
+    participation: ConflictParticipationSchema,
+    conflictsWith: ConflictParticipationSchema,
+    overlap: z.object({
+      startsAt: z.string().datetime(),
+      endsAt: z.string().datetime()
+    })
+  }))
+}).openapi('ScientistConflicts')
+
+const SCIENTIST_COLUMNS: Array<ExportColumn<Scientist>> = [
+  ['id', (s) => s.id],
+  ['fullName', (s) => s.fullName],
+  ['country', (s) => s.country],
+  ['degree', (s) => s.degree],
+  ['specialization', (s) => s.specialization],
+  ['organization', (s) => s.organization],
+  ['email', (s) => s.email],
+  ['orcid', (s) => s.orcid],
+  ['hIndex', (s) => s.hIndex]
+]
+
+const SCIENTIST_SORT_FIELDS = {
+  id: { type: 'number' },
+  fullName: { type: 'string' },
+  country: { type: 'string' },
+  degree: { type: 'string' },
+  specialization: { type: 'string' },
+  organization: { type: 'string' },
+  email: { type: 'string', nullable: true },
+  hIndex: { type: 'number' }
+} satisfies SortFields
+
+const SCIENTIST_FILTER_FIELDS: FilterFields = {
+  id: { type: 'number' },
+  fullName: { type: 'string' },
+  country: { type: 'string' },
+  degree: { type: 'string' },
+  specialization: { type: 'string' },
+  organization: { type: 'string' },
+  email: { type: 'string', nullable: true },
+  orcid: { type: 'string', nullable: true },
+  hIndex: { type: 'number' },
+  // Scientists with at least one participation in a matching conference
+  'conference.id': { type: 'number', where: (id) => ({ participations: { some: { deletedAt: null, conference: { id } } } }) },
+  'conference.topic': { type: 'string', where: (topic) => ({ participations: { some: { deletedAt: null, conference: { topic } } } }) },
+  'conference.country': { type: 'string', where: (country) => ({ participations: { some: { deletedAt: null, conference: { country } } } }) },
+  'conference.date': { type: 'date', where: (date) => ({ participations: { some: { deletedAt: null, conference: { date } } } }) }
+}
+
+const DuplicateScientistSchema = z.object({
+  id: z.number().int().positive(),
+  fullName: z.string(),
+  organization: z.string(),
+  email: z.string().nullable(),
+  orcid: z.string().nullable(),
+  similarity: z.number().openapi({ description: 'Weighted pg_trgm similarity of fullName and organization (0–1)' }),
+  reason: z.enum(['email', 'orcid', 'name']),
+  deleted: z.boolean().openapi({ description: 'The scientist is soft-deleted and can be restored instead' })
+}).openapi('DuplicateScientist')
+
+const DuplicateScientistsErrorSchema = ProblemSchema.extend({
+  duplicates: z.array(DuplicateScientistSchema)
+}).openapi('DuplicateScientistsError')
+
+const MergeScientistsSchema = z.object({
+  sourceIds: z.array(z.number().int().positive()).min(1, 'At least one source scientist is required')
+    .openapi({ description: 'Scientists folded into the target and deleted' }),
+  fields: z.partialRecord(z.enum(MERGE_FIELDS), z.number().int().positive()).optional().openapi({
+    description: 'Scientist ID whose value survives, per field. Other fields keep the target\'s value; ' +
+      'an empty email or ORCID iD is filled from the first source that has one',
+    example: { fullName: 12, email: 15 }
+  })
+}).openapi('MergeScientists')
+
+const ScientistMergeSchema = z.object({
+  id: z.number().int().positive(),
+  targetId: z.number().int().positive(),
+  sourceIds: z.array(z.number().int().positive()),
+  sources: z.array(z.record(z.string(), z.any())).openapi({ description: 'Source records as they were before the merge' }),
+  fields: z.record(z.string(), z.number().int().positive()).openapi({ description: 'Scientist ID each field value was taken from' }),
+  participationIds: z.array(z.number().int().positive()),
+  mergedById: z.number().int().positive().nullable(),
+  mergedAt: z.string().datetime()
+}).openapi('ScientistMerge')
+
+const MergeResultSchema = z.object({
+  scientist: ScientistSchema,
+  merge: ScientistMergeSchema,
+  conflicts: ScientistConflictsSchema.shape.data
+}).openapi('MergeResult')
+
 
 const getScientistsRoute = createRoute({
   method: 'get',
@@ -51,61 +190,98 @@ const getScientistsRoute = createRoute({
   tags: ['Scientists'],
   summary: 'Get all scientists',
   description: 'Returns list of scientists with pagination, sorting and search support',
+  ...withOptionalAuth(),
   request: {
     query: z.object({
-      page: z.string().optional().default('1').openapi({ description: 'Page number' }),
-      limit: z.string().optional().default('10').openapi({ description: 'Items per page' }),
-      sortBy: z.string().optional().default('id').openapi({ description: 'Field to sort by' }),
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' }),
+      sortBy: sortByQuery(SCIENTIST_SORT_FIELDS, 'id'),
       sortOrder: z.enum(['asc', 'desc']).optional().default('asc').openapi({ description: 'Sort order' }),
-      search: z.string().optional().openapi({ description: 'Search in fullName, specialization, organization' })
+      ...cursorQuery,
+      search: z.string().optional().openapi({ description: 'Search in fullName, specialization, organization' }),
+      filter: filterQuery(SCIENTIST_FILTER_FIELDS),
+      deleted: z.enum(DELETED_FILTERS).optional().openapi({
+        description: 'Whether to list soft-deleted scientists (admins only). Defaults to exclude'
+      }),
+      format: ExportFormatQuerySchema
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
           schema: ScientistsResponseSchema
-        }
+        },
+        ...exportContent
       },
       description: 'Scientists list retrieved successfully'
+    },
+    401: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'deleted requires a bearer token'
+    },
+    403: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Only admins may list deleted scientists'
     }
   }
 })
 
 scientists.openapi(getScientistsRoute, async (c) => {
-  const { page, limit, sortBy, sortOrder, search } = c.req.valid('query')
-  
-  const pageNum = parseInt(page)
-  const limitNum = parseInt(limit)
-  const skip = (pageNum - 1) * limitNum
-
-  const where = search ? {
-    OR: [
-      { fullName: { contains: search, mode: 'insensitive' as const } },
-      { specialization: { contains: search, mode: 'insensitive' as const } },
-      { organization: { contains: search, mode: 'insensitive' as const } }
-    ]
-  } : {}
+  const { page, limit, sortBy, sortOrder, after, before, count, search, deleted, format } = c.req.valid('query')
+  const user = c.get('user')
 
-  const [data, total] = await Promise.all([
+  if (deleted && deleted !== 'exclude') {
+    if (!user) return problem(c, 401, 'Authentication required to list deleted scientists')
+    if (user.role !== 'admin') return problem(c, 403, 'Only admins may list deleted scientists')
+  }
+
+  const listing = listPage(SCIENTIST_SORT_FIELDS, { page, limit, sortBy, sortOrder, after, before, count })
+
+  const where = {
+    ...deletedWhere(deleted),
+    AND: parseFilters(SCIENTIST_FILTER_FIELDS, c.req.queries()),
+    ...(search && {
+      OR: [
+        { fullName: { contains: search, mode: 'insensitive' as const } },
+        { specialization: { contains: search, mode: 'insensitive' as const } },
+        { organization: { contains: search, mode: 'insensitive' as const } }
+      ]
+    })
+  }
+
+  const exportFormat = resolveExportFormat(format, c.req.header('Accept'))
+  if (exportFormat !== 'json') {
+    return exportResponse(c, exportFormat, {
+      filename: 'scientists',
+      rows: paginate(SCIENTIST_SORT_FIELDS, { sortBy, sortOrder }, (batch) =>
+        prisma.scientist.findMany({ where: batch.where(where), orderBy: batch.orderBy, take: batch.take })
+      ),
+      columns: SCIENTIST_COLUMNS,
+      toJson: (scientist) => scientist
+    })
+  }
+
+  const [rows, total] = await Promise.all([
     prisma.scientist.findMany({
-      where,
-      skip,
-      take: limitNum,
-      orderBy: { [sortBy]: sortOrder }
+      where: listing.where(where),
+      skip: listing.skip,
+      take: listing.take,
+      orderBy: listing.orderBy
     }),
-    prisma.scientist.count({ where })
+    listing.count ? prisma.scientist.count({ where }) : null
   ])
 
-  return c.json({
-    data,
-    pagination: {
-      page: pageNum,
-      limit: limitNum,
-      total,
-      pages: Math.ceil(total / limitNum)
-    }
-  })
+  return c.json(listing.result(rows, total), 200)
 })
 
 const advancedSearchScientistsRoute = createRoute({
@@ -113,23 +289,28 @@ const advancedSearchScientistsRoute = createRoute({
   path: '/advanced-search',
   tags: ['Scientists'],
   summary: 'Advanced search with multiple WHERE conditions',
-  description: 'Search scientists with multiple filters combined (country, specialization, minHIndex, degree)',
+  description: 'Search scientists with multiple filters combined (country, specialization, minHIndex, degree). ' +
+    'Superseded by the filter parameters of GET /scientists, e.g. filter[hIndex][gte]=10',
+  deprecated: true,
   request: {
     query: z.object({
       country: z.string().optional().openapi({ description: 'Filter by country' }),
       specialization: z.string().optional().openapi({ description: 'Filter by specialization' }),
       minHIndex: z.string().optional().openapi({ description: 'Minimum H-Index' }),
       degree: z.string().optional().openapi({ description: 'Filter by degree' }),
-      page: z.string().optional().default('1').openapi({ description: 'Page number' }),
-      limit: z.string().optional().default('10').openapi({ description: 'Items per page' })
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' }),
+      format: ExportFormatQuerySchema
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
           schema: ScientistsResponseSchema
-        }
+        },
+        ...exportContent
       },
       description: 'Advanced search results'
     }
@@ -137,11 +318,9 @@ const advancedSearchScientistsRoute = createRoute({
 })
 
 scientists.openapi(advancedSearchScientistsRoute, async (c) => {
-  const { country, specialization, minHIndex, degree, page, limit } = c.req.valid('query')
+  const { country, specialization, minHIndex, degree, page, limit, format } = c.req.valid('query')
   
-  const pageNum = parseInt(page)
-  const limitNum = parseInt(limit)
-  const skip = (pageNum - 1) * limitNum
+  const skip = (page - 1) * limit
 
   const where: any = {}
   
@@ -161,11 +340,23 @@ scientists.openapi(advancedSearchScientistsRoute, async (c) => {
     where.degree = { contains: degree, mode: 'insensitive' }
   }
 
+  const exportFormat = resolveExportFormat(format, c.req.header('Accept'))
+  if (exportFormat !== 'json') {
+    return exportResponse(c, exportFormat, {
+      filename: 'scientists',
+      rows: paginate(SCIENTIST_SORT_FIELDS, { sortBy: 'hIndex', sortOrder: 'desc' }, (batch) =>
+        prisma.scientist.findMany({ where: batch.where(where), orderBy: batch.orderBy, take: batch.take })
+      ),
+      columns: SCIENTIST_COLUMNS,
+      toJson: (scientist) => scientist
+    })
+  }
+
   const [data, total] = await Promise.all([
     prisma.scientist.findMany({
       where,
       skip,
-      take: limitNum,
+      take: limit,
       orderBy: { hIndex: 'desc' }
     }),
     prisma.scientist.count({ where })
@@ -174,10 +365,10 @@ scientists.openapi(advancedSearchScientistsRoute, async (c) => {
   return c.json({
     data,
     pagination: {
-      page: pageNum,
-      limit: limitNum,
+      page,
+      limit,
       total,
-      pages: Math.ceil(total / limitNum)
+      pages: Math.ceil(total / limit)
     }
   })
 })
@@ -193,6 +384,7 @@ const getScientistRoute = createRoute({
     })
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
@@ -203,8 +395,8 @@ const getScientistRoute = createRoute({
     },
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Scientist not found'
@@ -220,18 +412,347 @@ scientists.openapi(getScientistRoute, async (c) => {
   })
 
   if (!scientist) {
-    return c.json({ error: 'Scientist not found' }, 404)
+    return problem(c, 404, 'Scientist not found')
   }
 
   return c.json(scientist, 200)
 })
 
+function formatConflictPair(pair: Awaited<ReturnType<typeof findScientistConflicts>>[number]) {
+  const { overlap, ...participation } = formatConflict(pair.participation)
+  const { overlap: _, ...conflictsWith } = formatConflict(pair.conflictsWith)
+  return { participation, conflictsWith, overlap }
+}
+
+const getScientistConflictsRoute = createRoute({
+  method: 'get',
+  path: '/{id}/conflicts',
+  tags: ['Scientists'],
+  summary: 'Get scheduling conflicts of a scientist',
+  description: 'Lists every pair of active participations of the scientist at conferences that take place on overlapping dates',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Scientist ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ScientistConflictsSchema
+        }
+      },
+      description: 'Conflicts report'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    }
+  }
+})
+
+scientists.openapi(getScientistConflictsRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const scientist = await prisma.scientist.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!scientist) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  const pairs = await findScientistConflicts(prisma, id)
+
+  return c.json({
+    scientistId: id,
+    data: pairs.map(formatConflictPair)
+  }, 200)
+})
+
+const ScientistNetworkSchema = z.object({
+  scientistId: z.number().int().positive(),
+  metrics: ScientistMetricsSchema,
+  data: z.array(z.object({
+    scientist: z.object({
+      id: z.number().int().positive(),
+      fullName: z.string(),
+      country: z.string(),
+      organization: z.string(),
+      specialization: z.string()
+    }),
+    sharedConferences: z.number().int().positive().openapi({ description: 'Weight: conferences both attended' }),
+    conferences: z.array(z.object({
+      id: z.number().int().positive(),
+      name: z.string(),
+      date: z.string().datetime()
+    }))
+  }))
+}).openapi('ScientistNetwork')
+
+const getScientistNetworkRoute = createRoute({
+  method: 'get',
+  path: '/{id}/network',
+  tags: ['Scientists', 'Analytics'],
+  summary: 'Co-attendance network of a scientist',
+  description: 'Scientists who attended the same conferences as this one (confirmed or attended participations), ' +
+    'weighted by the number of shared conferences, together with the attendance metrics of the scientist',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Scientist ID' })
+    }),
+    query: z.object({
+      topic: z.string().optional().openapi({ description: 'Only conferences whose topic contains this' }),
+      country: z.string().optional().openapi({ description: 'Only conferences in this country' }),
+      year: z.coerce.number().int().min(1900).max(2200).optional().openapi({ description: 'Only conferences in this year' }),
+      minShared: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Minimum number of shared conferences' }),
+      limit: z.coerce.number().int().positive().max(500).optional().default(50).openapi({ description: 'Maximum number of scientists' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ScientistNetworkSchema
+        }
+      },
+      description: 'Network, most shared conferences first'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    }
+  }
+})
+
+scientists.openapi(getScientistNetworkRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { topic, country, year, minShared, limit } = c.req.valid('query')
+  const filter = { topic, country, year }
+
+  const scientist = await prisma.scientist.findUnique({
+    where: { id },
+    select: { id: true }
+  })
+
+  if (!scientist) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  const [network, metrics] = await Promise.all([
+    scientistNetwork(prisma, id, filter, { minShared, limit }),
+    scientistMetrics(prisma, [id], filter)
+  ])
+
+  const conferences = new Map((await prisma.conference.findMany({
+    where: { id: { in: [...new Set(network.flatMap((row) => row.conferenceIds))] } },
+    select: { id: true, name: true, date: true }
+  })).map((conference) => [conference.id, { ...conference, date: conference.date.toISOString() }]))
+
+  return c.json({
+    scientistId: id,
+    metrics: metrics.get(id)!,
+    data: network.map(({ shared, conferenceIds, ...other }) => ({
+      scientist: other,
+      sharedConferences: shared,
+      conferences: conferenceIds.flatMap((conferenceId) => conferences.get(conferenceId) ?? [])
+    }))
+  }, 200)
+})
+
+const getRecommendedConferencesRoute = createRoute({
+  method: 'get',
+  path: '/{id}/recommended-conferences',
+  tags: ['Scientists'],
+  summary: 'Recommended upcoming conferences',
+  description: 'Ranks upcoming conferences the scientist does not take part in yet by how well their topic matches ' +
+    'the specialization and the topics of earlier conferences of the scientist, with the country as a preference. ' +
+    'Each result explains its score',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Scientist ID' })
+    }),
+    query: z.object({
+      limit: z.coerce.number().int().positive().max(50).optional().default(10).openapi({ description: 'Maximum number of conferences' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            scientistId: z.number().int().positive(),
+            data: z.array(z.object({
+              conference: z.object({
+                id: z.number().int().positive(),
+                name: z.string(),
+                topic: z.string(),
+                country: z.string(),
+                location: z.string(),
+                date: z.string().datetime()
+              }),
+              score: ScoreBreakdownSchema
+            }))
+          }).openapi('RecommendedConferences')
+        }
+      },
+      description: 'Conferences, best match first'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    }
+  }
+})
+
+scientists.openapi(getRecommendedConferencesRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { limit } = c.req.valid('query')
+  const now = new Date()
+
+  const scientist = await prisma.scientist.findUnique({
+    where: { id },
+    include: {
+      participations: {
+        where: { deletedAt: null, status: { notIn: IGNORED_STATUSES }, conference: { date: { lt: now } } },
+        select: { conference: { select: { topic: true, country: true } } }
+      }
+    }
+  })
+
+  if (!scientist) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  const candidates = await prisma.conference.findMany({
+    where: {
+      date: { gte: now },
+      participations: { none: { scientistId: id, deletedAt: null } }
+    },
+    select: { id: true, name: true, topic: true, country: true, location: true, date: true },
+    orderBy: [{ date: 'asc' }, { id: 'asc' }]
+  })
+
+  const profile = {
+    specialization: scientist.specialization,
+    country: scientist.country,
+    pastConferences: scientist.participations.map((participation) => participation.conference)
+  }
+
+  return c.json({
+    scientistId: id,
+    data: rankRecommendations(candidates, (conference) => scoreRecommendation(profile, conference), limit)
+      .map(({ candidate, score }) => ({ conference: { ...candidate, date: candidate.date.toISOString() }, score }))
+  }, 200)
+})
+
+const getScientistCalendarRoute = createRoute({
+  method: 'get',
+  path: '/{id}/calendar.ics',
+  tags: ['Scientists'],
+  summary: 'Personal calendar feed',
+  description: 'iCalendar feed with every conference the scientist takes part in and each of their talks. ' +
+    'Cancelled and withdrawn participations are published as cancelled events so that subscribed calendars drop them',
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Scientist ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'text/calendar': {
+          schema: z.string()
+        }
+      },
+      description: 'iCalendar (RFC 5545) feed'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    }
+  }
+})
+
+scientists.openapi(getScientistCalendarRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const scientist = await prisma.scientist.findUnique({
+    where: { id },
+    include: {
+      participations: {
+        where: { deletedAt: null },
+        include: {
+          conference: true,
+          slot: { include: { session: { include: { room: true } } } }
+        },
+        orderBy: [{ conference: { date: 'asc' } }, { id: 'asc' }]
+      }
+    }
+  })
+
+  if (!scientist) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  const events: CalendarEvent[] = []
+  const conferenceIds = new Set<number>()
+
+  for (const participation of scientist.participations) {
+    const { conference } = participation
+
+    if (!conferenceIds.has(conference.id)) {
+      conferenceIds.add(conference.id)
+      const own = scientist.participations.filter((p) => p.conferenceId === conference.id)
+      events.push({
+        ...conferenceEvent(conference, calendarUid('conference', conference.id, 'scientist', id)),
+        status: own.some((p) => isActive(p.status)) ? 'CONFIRMED' : 'CANCELLED',
+        // The status follows the scientist's talks, so their changes count too
+        sequence: revision(conference.updatedAt, ...own.map((p) => p.updatedAt))
+      })
+    }
+
+    // Draft sessions are not public yet, so their slots are treated as unscheduled
+    const slot = participation.slot?.session.isDraft ? null : participation.slot
+    events.push(talkEvent(conference, { ...participation, slot }))
+  }
+
+  return c.body(renderCalendar(scientist.fullName, 'UTC', events), 200, calendarHeaders(`scientist-${id}.ics`))
+})
+
 const createScientistRoute = createRoute({
   method: 'post',
   path: '/',
   tags: ['Scientists'],
   summary: 'Create new scientist',
+  description: 'Rejects scientists whose email or ORCID iD is already registered. Likely duplicates by name and organization ' +
+    'are returned with 409 as well, unless force=true confirms that this is a different person',
+  ...withRoles('admin', 'organizer'),
   request: {
+    query: z.object({
+      force: z.enum(['true', 'false']).optional().openapi({ description: 'Create even if similar scientists exist' })
+    }),
     body: {
       content: {
         'application/json': {
@@ -241,6 +762,7 @@ const createScientistRoute = createRoute({
     }
   },
   responses: {
+    ...problemResponses,
     201: {
       content: {
         'application/json': {
@@ -248,18 +770,53 @@ const createScientistRoute = createRoute({
         }
       },
       description: 'Scientist created successfully'
+    },
+    ...authResponses,
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: DuplicateScientistsErrorSchema
+        }
+      },
+      description: 'Email or ORCID iD already registered, or likely duplicates found'
     }
   }
 })
 
 scientists.openapi(createScientistRoute, async (c) => {
   const data = c.req.valid('json')
-  
-  const scientist = await prisma.scientist.create({
-    data
-  })
+  const { force } = c.req.valid('query')
+
+  const duplicates = await findDuplicateScientists(prisma, data)
+  const taken = duplicates.filter((duplicate) => duplicate.reason !== 'name')
+
+  if (taken.length > 0) {
+    const field = taken[0].reason === 'email' ? 'email' : 'ORCID iD'
+    const error = taken[0].deleted
+      ? `A deleted scientist with this ${field} exists; restore it with POST /scientists/${taken[0].id}/restore`
+      : `A scientist with this ${field} already exists`
+    return problem(c, 409, error, { duplicates: taken })
+  }
 
-  return c.json(scientist, 201)
+  if (duplicates.length > 0 && force !== 'true') {
+    return problem(c, 409, 'Similar scientists already exist; repeat with force=true to create a new one anyway', { duplicates })
+  }
+
+  try {
+    const scientist = await prisma.$transaction(async (tx) => {
+      const created = await tx.scientist.create({
+        data
+      })
+      await recordAudit(tx, c.get('user'), 'scientists.create', [createChange('scientist', created)])
+      return created
+    })
+
+    return c.json(scientist, 201)
+  } catch (error) {
+    // Lost a race with another request registering the same email or ORCID iD
+    if (!isPrismaError(error, 'P2002')) throw error
+    return problem(c, 409, 'A scientist with this email or ORCID iD already exists', { duplicates: [] })
+  }
 })
 
 const updateScientistRoute = createRoute({
@@ -267,6 +824,7 @@ const updateScientistRoute = createRoute({
   path: '/{id}',
   tags: ['Scientists'],
   summary: 'Update scientist',
+  ...withRoles('admin', 'organizer', 'scientist'),
   request: {
     params: z.object({
       id: z.coerce.number().int().positive()
@@ -280,6 +838,7 @@ const updateScientistRoute = createRoute({
     }
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
@@ -288,13 +847,22 @@ const updateScientistRoute = createRoute({
       },
       description: 'Scientist updated'
     },
+    ...authResponses,
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Scientist not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Email or ORCID iD belongs to another scientist'
     }
   }
 })
@@ -302,17 +870,245 @@ const updateScientistRoute = createRoute({
 scientists.openapi(updateScientistRoute, async (c) => {
   const { id } = c.req.valid('param')
   const data = c.req.valid('json')
+  const user = c.get('user')
 
-  try {
-    const scientist = await prisma.scientist.update({
+  if (user.role === 'scientist' && user.scientistId !== id) {
+    return problem(c, 403, 'Scientists can only update their own profile')
+  }
+
+  if (data.email || data.orcid) {
+    // Deleted scientists keep their email and ORCID iD until they are merged away
+    const taken = await prisma.scientist.findFirst({
+      where: {
+        ...deletedWhere('include'),
+        id: { not: id },
+        OR: [
+          ...(data.email ? [{ email: { equals: data.email, mode: 'insensitive' as const } }] : []),
+          ...(data.orcid ? [{ orcid: data.orcid }] : [])
+        ]
+      }
+    })
+
+    if (taken) {
+      return problem(c, 409, `Email or ORCID iD already belongs to scientist ${taken.id}`)
+    }
+  }
+
+  const scientist = await prisma.$transaction(async (tx) => {
+    const existing = await tx.scientist.findUnique({ where: { id } })
+    if (!existing) return null
+
+    const saved = await tx.scientist.update({
       where: { id },
       data
     })
+    await recordAudit(tx, user, 'scientists.update', [updateChange('scientist', existing, saved)])
+    return saved
+  })
+
+  if (!scientist) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  return c.json(scientist, 200)
+})
+
+function formatMerge(merge: ScientistMerge) {
+  return {
+    ...merge,
+    sources: merge.sources as Array<Record<string, unknown>>,
+    fields: merge.fields as Record<string, number>,
+    mergedAt: merge.mergedAt.toISOString()
+  }
+}
+
+const mergeScientistsRoute = createRoute({
+  method: 'post',
+  path: '/{id}/merge',
+  tags: ['Scientists'],
+  summary: 'Merge duplicate scientists',
+  description: 'Folds the source scientists into this one in a single transaction: their participations are re-pointed, ' +
+    'the chosen field values survive, a linked user account moves over and the sources are deleted. ' +
+    'Soft-deleted scientists can be merged in as sources, which frees their email and ORCID iD. ' +
+    'The merge is recorded and listed by GET /scientists/{id}/merges',
+  ...withRoles('admin'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Target scientist ID' })
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: MergeScientistsSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: MergeResultSchema
+        }
+      },
+      description: 'Scientists merged; conflicts lists overlapping participations the target now has'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Invalid merge request'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'More than one of the scientists has a user account'
+    }
+  }
+})
+
+scientists.openapi(mergeScientistsRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { sourceIds, fields } = c.req.valid('json')
+  const user = c.get('user')
+
+  try {
+    const { scientist, merge, conflicts } = await prisma.$transaction(async (tx) => {
+      const result = await mergeScientists(tx, { targetId: id, sourceIds, fields, actor: user })
+      return { ...result, conflicts: await findScientistConflicts(tx, id) }
+    })
 
-    return c.json(scientist, 200)
+    return c.json({
+      scientist,
+      merge: formatMerge(merge),
+      conflicts: conflicts.map(formatConflictPair)
+    }, 200)
   } catch (error) {
-    return c.json({ error: 'Scientist not found' }, 404)
+    if (error instanceof ScientistMergeError) {
+      if (error.status === 400) return problem(c, 400, error.message)
+      if (error.status === 404) return problem(c, 404, error.message)
+      return problem(c, 409, error.message)
+    }
+    throw error
+  }
+})
+
+const getScientistMergesRoute = createRoute({
+  method: 'get',
+  path: '/{id}/merges',
+  tags: ['Scientists'],
+  summary: 'Get merge history of scientist',
+  ...withRoles('admin'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Scientist ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ data: z.array(ScientistMergeSchema) })
+        }
+      },
+      description: 'Merges into this scientist, newest first'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    }
+  }
+})
+
+scientists.openapi(getScientistMergesRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const scientist = await prisma.scientist.findUnique({
+    where: { id },
+    include: { merges: { orderBy: { mergedAt: 'desc' } } }
+  })
+
+  if (!scientist) {
+    return problem(c, 404, 'Scientist not found')
   }
+
+  return c.json({ data: scientist.merges.map(formatMerge) }, 200)
+})
+
+const getScientistHistoryRoute = createRoute({
+  method: 'get',
+  path: '/{id}/history',
+  tags: ['Scientists'],
+  summary: 'Get change history of scientist',
+  description: 'Lists every recorded change of the scientist with actor and before and after values, oldest first. ' +
+    'Also available after the scientist was deleted or merged into another one. Scientists can read the history of their own profile',
+  ...withRoles('admin', 'scientist'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive().openapi({ description: 'Scientist ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: EntityHistorySchema
+        }
+      },
+      description: 'Change history retrieved'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found and no history recorded'
+    }
+  }
+})
+
+scientists.openapi(getScientistHistoryRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const user = c.get('user')
+
+  if (user.role === 'scientist' && user.scientistId !== id) {
+    return problem(c, 403, 'Scientists can only read the history of their own profile')
+  }
+
+  const [scientist, history] = await Promise.all([
+    prisma.scientist.findUnique({ where: { id }, select: { id: true } }),
+    entityHistory(prisma, 'scientist', id)
+  ])
+
+  if (!scientist && history.length === 0) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  return c.json({ entity: 'scientist' as const, entityId: id, data: history.map(formatAuditEntry) }, 200)
 })
 
 const deleteScientistRoute = createRoute({
@@ -320,43 +1116,167 @@ const deleteScientistRoute = createRoute({
   path: '/{id}',
   tags: ['Scientists'],
   summary: 'Delete scientist',
+  description: 'Soft-deletes the scientist; it can be brought back with POST /scientists/{id}/restore. ' +
+    'A scientist with participations is only deleted with cascade=true, which deletes them along with it and ' +
+    'gives their seats to the waitlist. preview=true lists those participations without deleting anything. ' +
+    'Submissions are kept',
+  ...withRoles('admin'),
   request: {
     params: z.object({
       id: z.coerce.number().int().positive()
-    })
+    }),
+    query: DeleteQuerySchema
   },
   responses: {
+    ...problemResponses,
     200: {
       content: {
         'application/json': {
-          schema: z.object({ message: z.string() })
+          schema: z.union([DeleteResultSchema, DeletePreviewSchema])
         }
       },
-      description: 'Scientist deleted'
+      description: 'Scientist deleted, or the preview of what would be deleted'
     },
+    ...authResponses,
     404: {
       content: {
-        'application/json': {
-          schema: ErrorSchema
+        'application/problem+json': {
+          schema: ProblemSchema
         }
       },
       description: 'Scientist not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: DependentsErrorSchema
+        }
+      },
+      description: 'Scientist has participations and cascade was not requested'
     }
   }
 })
 
 scientists.openapi(deleteScientistRoute, async (c) => {
   const { id } = c.req.valid('param')
+  const { cascade, preview } = c.req.valid('query')
 
-  try {
-    await prisma.scientist.delete({
-      where: { id }
+  const result = await prisma.$transaction(async (tx) => {
+    const scientist = await tx.scientist.findUnique({ where: { id } })
+    if (!scientist) return null
+
+    const dependents = await findDependentParticipations(tx, { scientistId: id })
+    if (preview === 'true' || (dependents.length > 0 && cascade !== 'true')) {
+      return { deleted: null, dependents }
+    }
+
+    const deleted = await tx.scientist.update({
+      where: { id },
+      data: { deletedAt: new Date() }
     })
+    await recordAudit(tx, c.get('user'), 'scientists.delete', [deleteChange('scientist', scientist, deleted)])
+    await softDeleteParticipations(tx, dependents, deleted.deletedAt!, c.get('user'), 'scientists.delete', { releaseSeats: true })
 
-    return c.json({ message: 'Scientist deleted successfully' }, 200)
-  } catch (error) {
-    return c.json({ error: 'Scientist not found' }, 404)
+    return { deleted, dependents }
+  })
+
+  if (!result) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  const participations = result.dependents.map(formatDependent)
+
+  if (preview === 'true') {
+    return c.json({ entity: 'scientist' as const, id, participations }, 200)
+  }
+
+  if (!result.deleted) {
+    return problem(c, 409,
+      `Scientist has ${participations.length} participations; delete them first, pass cascade=true ` +
+        'or merge this scientist into another one with POST /scientists/{id}/merge',
+      { participations })
   }
+
+  return c.json({
+    message: 'Scientist deleted successfully',
+    deletedAt: result.deleted.deletedAt!.toISOString(),
+    participationIds: participations.map((participation) => participation.id)
+  }, 200)
+})
+
+const restoreScientistRoute = createRoute({
+  method: 'post',
+  path: '/{id}/restore',
+  tags: ['Scientists'],
+  summary: 'Restore deleted scientist',
+  description: 'Brings back a soft-deleted scientist together with the participations deleted along with it. ' +
+    'Participations whose seat was taken in the meantime are put on the waitlist',
+  ...withRoles('admin'),
+  request: {
+    params: z.object({
+      id: z.coerce.number().int().positive()
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: RestoreResultSchema
+        }
+      },
+      description: 'Scientist restored'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scientist is not deleted'
+    }
+  }
+})
+
+scientists.openapi(restoreScientistRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const result = await prisma.$transaction(async (tx) => {
+    const scientist = await tx.scientist.findUnique({ where: { id, ...deletedWhere('include') } })
+    if (!scientist || !scientist.deletedAt) return scientist
+
+    const restored = await tx.scientist.update({
+      where: { id, ...deletedWhere('only') },
+      data: { deletedAt: null }
+    })
+    await recordAudit(tx, c.get('user'), 'scientists.restore', [restoreChange('scientist', scientist, restored)])
+
+    return restoreParticipations(tx, { scientistId: id, deletedAt: scientist.deletedAt }, c.get('user'), 'scientists.restore')
+  })
+
+  if (!result) {
+    return problem(c, 404, 'Scientist not found')
+  }
+
+  if (!('restored' in result)) {
+    return problem(c, 409, 'Scientist is not deleted')
+  }
+
+  return c.json({
+    message: 'Scientist restored successfully',
+    participationIds: result.restored,
+    waitlistedIds: result.waitlisted,
+    skipped: result.skipped
+  }, 200)
 })
 
-export default scientists
\ No newline at end of file
+export default scientists
@@ -0,0 +1,69 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import { prisma } from '../lib/prisma.js'
+import { problemResponses, validationHook } from '../lib/problem.js'
+import { PaginationSchema } from '../lib/pagination.js'
+import { SEARCH_TYPES, SearchHitSchema, search, type SearchType } from '../lib/search.js'
+
+const searchRouter = new OpenAPIHono({ defaultHook: validationHook })
+
+const SearchResponseSchema = z.object({
+  data: z.array(SearchHitSchema),
+  facets: z.object({
+    scientist: z.number().int(),
+    conference: z.number().int(),
+    participation: z.number().int()
+  }).openapi({ description: 'Matches per type, regardless of the types parameter' }),
+  pagination: PaginationSchema
+}).openapi('SearchResponse')
+
+const searchRoute = createRoute({
+  method: 'get',
+  path: '/',
+  tags: ['Search'],
+  summary: 'Search scientists, conferences and talks',
+  description: 'Ranked full-text search over scientist names, organizations and specializations, ' +
+    'conference names, topics and locations, and talk titles and metadata. ' +
+    'Every word must match; words are stemmed and the last one may be incomplete. ' +
+    'Misspelled names, organizations, topics and titles are found by trigram similarity',
+  request: {
+    query: z.object({
+      q: z.string().trim().min(2).max(200).openapi({ description: 'Search text', example: 'quantum comp' }),
+      types: z.string()
+        .regex(new RegExp(`^(${SEARCH_TYPES.join('|')})(,(${SEARCH_TYPES.join('|')}))*$`), `Comma-separated list of ${SEARCH_TYPES.join(', ')}`)
+        .optional()
+        .openapi({ description: 'Only these result types, comma-separated', example: 'scientist,conference' }),
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(20).openapi({ description: 'Results per page' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SearchResponseSchema
+        }
+      },
+      description: 'Results, best match first'
+    }
+  }
+})
+
+searchRouter.openapi(searchRoute, async (c) => {
+  const { q, types, page, limit } = c.req.valid('query')
+  const selected = types ? [...new Set(types.split(','))] as SearchType[] : [...SEARCH_TYPES]
+
+  const { data, facets } = await prisma.$transaction((tx) =>
+    search(tx, q, { types: selected, limit, offset: (page - 1) * limit })
+  )
+  const total = selected.reduce((sum, type) => sum + facets[type], 0)
+
+  return c.json({
+    data,
+    facets,
+    pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+  }, 200)
+})
+
+export default searchRouter
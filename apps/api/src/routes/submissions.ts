@@ -0,0 +1,1359 @@
+import { OpenAPIHono, createRoute } from '@hono/zod-openapi'
+import { z } from 'zod'
+import type { Prisma, Review, ReviewCriterion, ReviewScore, Submission } from '@prisma/client'
+import { prisma } from '../lib/prisma.js'
+import { ProblemSchema, problem, problemResponses, validationHook } from '../lib/problem.js'
+import { PaginationSchema } from '../lib/pagination.js'
+import { authResponses, withRoles, type AuthUser } from '../lib/auth.js'
+import { canManageConference } from '../lib/organizers.js'
+import { DoubleBookingError, formatConflict } from '../lib/double-booking.js'
+import { SUBMISSION_STATUSES, OPEN_SUBMISSION_STATUSES, acceptSubmission, aggregateReviews, isOpen } from '../lib/submissions.js'
+import { lockConference } from '../lib/waitlist.js'
+import { planAssignments, type AssignmentScientist } from '../lib/reviewer-assignment.js'
+import { DoubleBookingErrorSchema, formatDoubleBookingError } from './participations.js'
+
+const submissions = new OpenAPIHono({ defaultHook: validationHook })
+
+const SubmissionStatusSchema = z.enum(SUBMISSION_STATUSES)
+
+const SubmissionSchema = z.object({
+  id: z.number().int().positive(),
+  conferenceId: z.number().int().positive(),
+  scientistId: z.number().int().positive(),
+  title: z.string(),
+  abstract: z.string(),
+  participationType: z.string(),
+  durationMinutes: z.number().int().positive(),
+  status: SubmissionStatusSchema,
+  decisionNote: z.string().nullable(),
+  decidedAt: z.string().datetime().nullable(),
+  participationId: z.number().int().positive().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime()
+}).openapi('Submission')
+
+const CreateSubmissionSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  abstract: z.string().min(1, 'Abstract is required'),
+  participationType: z.string().min(1, 'Participation type is required')
+    .openapi({ description: 'Requested kind of contribution, e.g. talk or poster; organizers may change it when accepting' }),
+  durationMinutes: z.number().int().min(1, 'Duration must be at least 1 minute'),
+  scientistId: z.number().int().positive().optional()
+    .openapi({ description: 'Author; required for admins and organizers, scientists always submit for themselves' })
+}).openapi('CreateSubmission')
+
+const UpdateSubmissionSchema = CreateSubmissionSchema.omit({ scientistId: true }).partial().openapi('UpdateSubmission')
+
+const ReviewCriterionSchema = z.object({
+  id: z.number().int().positive(),
+  conferenceId: z.number().int().positive(),
+  name: z.string(),
+  description: z.string().nullable(),
+  weight: z.number().positive(),
+  maxScore: z.number().int().positive()
+}).openapi('ReviewCriterion')
+
+const ReplaceReviewCriteriaSchema = z.object({
+  criteria: z.array(z.object({
+    name: z.string().min(1, 'Name is required'),
+    description: z.string().optional(),
+    weight: z.number().positive().optional().openapi({ description: 'Relative weight in the aggregate score (default 1)' }),
+    maxScore: z.number().int().min(1).max(100).optional().openapi({ description: 'Scores range from 1 to maxScore (default 5)' })
+  })).min(1, 'At least one criterion is required')
+    .refine((criteria) => new Set(criteria.map((c) => c.name)).size === criteria.length, 'Criterion names must be unique')
+}).openapi('ReplaceReviewCriteria')
+
+const ReviewSchema = z.object({
+  id: z.number().int().positive(),
+  submissionId: z.number().int().positive(),
+  reviewerId: z.number().int().positive().nullable().openapi({ description: 'Hidden from authors' }),
+  comment: z.string().nullable(),
+  score: z.number().nullable().openapi({ description: 'Weighted score of this review on a 0–100 scale' }),
+  scores: z.array(z.object({
+    criterionId: z.number().int().positive(),
+    score: z.number().int()
+  })),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime()
+}).openapi('Review')
+
+const SaveReviewSchema = z.object({
+  scores: z.array(z.object({
+    criterionId: z.number().int().positive(),
+    score: z.number().int().min(1)
+  })).min(1).openapi({ description: 'One score per review criterion of the conference' }),
+  comment: z.string().optional()
+}).openapi('SaveReview')
+
+const DecisionSchema = z.object({
+  decision: z.enum(['accepted', 'rejected']),
+  note: z.string().optional(),
+  participationType: z.string().min(1).optional()
+    .openapi({ description: 'Participation type of the created participation; defaults to the requested one' }),
+  durationMinutes: z.number().int().min(1).optional(),
+  metadata: z.record(z.string(), z.any()).optional().openapi({
+    description: 'Metadata of the created participation; must match the metadata schema of the conference, ' +
+      'if it has one, and missing fields get their defaults'
+  })
+}).openapi('SubmissionDecision')
+
+const DecisionResultSchema = z.object({
+  submission: SubmissionSchema,
+  participation: z.object({
+    id: z.number().int().positive(),
+    status: z.string()
+  }).nullable(),
+  conflicts: DoubleBookingErrorSchema.shape.conflicts
+}).openapi('SubmissionDecisionResult')
+
+const SubmissionRankingSchema = z.object({
+  conferenceId: z.number().int().positive(),
+  criteria: z.array(ReviewCriterionSchema),
+  data: z.array(z.object({
+    rank: z.number().int().positive().nullable().openapi({ description: 'Null for submissions without reviews' }),
+    submission: SubmissionSchema,
+    score: z.number().nullable().openapi({ description: 'Mean weighted review score on a 0–100 scale' }),
+    reviewCount: z.number().int().nonnegative(),
+    criteria: z.array(z.object({
+      criterionId: z.number().int().positive(),
+      name: z.string(),
+      average: z.number().nullable()
+    }))
+  }))
+}).openapi('SubmissionRanking')
+
+const AssignReviewersSchema = z.object({
+  reviewersPerSubmission: z.number().int().min(1).max(20).optional().default(3)
+    .openapi({ description: 'Reviewers every submission should have, counting existing assignments' }),
+  maxPerReviewer: z.number().int().min(1).optional()
+    .openapi({ description: 'Assignments per reviewer in this conference; defaults to an even spread' }),
+  submissionIds: z.array(z.number().int().positive()).optional()
+    .openapi({ description: 'Only assign these submissions; defaults to every submission awaiting a decision' }),
+  dryRun: z.boolean().optional().default(false).openapi({ description: 'Return the plan without saving it' })
+}).openapi('AssignReviewers')
+
+const AssignmentResultSchema = z.object({
+  dryRun: z.boolean(),
+  maxPerReviewer: z.number().int().positive(),
+  summary: z.object({
+    submissions: z.number().int().nonnegative(),
+    assigned: z.number().int().nonnegative(),
+    unfilled: z.number().int().nonnegative()
+  }),
+  data: z.array(z.object({
+    submissionId: z.number().int().positive(),
+    title: z.string(),
+    assigned: z.array(z.object({
+      reviewerId: z.number().int().positive(),
+      scientistId: z.number().int().positive(),
+      fullName: z.string(),
+      specialization: z.string(),
+      matchScore: z.number(),
+      reasons: z.array(z.string())
+    })),
+    alreadyAssigned: z.array(z.number().int().positive()),
+    excluded: z.array(z.object({
+      reviewerId: z.number().int().positive(),
+      scientistId: z.number().int().positive().nullable(),
+      fullName: z.string().nullable(),
+      reasons: z.array(z.string())
+    })),
+    unfilled: z.number().int().nonnegative().openapi({ description: 'Reviewers still missing for lack of eligible candidates' })
+  }))
+}).openapi('ReviewerAssignmentResult')
+
+const ReviewAssignmentSchema = z.object({
+  id: z.number().int().positive(),
+  submissionId: z.number().int().positive(),
+  reviewerId: z.number().int().positive(),
+  matchScore: z.number(),
+  reasons: z.array(z.string()),
+  reviewed: z.boolean(),
+  createdAt: z.string().datetime()
+}).openapi('ReviewAssignment')
+
+
+const ConferenceParamsSchema = z.object({
+  id: z.coerce.number().int().positive().openapi({ description: 'Conference ID' })
+})
+
+const SubmissionParamsSchema = ConferenceParamsSchema.extend({
+  submissionId: z.coerce.number().int().positive().openapi({ description: 'Submission ID' })
+})
+
+function formatSubmission(s: Submission) {
+  return {
+    id: s.id,
+    conferenceId: s.conferenceId,
+    scientistId: s.scientistId,
+    title: s.title,
+    abstract: s.abstract,
+    participationType: s.participationType,
+    durationMinutes: s.durationMinutes,
+    status: s.status,
+    decisionNote: s.decisionNote,
+    decidedAt: s.decidedAt ? s.decidedAt.toISOString() : null,
+    participationId: s.participationId,
+    createdAt: s.createdAt.toISOString(),
+    updatedAt: s.updatedAt.toISOString()
+  }
+}
+
+function formatCriterion(c: ReviewCriterion) {
+  return {
+    id: c.id,
+    conferenceId: c.conferenceId,
+    name: c.name,
+    description: c.description,
+    weight: c.weight,
+    maxScore: c.maxScore
+  }
+}
+
+function formatReview(criteria: ReviewCriterion[], r: Review & { scores: ReviewScore[] }, anonymous = false) {
+  const { score } = aggregateReviews(criteria, [r])
+  return {
+    id: r.id,
+    submissionId: r.submissionId,
+    reviewerId: anonymous ? null : r.reviewerId,
+    comment: r.comment,
+    score,
+    scores: r.scores.map((s) => ({ criterionId: s.criterionId, score: s.score })),
+    createdAt: r.createdAt.toISOString(),
+    updatedAt: r.updatedAt.toISOString()
+  }
+}
+
+function criteriaOf(conferenceId: number) {
+  return prisma.reviewCriterion.findMany({
+    where: { conferenceId },
+    orderBy: [{ position: 'asc' }, { id: 'asc' }]
+  })
+}
+
+/**
+ * How the caller relates to a submission: organizers of the conference manage it,
+ * its author owns it and reviewers assigned to it may review it.
+ */
+async function submissionAccess(user: AuthUser, submission: { id: number; conferenceId: number; scientistId: number }) {
+  if (await canManageConference(prisma, user, submission.conferenceId)) return 'manager'
+  if (user.scientistId !== null && user.scientistId === submission.scientistId) return 'author'
+  if (user.role !== 'reviewer') return null
+
+  const assignment = await prisma.reviewAssignment.findUnique({
+    where: { submissionId_reviewerId: { submissionId: submission.id, reviewerId: user.id } },
+    select: { id: true }
+  })
+  return assignment ? 'reviewer' : null
+}
+
+// Scientist profile with the conferences they presented at, for conflict-of-interest checks
+const ASSIGNMENT_SCIENTIST_INCLUDE = {
+  participations: {
+    where: { status: { notIn: ['cancelled', 'withdrawn'] }, deletedAt: null },
+    select: { conference: { select: { id: true, name: true } } }
+  }
+} satisfies Prisma.ScientistInclude
+
+function toAssignmentScientist(
+  scientist: Prisma.ScientistGetPayload<{ include: typeof ASSIGNMENT_SCIENTIST_INCLUDE }>
+): AssignmentScientist {
+  return {
+    id: scientist.id,
+    fullName: scientist.fullName,
+    country: scientist.country,
+    organization: scientist.organization,
+    specialization: scientist.specialization,
+    conferences: new Map(scientist.participations.map((p) => [p.conference.id, p.conference.name]))
+  }
+}
+
+async function findSubmission(conferenceId: number, submissionId: number) {
+  return prisma.submission.findFirst({
+    where: { id: submissionId, conferenceId }
+  })
+}
+
+const getReviewCriteriaRoute = createRoute({
+  method: 'get',
+  path: '/{id}/review-criteria',
+  tags: ['Submissions'],
+  summary: 'Get review criteria of conference',
+  ...withRoles('admin', 'organizer', 'reviewer', 'scientist'),
+  request: {
+    params: ConferenceParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ data: z.array(ReviewCriterionSchema) })
+        }
+      },
+      description: 'Review criteria in display order'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+submissions.openapi(getReviewCriteriaRoute, async (c) => {
+  const { id } = c.req.valid('param')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const criteria = await criteriaOf(id)
+
+  return c.json({ data: criteria.map(formatCriterion) }, 200)
+})
+
+const replaceReviewCriteriaRoute = createRoute({
+  method: 'put',
+  path: '/{id}/review-criteria',
+  tags: ['Submissions'],
+  summary: 'Replace review criteria of conference',
+  description: 'Sets the criteria reviewers score submissions against. Criteria cannot change once the first review has been saved',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: ReplaceReviewCriteriaSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ data: z.array(ReviewCriterionSchema) })
+        }
+      },
+      description: 'Review criteria replaced'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submissions of the conference have already been reviewed'
+    }
+  }
+})
+
+submissions.openapi(replaceReviewCriteriaRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { criteria } = c.req.valid('json')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can change its review criteria')
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Reviews are saved under the same lock, so none can be saved between the count and the replacement
+    await lockConference(tx, id)
+    const reviews = await tx.review.count({ where: { submission: { conferenceId: id } } })
+    if (reviews > 0) return { reviews }
+
+    await tx.reviewCriterion.deleteMany({ where: { conferenceId: id } })
+    await tx.reviewCriterion.createMany({
+      data: criteria.map((criterion, position) => ({ ...criterion, conferenceId: id, position }))
+    })
+    return { saved: await tx.reviewCriterion.findMany({ where: { conferenceId: id }, orderBy: { position: 'asc' } }) }
+  })
+
+  if ('reviews' in result) {
+    return problem(c, 409, `Review criteria cannot change after ${result.reviews} reviews have been saved`)
+  }
+  const { saved } = result
+
+  return c.json({ data: saved.map(formatCriterion) }, 200)
+})
+
+const createSubmissionRoute = createRoute({
+  method: 'post',
+  path: '/{id}/submissions',
+  tags: ['Submissions'],
+  summary: 'Submit abstract to conference',
+  description: 'Submissions are accepted until the conference starts',
+  ...withRoles('admin', 'organizer', 'scientist'),
+  request: {
+    params: ConferenceParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: CreateSubmissionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    201: {
+      content: {
+        'application/json': {
+          schema: SubmissionSchema
+        }
+      },
+      description: 'Abstract submitted'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Missing or unknown author'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Call for papers is closed'
+    }
+  }
+})
+
+submissions.openapi(createSubmissionRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { scientistId: requestedScientistId, ...data } = c.req.valid('json')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true, date: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  let scientistId: number
+  if (user.role === 'scientist') {
+    if (user.scientistId === null) {
+      return problem(c, 403, 'Your account is not linked to a scientist profile')
+    }
+    if (requestedScientistId !== undefined && requestedScientistId !== user.scientistId) {
+      return problem(c, 403, 'Scientists can only submit their own abstracts')
+    }
+    scientistId = user.scientistId
+  } else {
+    if (!(await canManageConference(prisma, user, id))) {
+      return problem(c, 403, 'Only organizers of this conference can submit on behalf of scientists')
+    }
+    if (requestedScientistId === undefined) {
+      return problem(c, 400, 'scientistId is required when submitting on behalf of a scientist')
+    }
+    const scientist = await prisma.scientist.findUnique({ where: { id: requestedScientistId }, select: { id: true } })
+    if (!scientist) {
+      return problem(c, 400, `Scientist ${requestedScientistId} not found`)
+    }
+    scientistId = requestedScientistId
+  }
+
+  if (conference.date <= new Date()) {
+    return problem(c, 409, 'The call for papers closed when the conference started')
+  }
+
+  const submission = await prisma.submission.create({
+    data: { ...data, conferenceId: id, scientistId }
+  })
+
+  return c.json(formatSubmission(submission), 201)
+})
+
+const getSubmissionsRoute = createRoute({
+  method: 'get',
+  path: '/{id}/submissions',
+  tags: ['Submissions'],
+  summary: 'Get submissions of conference',
+  description: 'Organizers see every submission, reviewers the submissions assigned to them and scientists their own',
+  ...withRoles('admin', 'organizer', 'reviewer', 'scientist'),
+  request: {
+    params: ConferenceParamsSchema,
+    query: z.object({
+      page: z.coerce.number().int().positive().optional().default(1).openapi({ description: 'Page number' }),
+      limit: z.coerce.number().int().positive().max(100).optional().default(10).openapi({ description: 'Items per page' }),
+      status: SubmissionStatusSchema.optional().openapi({ description: 'Filter by status' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            data: z.array(SubmissionSchema),
+            pagination: PaginationSchema
+          })
+        }
+      },
+      description: 'List of submissions'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+submissions.openapi(getSubmissionsRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { page, limit, status } = c.req.valid('query')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const skip = (page - 1) * limit
+
+  const where: Prisma.SubmissionWhereInput = { conferenceId: id, ...(status && { status }) }
+  if (!(await canManageConference(prisma, user, id))) {
+    if (user.role === 'reviewer') {
+      where.assignments = { some: { reviewerId: user.id } }
+    } else {
+      where.scientistId = user.scientistId ?? -1
+    }
+  }
+
+  const [data, total] = await Promise.all([
+    prisma.submission.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { id: 'asc' }
+    }),
+    prisma.submission.count({ where })
+  ])
+
+  return c.json({
+    data: data.map(formatSubmission),
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  }, 200)
+})
+
+const getSubmissionRankingRoute = createRoute({
+  method: 'get',
+  path: '/{id}/submissions/ranking',
+  tags: ['Submissions'],
+  summary: 'Rank submissions by review score',
+  description: 'Aggregates the reviews of every submission into a weighted score on a 0–100 scale. ' +
+    'Every criterion is normalized to its maxScore and weighted; a submission scores the mean of its reviews',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema,
+    query: z.object({
+      status: SubmissionStatusSchema.optional().openapi({ description: 'Filter by status' }),
+      minReviews: z.string().optional().openapi({ description: 'Only rank submissions with at least this many reviews' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SubmissionRankingSchema
+        }
+      },
+      description: 'Submissions ordered by score; unreviewed ones last'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+submissions.openapi(getSubmissionRankingRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { status, minReviews } = c.req.valid('query')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can rank its submissions')
+  }
+
+  const [criteria, rows] = await Promise.all([
+    criteriaOf(id),
+    prisma.submission.findMany({
+      where: { conferenceId: id, ...(status ? { status } : { status: { not: 'withdrawn' } }) },
+      include: { reviews: { include: { scores: true } } },
+      orderBy: { id: 'asc' }
+    })
+  ])
+
+  const minimum = minReviews ? parseInt(minReviews) || 0 : 0
+  const ranked = rows
+    .map((row) => ({ submission: row, ...aggregateReviews(criteria, row.reviews) }))
+    .filter((entry) => entry.reviewCount >= minimum)
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || b.reviewCount - a.reviewCount || a.submission.id - b.submission.id)
+
+  // Equal scores share a rank
+  let rank = 0
+  return c.json({
+    conferenceId: id,
+    criteria: criteria.map(formatCriterion),
+    data: ranked.map((entry, index) => {
+      if (entry.score !== null && (index === 0 || entry.score !== ranked[index - 1].score)) rank = index + 1
+      return {
+        rank: entry.score === null ? null : rank,
+        submission: formatSubmission(entry.submission),
+        score: entry.score,
+        reviewCount: entry.reviewCount,
+        criteria: entry.criteria
+      }
+    })
+  }, 200)
+})
+
+const getSubmissionRoute = createRoute({
+  method: 'get',
+  path: '/{id}/submissions/{submissionId}',
+  tags: ['Submissions'],
+  summary: 'Get submission by ID',
+  ...withRoles('admin', 'organizer', 'reviewer', 'scientist'),
+  request: {
+    params: SubmissionParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SubmissionSchema
+        }
+      },
+      description: 'Submission found'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission not found'
+    }
+  }
+})
+
+submissions.openapi(getSubmissionRoute, async (c) => {
+  const { id, submissionId } = c.req.valid('param')
+  const user = c.get('user')
+
+  const submission = await findSubmission(id, submissionId)
+  if (!submission) {
+    return problem(c, 404, 'Submission not found')
+  }
+
+  if (!(await submissionAccess(user, submission))) {
+    return problem(c, 403, 'You cannot view this submission')
+  }
+
+  return c.json(formatSubmission(submission), 200)
+})
+
+const updateSubmissionRoute = createRoute({
+  method: 'put',
+  path: '/{id}/submissions/{submissionId}',
+  tags: ['Submissions'],
+  summary: 'Update submission',
+  description: 'Authors and organizers can edit a submission until the first review is saved',
+  ...withRoles('admin', 'organizer', 'scientist'),
+  request: {
+    params: SubmissionParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: UpdateSubmissionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SubmissionSchema
+        }
+      },
+      description: 'Submission updated'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission is already under review or decided'
+    }
+  }
+})
+
+submissions.openapi(updateSubmissionRoute, async (c) => {
+  const { id, submissionId } = c.req.valid('param')
+  const data = c.req.valid('json')
+  const user = c.get('user')
+
+  const submission = await findSubmission(id, submissionId)
+  if (!submission) {
+    return problem(c, 404, 'Submission not found')
+  }
+
+  const access = await submissionAccess(user, submission)
+  if (access !== 'manager' && access !== 'author') {
+    return problem(c, 403, 'Only the author and organizers of this conference can edit the submission')
+  }
+
+  if (submission.status !== 'submitted') {
+    return problem(c, 409, `Submission is ${submission.status.replace('_', ' ')} and can no longer be edited`)
+  }
+
+  const updated = await prisma.submission.update({
+    where: { id: submissionId },
+    data
+  })
+
+  return c.json(formatSubmission(updated), 200)
+})
+
+const withdrawSubmissionRoute = createRoute({
+  method: 'post',
+  path: '/{id}/submissions/{submissionId}/withdraw',
+  tags: ['Submissions'],
+  summary: 'Withdraw submission',
+  description: 'Withdraws a submission that has not been decided yet',
+  ...withRoles('admin', 'organizer', 'scientist'),
+  request: {
+    params: SubmissionParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: SubmissionSchema
+        }
+      },
+      description: 'Submission withdrawn'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission has already been decided or withdrawn'
+    }
+  }
+})
+
+submissions.openapi(withdrawSubmissionRoute, async (c) => {
+  const { id, submissionId } = c.req.valid('param')
+  const user = c.get('user')
+
+  const submission = await findSubmission(id, submissionId)
+  if (!submission) {
+    return problem(c, 404, 'Submission not found')
+  }
+
+  const access = await submissionAccess(user, submission)
+  if (access !== 'manager' && access !== 'author') {
+    return problem(c, 403, 'Only the author and organizers of this conference can withdraw the submission')
+  }
+
+  const { count } = await prisma.submission.updateMany({
+    where: { id: submissionId, status: { in: ['submitted', 'under_review'] } },
+    data: { status: 'withdrawn' }
+  })
+
+  if (count === 0) {
+    return problem(c, 409, `Submission is already ${submission.status}`)
+  }
+
+  const updated = await prisma.submission.findUniqueOrThrow({ where: { id: submissionId } })
+
+  return c.json(formatSubmission(updated), 200)
+})
+
+const getReviewsRoute = createRoute({
+  method: 'get',
+  path: '/{id}/submissions/{submissionId}/reviews',
+  tags: ['Submissions'],
+  summary: 'Get reviews of submission',
+  description: 'Organizers see every review, reviewers their own. Authors see anonymous reviews once the submission is decided',
+  ...withRoles('admin', 'organizer', 'reviewer', 'scientist'),
+  request: {
+    params: SubmissionParamsSchema
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({
+            data: z.array(ReviewSchema),
+            score: z.number().nullable().openapi({ description: 'Mean weighted score of the visible reviews' })
+          })
+        }
+      },
+      description: 'List of reviews'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission not found'
+    }
+  }
+})
+
+submissions.openapi(getReviewsRoute, async (c) => {
+  const { id, submissionId } = c.req.valid('param')
+  const user = c.get('user')
+
+  const submission = await findSubmission(id, submissionId)
+  if (!submission) {
+    return problem(c, 404, 'Submission not found')
+  }
+
+  const access = await submissionAccess(user, submission)
+  if (!access) {
+    return problem(c, 403, 'You cannot view the reviews of this submission')
+  }
+  if (access === 'author' && isOpen(submission.status)) {
+    return problem(c, 403, 'Reviews are shared with the author once the submission is decided')
+  }
+
+  const [criteria, reviews] = await Promise.all([
+    criteriaOf(id),
+    prisma.review.findMany({
+      where: { submissionId, ...(access === 'reviewer' && { reviewerId: user.id }) },
+      include: { scores: true },
+      orderBy: { id: 'asc' }
+    })
+  ])
+
+  return c.json({
+    data: reviews.map((review) => formatReview(criteria, review, access === 'author')),
+    score: aggregateReviews(criteria, reviews).score
+  }, 200)
+})
+
+const saveReviewRoute = createRoute({
+  method: 'put',
+  path: '/{id}/submissions/{submissionId}/reviews',
+  tags: ['Submissions'],
+  summary: 'Save own review of submission',
+  description: 'Creates or replaces the caller\'s review. Reviewers can only review submissions assigned to them. ' +
+    'Every review criterion of the conference must be scored from 1 to its maxScore',
+  ...withRoles('admin', 'organizer', 'reviewer'),
+  request: {
+    params: SubmissionParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: SaveReviewSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: ReviewSchema
+        }
+      },
+      description: 'Review saved'
+    },
+    ...authResponses,
+    400: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Scores do not match the review criteria'
+    },
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission is decided or withdrawn, or the conference has no review criteria'
+    }
+  }
+})
+
+submissions.openapi(saveReviewRoute, async (c) => {
+  const { id, submissionId } = c.req.valid('param')
+  const { scores, comment } = c.req.valid('json')
+  const user = c.get('user')
+
+  const submission = await findSubmission(id, submissionId)
+  if (!submission) {
+    return problem(c, 404, 'Submission not found')
+  }
+
+  const access = await submissionAccess(user, submission)
+  if (access === 'author') {
+    return problem(c, 403, 'Authors cannot review their own submissions')
+  }
+  if (!access) {
+    return problem(c, 403, 'Only reviewers assigned to this submission and organizers of the conference can review it')
+  }
+
+  if (!isOpen(submission.status)) {
+    return problem(c, 409, `Submission is ${submission.status} and can no longer be reviewed`)
+  }
+
+  const criteria = await criteriaOf(id)
+  if (criteria.length === 0) {
+    return problem(c, 409, 'The conference has no review criteria yet')
+  }
+
+  for (const criterion of criteria) {
+    const matches = scores.filter((s) => s.criterionId === criterion.id)
+    if (matches.length !== 1) {
+      return problem(c, 400, `Exactly one score is required for criterion '${criterion.name}' (${criterion.id})`)
+    }
+    if (matches[0].score > criterion.maxScore) {
+      return problem(c, 400, `Score for '${criterion.name}' must be between 1 and ${criterion.maxScore}`)
+    }
+  }
+  const unknown = scores.find((s) => !criteria.some((criterion) => criterion.id === s.criterionId))
+  if (unknown) {
+    return problem(c, 400, `Criterion ${unknown.criterionId} is not a review criterion of this conference`)
+  }
+
+  const review = await prisma.$transaction(async (tx) => {
+    // The criteria are replaced under the same lock; scores for criteria replaced meanwhile are not saved
+    await lockConference(tx, id)
+    const current = await tx.reviewCriterion.count({ where: { conferenceId: id, id: { in: criteria.map((criterion) => criterion.id) } } })
+    if (current !== criteria.length) return null
+
+    const saved = await tx.review.upsert({
+      where: { submissionId_reviewerId: { submissionId, reviewerId: user.id } },
+      create: { submissionId, reviewerId: user.id, comment },
+      update: { comment: comment ?? null }
+    })
+    await tx.reviewScore.deleteMany({ where: { reviewId: saved.id } })
+    await tx.reviewScore.createMany({
+      data: scores.map((s) => ({ reviewId: saved.id, criterionId: s.criterionId, score: s.score }))
+    })
+    await tx.submission.updateMany({
+      where: { id: submissionId, status: 'submitted' },
+      data: { status: 'under_review' }
+    })
+    return tx.review.findUniqueOrThrow({ where: { id: saved.id }, include: { scores: true } })
+  })
+
+  if (!review) {
+    return problem(c, 409, 'The review criteria of the conference changed; score the new criteria instead')
+  }
+
+  return c.json(formatReview(criteria, review), 200)
+})
+
+const decideSubmissionRoute = createRoute({
+  method: 'post',
+  path: '/{id}/submissions/{submissionId}/decision',
+  tags: ['Submissions'],
+  summary: 'Accept or reject submission',
+  description: 'Decisions are final. Accepting creates a confirmed participation of the author with the submission\'s title, ' +
+    'duration and participation type; a full conference waitlists it instead. ' +
+    'Fails with 400 when the metadata does not match the metadata schema of the conference',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: SubmissionParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: DecisionSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: DecisionResultSchema
+        }
+      },
+      description: 'Decision recorded; conflicts lists overlapping registrations of the author'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Submission not found'
+    },
+    409: {
+      content: {
+        'application/problem+json': {
+          schema: z.union([DoubleBookingErrorSchema, ProblemSchema])
+        }
+      },
+      description: 'Submission is already decided or withdrawn, or accepting it would double-book the author (strict mode only)'
+    }
+  }
+})
+
+submissions.openapi(decideSubmissionRoute, async (c) => {
+  const { id, submissionId } = c.req.valid('param')
+  const { decision, note, participationType, durationMinutes, metadata } = c.req.valid('json')
+  const user = c.get('user')
+
+  const submission = await findSubmission(id, submissionId)
+  if (!submission) {
+    return problem(c, 404, 'Submission not found')
+  }
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can decide on its submissions')
+  }
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      // Claim the submission first so that concurrent decisions cannot both create a participation
+      const { count } = await tx.submission.updateMany({
+        where: { id: submissionId, status: { in: ['submitted', 'under_review'] } },
+        data: { status: decision, decisionNote: note, decidedById: user.id, decidedAt: new Date() }
+      })
+      if (count === 0) return null
+
+      if (decision === 'rejected') {
+        return { submission: await tx.submission.findUniqueOrThrow({ where: { id: submissionId } }), participation: null, conflicts: [] }
+      }
+
+      const { participation, conflicts } = await acceptSubmission(tx, {
+        ...submission,
+        participationType: participationType ?? submission.participationType,
+        durationMinutes: durationMinutes ?? submission.durationMinutes,
+        metadata
+      }, user)
+      const accepted = await tx.submission.update({
+        where: { id: submissionId },
+        data: { participationId: participation.id }
+      })
+
+      return { submission: accepted, participation, conflicts }
+    })
+
+    if (!result) {
+      return problem(c, 409, `Submission is already ${submission.status}`)
+    }
+
+    return c.json({
+      submission: formatSubmission(result.submission),
+      participation: result.participation && { id: result.participation.id, status: result.participation.status },
+      conflicts: result.conflicts.map(formatConflict)
+    }, 200)
+  } catch (error) {
+    if (error instanceof DoubleBookingError) {
+      return problem(c, 409, error.message, formatDoubleBookingError(error))
+    }
+    throw error
+  }
+})
+
+const assignReviewersRoute = createRoute({
+  method: 'post',
+  path: '/{id}/reviews/assign',
+  tags: ['Submissions'],
+  summary: 'Assign reviewers to submissions',
+  description: 'Assigns users with the reviewer role to every submission awaiting a decision. Reviewers are ranked by how well ' +
+    'their specialization matches the submission title, abstract and conference topic, and the load is spread evenly. ' +
+    'Reviewers from the author\'s organization or country, or who presented at a conference together with the author, are excluded. ' +
+    'The result explains every assignment and exclusion',
+  ...withRoles('admin', 'organizer'),
+  request: {
+    params: ConferenceParamsSchema,
+    body: {
+      content: {
+        'application/json': {
+          schema: AssignReviewersSchema
+        }
+      }
+    }
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: AssignmentResultSchema
+        }
+      },
+      description: 'Assignment plan, saved unless dryRun is set'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+submissions.openapi(assignReviewersRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { reviewersPerSubmission, maxPerReviewer, submissionIds, dryRun } = c.req.valid('json')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true, topic: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  if (!(await canManageConference(prisma, user, id))) {
+    return problem(c, 403, 'Only organizers of this conference can assign reviewers')
+  }
+
+  const plan = await prisma.$transaction(async (tx) => {
+    // Serializes assignment runs of the conference so that loads are counted once
+    await lockConference(tx, id)
+
+    const [rows, reviewers] = await Promise.all([
+      tx.submission.findMany({
+        where: {
+          conferenceId: id,
+          status: { in: OPEN_SUBMISSION_STATUSES },
+          ...(submissionIds && { id: { in: submissionIds } })
+        },
+        include: {
+          scientist: { include: ASSIGNMENT_SCIENTIST_INCLUDE },
+          assignments: { select: { reviewerId: true } }
+        },
+        orderBy: { id: 'asc' }
+      }),
+      tx.user.findMany({
+        where: { role: 'reviewer' },
+        include: {
+          scientist: { include: ASSIGNMENT_SCIENTIST_INCLUDE },
+          _count: { select: { reviewAssignments: { where: { submission: { conferenceId: id } } } } }
+        },
+        orderBy: { id: 'asc' }
+      })
+    ])
+
+    const result = planAssignments(
+      rows.map((row) => ({
+        id: row.id,
+        title: row.title,
+        abstract: row.abstract,
+        author: toAssignmentScientist(row.scientist),
+        assigned: row.assignments.map((assignment) => assignment.reviewerId)
+      })),
+      reviewers.map((reviewer) => ({
+        userId: reviewer.id,
+        scientist: reviewer.scientist ? toAssignmentScientist(reviewer.scientist) : null,
+        load: reviewer._count.reviewAssignments
+      })),
+      conference.topic,
+      { reviewersPerSubmission, maxPerReviewer }
+    )
+
+    if (!dryRun) {
+      await tx.reviewAssignment.createMany({
+        data: result.submissions.flatMap((submission) => submission.assigned.map((reviewer) => ({
+          submissionId: submission.submissionId,
+          reviewerId: reviewer.reviewerId,
+          matchScore: reviewer.matchScore,
+          reasons: reviewer.reasons,
+          assignedById: user.id
+        }))),
+        skipDuplicates: true
+      })
+    }
+
+    return result
+  })
+
+  return c.json({
+    dryRun,
+    maxPerReviewer: plan.maxPerReviewer,
+    summary: {
+      submissions: plan.submissions.length,
+      assigned: plan.submissions.reduce((sum, submission) => sum + submission.assigned.length, 0),
+      unfilled: plan.submissions.reduce((sum, submission) => sum + submission.unfilled, 0)
+    },
+    data: plan.submissions
+  }, 200)
+})
+
+const getReviewAssignmentsRoute = createRoute({
+  method: 'get',
+  path: '/{id}/reviews/assignments',
+  tags: ['Submissions'],
+  summary: 'Get reviewer assignments of conference',
+  description: 'Organizers see every assignment, reviewers their own',
+  ...withRoles('admin', 'organizer', 'reviewer'),
+  request: {
+    params: ConferenceParamsSchema,
+    query: z.object({
+      submissionId: z.string().optional().openapi({ description: 'Filter by submission ID' }),
+      reviewerId: z.string().optional().openapi({ description: 'Filter by reviewer user ID' })
+    })
+  },
+  responses: {
+    ...problemResponses,
+    200: {
+      content: {
+        'application/json': {
+          schema: z.object({ data: z.array(ReviewAssignmentSchema) })
+        }
+      },
+      description: 'List of assignments'
+    },
+    ...authResponses,
+    404: {
+      content: {
+        'application/problem+json': {
+          schema: ProblemSchema
+        }
+      },
+      description: 'Conference not found'
+    }
+  }
+})
+
+submissions.openapi(getReviewAssignmentsRoute, async (c) => {
+  const { id } = c.req.valid('param')
+  const { submissionId, reviewerId } = c.req.valid('query')
+  const user = c.get('user')
+
+  const conference = await prisma.conference.findUnique({ where: { id }, select: { id: true } })
+  if (!conference) {
+    return problem(c, 404, 'Conference not found')
+  }
+
+  const manager = await canManageConference(prisma, user, id)
+  if (!manager && user.role !== 'reviewer') {
+    return problem(c, 403, 'Only organizers of this conference and reviewers can view assignments')
+  }
+
+  const assignments = await prisma.reviewAssignment.findMany({
+    where: {
+      submission: { conferenceId: id },
+      ...(submissionId && { submissionId: parseInt(submissionId) }),
+      ...(manager ? reviewerId && { reviewerId: parseInt(reviewerId) } : { reviewerId: user.id })
+    },
+    include: { submission: { select: { reviews: { select: { reviewerId: true } } } } },
+    orderBy: [{ submissionId: 'asc' }, { id: 'asc' }]
+  })
+
+  return c.json({
+    data: assignments.map((a) => ({
+      id: a.id,
+      submissionId: a.submissionId,
+      reviewerId: a.reviewerId,
+      matchScore: a.matchScore,
+      reasons: a.reasons,
+      reviewed: a.submission.reviews.some((review) => review.reviewerId === a.reviewerId),
+      createdAt: a.createdAt.toISOString()
+    }))
+  }, 200)
+})
+
+export default submissions
@@ -0,0 +1,77 @@
+import 'dotenv/config'
+
+// Checks that every export streams as many rows as its list reports in pagination.total,
+// for every sortBy value in both orders: pnpm check:exports against a running API
+const API_ORIGIN =
+  process.env.CHECK_API_URL ||
+  `http://localhost:${process.env.SCONF_API_PORT || process.env.PORT || 3000}`
+
+const authToken = process.env.CHECK_API_TOKEN
+
+type Parameter = { name: string; schema?: { enum?: string[] } }
+
+type OpenAPIDocument = { paths: Record<string, { get?: { parameters?: Parameter[] } }> }
+
+async function get(path: string, accept = 'application/json') {
+  const res = await fetch(`${API_ORIGIN}${path}`, {
+    headers: {
+      Accept: accept,
+      ...(authToken && { Authorization: `Bearer ${authToken}` })
+    }
+  })
+
+  if (!res.ok) {
+    throw new Error(`Request failed ${res.status} ${res.statusText}: GET ${path}: ${await res.text()}`)
+  }
+
+  return res
+}
+
+// Lists that export NDJSON, read from the OpenAPI document so that new exports are checked too
+async function exportableLists() {
+  const doc = await (await get('/doc')).json() as OpenAPIDocument
+
+  return Object.entries(doc.paths).flatMap(([path, item]) => {
+    const parameters = item.get?.parameters ?? []
+    const format = parameters.find((parameter) => parameter.name === 'format')
+    if (path.includes('{') || !format?.schema?.enum?.includes('ndjson')) return []
+
+    const sortBy = parameters.find((parameter) => parameter.name === 'sortBy')?.schema?.enum ?? []
+    const sorts = sortBy.flatMap((field) => ['asc', 'desc'].map((order) => `sortBy=${field}&sortOrder=${order}`))
+    return [{ path, sorts: sorts.length > 0 ? sorts : [''] }]
+  })
+}
+
+async function main() {
+  console.log(`Checking exports at ${API_ORIGIN}`)
+  let failures = 0
+
+  try {
+    for (const { path, sorts } of await exportableLists()) {
+      for (const sort of sorts) {
+        const list = await (await get(`${path}?${sort}&limit=1&count=true`)).json() as { pagination: { total: number } }
+        const ndjson = await (await get(`${path}?${sort}&format=ndjson`, 'application/x-ndjson')).text()
+        const exported = ndjson.split('\n').filter(Boolean).length
+
+        const label = `${path}${sort && `?${sort}`}`
+        if (exported === list.pagination.total) {
+          console.log(`✓ ${label}: ${exported} rows`)
+        } else {
+          console.error(`✗ ${label}: exported ${exported} rows, the list has ${list.pagination.total}`)
+          failures++
+        }
+      }
+    }
+  } catch (err) {
+    console.error('✗ Check failed:', err)
+    process.exit(1)
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} exports do not match their list`)
+    process.exit(1)
+  }
+  console.log('\nEvery export matches its list')
+}
+
+main()
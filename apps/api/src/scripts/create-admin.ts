@@ -0,0 +1,36 @@
+import 'dotenv/config'
+import { prisma } from '../lib/prisma.js'
+import { hashPassword } from '../lib/auth.js'
+
+// Bootstraps the first admin account: pnpm auth:create-admin <email> <password>
+async function main() {
+  const email = process.argv[2] || process.env.SCONF_ADMIN_EMAIL
+  const password = process.argv[3] || process.env.SCONF_ADMIN_PASSWORD
+
+  if (!email || !password) {
+    console.error('Usage: pnpm auth:create-admin <email> <password> (or set SCONF_ADMIN_EMAIL / SCONF_ADMIN_PASSWORD)')
+    process.exit(1)
+  }
+
+  if (password.length < 8) {
+    console.error('✗ Password must be at least 8 characters')
+    process.exit(1)
+  }
+
+  const passwordHash = await hashPassword(password)
+
+  const user = await prisma.user.upsert({
+    where: { email },
+    update: { role: 'admin', passwordHash },
+    create: { email, passwordHash, role: 'admin' }
+  })
+
+  console.log(`✓ Admin account ready: ${user.email} (id ${user.id})`)
+}
+
+main()
+  .catch((err) => {
+    console.error('✗ Failed to create admin:', err)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
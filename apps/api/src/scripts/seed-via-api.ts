@@ -36,10 +36,15 @@ const API_BASE =
   process.env.NUXT_PUBLIC_API_BASE_URL ||
   `http://localhost:${process.env.SCONF_API_PORT || process.env.PORT || 3000}/api`
 
+let authToken = process.env.SEED_API_TOKEN
+
 async function http<T>(path: string, body: Record<string, unknown>): Promise<T> {
   const res = await fetch(`${API_BASE}${path}`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...(authToken && { Authorization: `Bearer ${authToken}` })
+    },
     body: JSON.stringify(body),
   })
 
@@ -114,7 +119,7 @@ async function seedConferences(count = 20) {
 
 async function seedParticipations(scientistIds: number[], conferenceIds: number[], count = 60) {
   const types = ['Keynote', 'Workshop', 'Poster', 'Panel']
-  const statuses = ['confirmed', 'pending', 'declined', 'completed']
+  const statuses = ['confirmed', 'pending']
   const titles = [
     'Advances in AI',
     'Future of Robotics',
@@ -149,10 +154,25 @@ async function seedParticipations(scientistIds: number[], conferenceIds: number[
   }
 }
 
+async function login() {
+  if (authToken) return
+
+  const email = process.env.SEED_ADMIN_EMAIL || process.env.SCONF_ADMIN_EMAIL
+  const password = process.env.SEED_ADMIN_PASSWORD || process.env.SCONF_ADMIN_PASSWORD
+  if (!email || !password) {
+    throw new Error('Set SEED_API_TOKEN or SEED_ADMIN_EMAIL/SEED_ADMIN_PASSWORD (see pnpm auth:create-admin)')
+  }
+
+  const { token } = await http<{ token: string }>('/auth/login', { email, password })
+  authToken = token
+}
+
 async function main() {
   console.log(`Seeding via API at ${API_BASE}`)
   
   try {
+    await login()
+
     const scientists = await seedScientists(30)
     console.log(`✓ Created scientists: ${scientists.length}`)
     